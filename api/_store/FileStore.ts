@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import type { HighScore, LeaderboardStore, StoreSnapshot } from './LeaderboardStore';
+
+/**
+ * Scores kept in a local JSON file (self-hosted deployments and offline runs).
+ * The revision is a hash of the file contents; writes take a lock file so the
+ * check-and-replace is atomic across processes.
+ */
+export class FileStore implements LeaderboardStore {
+  private static readonly STALE_LOCK_MS = 10000; // Locks older than this were left by a crashed writer
+
+  private filePath: string;
+  private lockPath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.lockPath = `${this.filePath}.lock`;
+  }
+
+  async read(): Promise<StoreSnapshot> {
+    const content = await this.readContent();
+    const scores = content ? JSON.parse(content) : [];
+    return {
+      scores: Array.isArray(scores) ? scores : [],
+      revision: FileStore.hash(content),
+    };
+  }
+
+  async write(scores: HighScore[], revision: string): Promise<boolean> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    if (!(await this.acquireLock())) return false;
+
+    try {
+      if (FileStore.hash(await this.readContent()) !== revision) return false;
+
+      // Write to a temp file first so readers never see a half-written leaderboard
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(scores, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      return true;
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async readContent(): Promise<string> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      // No file yet = empty leaderboard
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+      throw error;
+    }
+  }
+
+  /**
+   * Try to create the lock file. A held lock counts as a conflict - the caller retries.
+   */
+  private async acquireLock(): Promise<boolean> {
+    try {
+      const handle = await fs.open(this.lockPath, 'wx');
+      await handle.close();
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const stats = await fs.stat(this.lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > FileStore.STALE_LOCK_MS) {
+        await fs.rm(this.lockPath, { force: true });
+      }
+      return false;
+    }
+  }
+
+  private static hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,84 @@
+import type { HighScore, LeaderboardStore, StoreSnapshot } from './LeaderboardStore';
+
+// The parts of GitHub's gist response the store reads
+interface GistResponse {
+  files: Record<string, { content?: string } | null>;
+  history?: { version: string }[]; // Newest first
+  updated_at?: string;
+}
+
+/**
+ * Scores kept as a JSON file in a GitHub Gist (the public leaderboard the client reads).
+ * The revision is the gist's latest history version.
+ *
+ * Not atomic: GitHub has no conditional PATCH for gists, so write() only re-checks the
+ * version right before patching. Two submissions that both pass that check within the
+ * same round trip still overwrite each other, and the one written first is lost even
+ * though its write reported success. Fine for a low-traffic leaderboard - use a store with
+ * a real check-and-swap (like FileStore) if that ever stops being true.
+ */
+export class GistStore implements LeaderboardStore {
+  static readonly FILENAME = 'unmask-city-scores.json';
+
+  private gistId: string;
+  private token: string;
+
+  constructor(gistId: string, token: string) {
+    this.gistId = gistId;
+    this.token = token;
+  }
+
+  async read(): Promise<StoreSnapshot> {
+    const gist = await this.fetchGist();
+    const content = gist.files[GistStore.FILENAME]?.content || '[]';
+    const scores = JSON.parse(content);
+    return {
+      scores: Array.isArray(scores) ? scores : [],
+      revision: GistStore.getVersion(gist),
+    };
+  }
+
+  async write(scores: HighScore[], revision: string): Promise<boolean> {
+    if (GistStore.getVersion(await this.fetchGist()) !== revision) return false;
+
+    const response = await fetch(`https://api.github.com/gists/${this.gistId}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `token ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        files: {
+          [GistStore.FILENAME]: {
+            content: JSON.stringify(scores, null, 2),
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update gist: ${response.status}`);
+    }
+    return true;
+  }
+
+  private async fetchGist(): Promise<GistResponse> {
+    const response = await fetch(`https://api.github.com/gists/${this.gistId}`, {
+      cache: 'no-store', // Stale reads would turn every write into a conflict
+      headers: {
+        'Authorization': `token ${this.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch gist: ${response.status}`);
+    }
+    return (await response.json()) as GistResponse;
+  }
+
+  private static getVersion(gist: GistResponse): string {
+    return gist.history?.[0]?.version || gist.updated_at || '';
+  }
+}
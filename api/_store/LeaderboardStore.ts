@@ -0,0 +1,85 @@
+import { GistStore } from './GistStore';
+import { FileStore } from './FileStore';
+import { MemoryStore } from './MemoryStore';
+import type { HighScore } from '../../src/game/HighScoreManager';
+
+// Same shape the client stores locally
+export type { HighScore };
+
+export interface StoreSnapshot {
+  scores: HighScore[];
+  revision: string; // Opaque version token, handed back to write()
+}
+
+/**
+ * Where the global leaderboard lives. Implementations only load and save the whole
+ * score list - sorting and trimming stay in the handler.
+ */
+export interface LeaderboardStore {
+  read(): Promise<StoreSnapshot>;
+  /**
+   * Replace the scores, but only if the store is still at `revision`.
+   * Returns false when someone else wrote in between (the caller should re-read and retry).
+   */
+  write(scores: HighScore[], revision: string): Promise<boolean>;
+}
+
+// Thrown when the environment doesn't describe a usable store
+export class StoreConfigError extends Error {}
+
+// Thrown when a read-modify-write kept losing to concurrent writers
+export class StoreConflictError extends Error {}
+
+const MAX_UPDATE_ATTEMPTS = 8;
+const RETRY_BASE_DELAY = 25; // ms, doubled per attempt with full jitter
+
+/**
+ * Optimistic read-modify-write: apply `update` to the latest scores and write them back,
+ * re-reading and re-applying whenever another submission got there first
+ */
+export async function updateScores(
+  store: LeaderboardStore,
+  update: (scores: HighScore[]) => HighScore[]
+): Promise<HighScore[]> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { scores, revision } = await store.read();
+    const updated = update(scores);
+    if (await store.write(updated, revision)) {
+      return updated;
+    }
+
+    // Conflict - back off a random amount so parallel writers spread out
+    const delay = Math.random() * RETRY_BASE_DELAY * Math.pow(2, attempt);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  throw new StoreConflictError(`Leaderboard update conflicted ${MAX_UPDATE_ATTEMPTS} times`);
+}
+
+// Shared so scores survive between requests handled by the same process
+let memoryStore: MemoryStore | null = null;
+
+/**
+ * Pick the store from the environment:
+ * - LEADERBOARD_STORE=gist (default): GIST_ID + GITHUB_TOKEN
+ * - LEADERBOARD_STORE=file: LEADERBOARD_FILE (defaults to ./leaderboard.json)
+ * - LEADERBOARD_STORE=memory: process-local, for tests and local runs
+ */
+export function createLeaderboardStore(env: NodeJS.ProcessEnv = process.env): LeaderboardStore {
+  const kind = (env.LEADERBOARD_STORE || 'gist').toLowerCase();
+
+  switch (kind) {
+    case 'gist':
+      if (!env.GIST_ID || !env.GITHUB_TOKEN) {
+        throw new StoreConfigError('GIST_ID and GITHUB_TOKEN must be set for the gist store');
+      }
+      return new GistStore(env.GIST_ID, env.GITHUB_TOKEN);
+    case 'file':
+      return new FileStore(env.LEADERBOARD_FILE || './leaderboard.json');
+    case 'memory':
+      memoryStore = memoryStore || new MemoryStore();
+      return memoryStore;
+    default:
+      throw new StoreConfigError(`Unknown LEADERBOARD_STORE "${kind}"`);
+  }
+}
@@ -0,0 +1,29 @@
+import type { HighScore, LeaderboardStore, StoreSnapshot } from './LeaderboardStore';
+
+/**
+ * Process-local scores, for tests and local development
+ */
+export class MemoryStore implements LeaderboardStore {
+  private scores: HighScore[];
+  private revision = 0;
+
+  constructor(initialScores: HighScore[] = []) {
+    this.scores = initialScores.map(s => ({ ...s }));
+  }
+
+  async read(): Promise<StoreSnapshot> {
+    // Hand out copies so callers can't mutate the stored list in place
+    return {
+      scores: this.scores.map(s => ({ ...s })),
+      revision: String(this.revision),
+    };
+  }
+
+  async write(scores: HighScore[], revision: string): Promise<boolean> {
+    // Check and swap happen synchronously, so this is atomic within the process
+    if (revision !== String(this.revision)) return false;
+    this.scores = scores.map(s => ({ ...s }));
+    this.revision++;
+    return true;
+  }
+}
@@ -0,0 +1,64 @@
+import { DailyChallenge } from '../../src/game/DailyChallenge';
+import { HighScoreManager } from '../../src/game/HighScoreManager';
+import type { HighScore } from './LeaderboardStore';
+
+// Every difficulty (and each daily challenge) keeps its own top list
+export const MAX_SCORES = 100; // Per difficulty
+export const MAX_DAILY_SCORES = 50; // Per daily challenge
+
+// Run ids and player ids (UUIDs, or the client's fallback format)
+const ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function isValidId(id: unknown): id is string {
+  return typeof id === 'string' && ID_PATTERN.test(id);
+}
+
+// A leaderboard entry as anyone can see it: without the player id (it would let others
+// submit as that player), but saying whether it's the caller's
+export type PublicScore = Omit<HighScore, 'playerId'> & { isYou: boolean };
+
+export function toPublicEntry(score: HighScore, callerId?: string): PublicScore {
+  const { playerId, ...entry } = score;
+  return { ...entry, isYou: callerId !== undefined && playerId === callerId };
+}
+
+/**
+ * Best first; equal scores keep the earlier submission ahead
+ */
+export function sortScores(scores: HighScore[]): HighScore[] {
+  // String() so entries stored before dates were set by the server can't break the sort
+  return scores.sort((a, b) => b.score - a.score || String(a.date ?? '').localeCompare(String(b.date ?? '')));
+}
+
+// Keep the top scores of each bucket and drop expired daily challenges (scores must be sorted)
+export function trimScores(scores: HighScore[]): HighScore[] {
+  const bucketCounts = new Map<string, number>();
+  return scores.filter((s) => {
+    if (s.challengeId && !DailyChallenge.isRecent(s.challengeId)) return false;
+    const bucket = HighScoreManager.getBucket(s);
+    const count = bucketCounts.get(bucket) || 0;
+    bucketCounts.set(bucket, count + 1);
+    return count < (s.challengeId ? MAX_DAILY_SCORES : MAX_SCORES);
+  });
+}
+
+/**
+ * Ranked list for one difficulty (or one daily challenge) - index + 1 is the rank
+ */
+export function getBucketScores(scores: HighScore[], difficulty: string, challengeId?: string): HighScore[] {
+  return sortScores(scores.filter(s => HighScoreManager.matchesBucket(s, difficulty, challengeId)));
+}
+
+/**
+ * 1-based rank of a run within a ranked bucket, or 0 if it isn't on the board
+ */
+export function findRank(bucketScores: HighScore[], runId: string): number {
+  return bucketScores.findIndex(s => s.runId === runId) + 1;
+}
+
+/**
+ * 1-based rank of a player's best entry within a ranked bucket, or 0 if they aren't on the board
+ */
+export function findPlayerRank(bucketScores: HighScore[], playerId: string): number {
+  return bucketScores.findIndex(s => s.playerId === playerId) + 1;
+}
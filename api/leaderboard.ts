@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DailyChallenge } from '../src/game/DailyChallenge';
+import { isKnownDifficulty } from '../src/game/Difficulties';
+import { createLeaderboardStore, LeaderboardStore, StoreConfigError } from './_store/LeaderboardStore';
+import { findPlayerRank, findRank, getBucketScores, isValidId, toPublicEntry } from './_store/ranking';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+// Query values arrive as string | string[] - take the first one
+function getParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseInteger(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : NaN;
+}
+
+/**
+ * GET /api/leaderboard?difficulty=hard&offset=0&limit=10&runId=...&playerId=...
+ * (daily challenge: difficulty=daily&challengeId=daily-2026-02-01)
+ *
+ * Returns one ranked page of a difficulty's top list, plus the caller's entry: the run
+ * `runId` if given and on the board, otherwise the best entry of `playerId`. Entries never
+ * include player ids; `isYou` marks the ones that belong to `playerId`.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle OPTIONS request
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const difficulty = getParam(req, 'difficulty') || 'normal';
+  const challengeId = getParam(req, 'challengeId') || undefined;
+  const runId = getParam(req, 'runId') || undefined;
+  const playerId = getParam(req, 'playerId') || undefined;
+  const offset = parseInteger(getParam(req, 'offset'), 0);
+  const limit = parseInteger(getParam(req, 'limit'), DEFAULT_LIMIT);
+
+  if (!isKnownDifficulty(difficulty)) {
+    return res.status(400).json({ error: 'Unknown difficulty' });
+  }
+  if (difficulty === DailyChallenge.DIFFICULTY ? !DailyChallenge.isValidId(challengeId) : challengeId !== undefined) {
+    return res.status(400).json({ error: 'Invalid daily challenge' });
+  }
+  if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({ error: `offset must be >= 0 and limit between 1 and ${MAX_LIMIT}` });
+  }
+  if (runId !== undefined && !isValidId(runId)) {
+    return res.status(400).json({ error: 'Invalid run id' });
+  }
+  if (playerId !== undefined && !isValidId(playerId)) {
+    return res.status(400).json({ error: 'Invalid player id' });
+  }
+
+  // Leaderboard storage is picked from the environment (see _store/LeaderboardStore.ts)
+  let store: LeaderboardStore;
+  try {
+    store = createLeaderboardStore();
+  } catch (error) {
+    if (error instanceof StoreConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    throw error;
+  }
+
+  try {
+    const { scores } = await store.read();
+    const ranked = getBucketScores(scores, difficulty, challengeId);
+
+    let rank = runId ? findRank(ranked, runId) : 0;
+    if (rank === 0 && playerId) {
+      rank = findPlayerRank(ranked, playerId);
+    }
+    const player = rank > 0 ? { rank, ...toPublicEntry(ranked[rank - 1], playerId) } : null;
+
+    // Short shared cache - the board changes a few times a minute at most
+    res.setHeader('Cache-Control', 's-maxage=10, stale-while-revalidate=30');
+
+    return res.status(200).json({
+      difficulty,
+      challengeId,
+      total: ranked.length,
+      offset,
+      limit,
+      scores: ranked.slice(offset, offset + limit).map((score, i) => ({ rank: offset + i + 1, ...toPublicEntry(score, playerId) })),
+      player, // null when neither the run nor the player is on the board
+    });
+  } catch (error) {
+    console.error('Error reading leaderboard:', error);
+    return res.status(500).json({
+      error: 'Failed to read leaderboard',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DailyChallenge } from '../src/game/DailyChallenge';
+import { DIFFICULTIES, isRankedDifficulty } from '../src/game/Difficulties';
+import { createLeaderboardStore, LeaderboardStore, StoreConfigError } from './_store/LeaderboardStore';
+import { findPlayerRank, getBucketScores, isValidId, toPublicEntry } from './_store/ranking';
+
+/**
+ * GET /api/player-best?playerId=...
+ *
+ * A player's best leaderboard entry (with rank) on every difficulty, and on today's daily challenge.
+ * Difficulties where the player isn't on the board map to null. Entries leave out the player id.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle OPTIONS request
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const playerId = Array.isArray(req.query.playerId) ? req.query.playerId[0] : req.query.playerId;
+  if (!isValidId(playerId)) {
+    return res.status(400).json({ error: 'Invalid player id' });
+  }
+
+  // Leaderboard storage is picked from the environment (see _store/LeaderboardStore.ts)
+  let store: LeaderboardStore;
+  try {
+    store = createLeaderboardStore();
+  } catch (error) {
+    if (error instanceof StoreConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    throw error;
+  }
+
+  try {
+    const { scores } = await store.read();
+    const challengeId = DailyChallenge.getChallengeId();
+
+    const best: Record<string, object | null> = {};
+    Object.keys(DIFFICULTIES)
+      .filter(isRankedDifficulty)
+      .forEach((difficulty) => {
+        const ranked = getBucketScores(
+          scores,
+          difficulty,
+          difficulty === DailyChallenge.DIFFICULTY ? challengeId : undefined
+        );
+        const rank = findPlayerRank(ranked, playerId);
+        best[difficulty] = rank > 0 ? { rank, total: ranked.length, ...toPublicEntry(ranked[rank - 1], playerId) } : null;
+      });
+
+    return res.status(200).json({ playerId, challengeId, best });
+  } catch (error) {
+    console.error('Error reading player bests:', error);
+    return res.status(500).json({
+      error: 'Failed to read leaderboard',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,19 +1,18 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-interface HighScore {
-  score: number;
-  time: number;
-  explored: number;
-  fragments: number;
-  difficulty: string;
-  date: string;
-}
-
-// Configuration
-const GIST_ID = process.env.GIST_ID || 'YOUR_GIST_ID';
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const GIST_FILENAME = 'unmask-city-scores.json';
-const MAX_SCORES = 100; // Store top 100 globally
+import { DailyChallenge } from '../src/game/DailyChallenge';
+import { HighScoreManager } from '../src/game/HighScoreManager';
+import { PlayerProfile } from '../src/game/PlayerProfile';
+import { RunLog } from '../src/game/RunRecorder';
+import { RunVerifier } from '../src/game/RunVerifier';
+import {
+  createLeaderboardStore,
+  HighScore,
+  LeaderboardStore,
+  StoreConfigError,
+  StoreConflictError,
+  updateScores,
+} from './_store/LeaderboardStore';
+import { findRank, isValidId, sortScores, trimScores } from './_store/ranking';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS headers
@@ -31,84 +30,119 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  // Validate GitHub token
-  if (!GITHUB_TOKEN) {
-    console.error('GITHUB_TOKEN not configured');
-    return res.status(500).json({ error: 'Server configuration error' });
+  // Leaderboard storage is picked from the environment (see _store/LeaderboardStore.ts)
+  let store: LeaderboardStore;
+  try {
+    store = createLeaderboardStore();
+  } catch (error) {
+    if (error instanceof StoreConfigError) {
+      console.error(error.message);
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+    throw error;
   }
 
   try {
-    const newScore: HighScore = req.body;
+    // The run log is only used for verification, it isn't stored with the score
+    const { run, ...submitted }: HighScore & { run?: RunLog } = req.body ?? {};
 
-    // Basic validation
-    if (!newScore.score || !newScore.time || !newScore.difficulty) {
+    // Basic validation (numbers must really be numbers - NaN would slip through every check below)
+    const numbers = [submitted.score, submitted.time, submitted.explored, submitted.fragments, submitted.seed];
+    if (!numbers.every(Number.isFinite) || typeof submitted.difficulty !== 'string') {
       return res.status(400).json({ error: 'Invalid score data' });
     }
 
     // Anti-cheat: Basic sanity checks
-    if (newScore.score < 0 || newScore.score > 50000) {
+    if (submitted.score < 0 || submitted.score > 50000) {
       return res.status(400).json({ error: 'Score out of valid range' });
     }
-    if (newScore.time < 10 || newScore.time > 3600) {
+    if (submitted.time < 10 || submitted.time > 3600) {
       return res.status(400).json({ error: 'Time out of valid range' });
     }
-    if (newScore.explored < 0 || newScore.explored > 100) {
+    if (submitted.explored < 0 || submitted.explored > 100) {
       return res.status(400).json({ error: 'Explored % out of valid range' });
     }
+    if (!isValidId(submitted.runId)) {
+      return res.status(400).json({ error: 'Invalid run id' });
+    }
+    const runId = submitted.runId;
+    if (!isValidId(submitted.playerId)) {
+      return res.status(400).json({ error: 'Invalid player id' });
+    }
 
-    // Fetch current gist
-    const gistResponse = await fetch(`https://api.github.com/gists/${GIST_ID}`, {
-      headers: {
-        'Authorization': `token ${GITHUB_TOKEN}`,
-        'Accept': 'application/vnd.github.v3+json',
-      },
-    });
+    // Player name: optional, stored sanitized (no markup characters), never profane
+    const playerName = PlayerProfile.sanitizeName(submitted.playerName);
+    const nameError = PlayerProfile.validateName(playerName);
+    if (nameError) {
+      return res.status(400).json({ error: nameError, code: 'INVALID_NAME' });
+    }
 
-    if (!gistResponse.ok) {
-      throw new Error(`Failed to fetch gist: ${gistResponse.status}`);
+    // Daily challenge: must be today's (or yesterday's, for late finishes) city and seed
+    if (submitted.difficulty === DailyChallenge.DIFFICULTY) {
+      if (!DailyChallenge.isValidId(submitted.challengeId)) {
+        return res.status(400).json({ error: 'Invalid daily challenge' });
+      }
+      if (!DailyChallenge.isOpen(submitted.challengeId)) {
+        return res.status(400).json({ error: 'Daily challenge has expired' });
+      }
+      if (submitted.seed !== DailyChallenge.getSeed(submitted.challengeId)) {
+        return res.status(400).json({ error: 'Seed does not match daily challenge' });
+      }
+    } else if (submitted.challengeId !== undefined) {
+      return res.status(400).json({ error: 'Invalid daily challenge' });
     }
 
-    const gist = await gistResponse.json();
-    const currentContent = gist.files[GIST_FILENAME]?.content || '[]';
-    let scores: HighScore[] = JSON.parse(currentContent);
-
-    // Add new score
-    scores.push(newScore);
-
-    // Sort by score descending
-    scores.sort((a, b) => b.score - a.score);
-
-    // Keep only top MAX_SCORES
-    scores = scores.slice(0, MAX_SCORES);
-
-    // Update gist
-    const updateResponse = await fetch(`https://api.github.com/gists/${GIST_ID}`, {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `token ${GITHUB_TOKEN}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        files: {
-          [GIST_FILENAME]: {
-            content: JSON.stringify(scores, null, 2),
-          },
-        },
-      }),
+    // Anti-cheat: replay the run log against the seed's city and recompute the score
+    const verification = RunVerifier.verify(submitted, run);
+    if (!verification.valid) {
+      return res.status(422).json({ error: verification.message, code: verification.code });
+    }
+
+    // Stored entry: only the fields checked above (anything else in the body is dropped), with
+    // the server's own score and the server's clock (submission time orders equal scores)
+    const newScore: HighScore = {
+      score: verification.score,
+      time: submitted.time,
+      explored: submitted.explored,
+      fragments: submitted.fragments,
+      difficulty: submitted.difficulty,
+      date: new Date().toISOString(),
+      seed: submitted.seed,
+      challengeId: submitted.challengeId,
+      runId,
+      playerId: submitted.playerId,
+      playerName: playerName || undefined,
+    };
+
+    // Insert with a revision check - re-applied on top of the latest list if another submission wins
+    const scores = await updateScores(store, (current) => {
+      // Add new score (a resubmitted run keeps its original entry)
+      if (!current.some(s => s.runId === runId)) {
+        current.push(newScore);
+      }
+
+      // Sort by score descending
+      sortScores(current);
+
+      // Keep only top scores per bucket (each difficulty + each daily challenge)
+      return trimScores(current);
     });
 
-    if (!updateResponse.ok) {
-      throw new Error(`Failed to update gist: ${updateResponse.status}`);
-    }
+    // Rank within the submitted score's bucket
+    const bucketScores = scores.filter(s => HighScoreManager.getBucket(s) === HighScoreManager.getBucket(newScore));
 
     return res.status(200).json({
       success: true,
-      rank: scores.findIndex(s => s.score === newScore.score && s.date === newScore.date) + 1,
-      totalScores: scores.length,
+      runId,
+      rank: findRank(bucketScores, runId), // 0 = didn't make the top list
+      totalScores: bucketScores.length,
     });
 
   } catch (error) {
+    if (error instanceof StoreConflictError) {
+      console.error(error.message);
+      return res.status(503).json({ error: 'Leaderboard is busy, please retry', code: 'STORE_CONFLICT' });
+    }
     console.error('Error submitting score:', error);
     return res.status(500).json({
       error: 'Failed to submit score',
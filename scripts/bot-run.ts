@@ -0,0 +1,159 @@
+/**
+ * Plays a whole run in Node with the headless Simulation - no WebGL, no DOM - using a
+ * simple bot that sprints to the nearest fragment, climbs when its fragment is on a roof
+ * and sidesteps when it gets stuck. The finished run log then goes through RunVerifier
+ * exactly as the score API would check it. Guards live outside the simulation, so the
+ * bot never meets any.
+ *
+ *   npm run sim:bot                  # normal, seed 12345
+ *   npm run sim:bot -- hard 987654   # difficulty and seed
+ */
+import * as THREE from 'three';
+import { DIFFICULTIES, isRankedDifficulty } from '../src/game/Difficulties';
+import { FragmentSpawner } from '../src/game/FragmentSpawner';
+import { HighScore } from '../src/game/HighScoreManager';
+import { PlayerInput } from '../src/game/PlayerPhysics';
+import { RunVerifier } from '../src/game/RunVerifier';
+import { SeededRandom } from '../src/game/SeededRandom';
+import { Simulation } from '../src/game/Simulation';
+
+const [difficultyArg, seedArg] = process.argv.slice(2);
+const DIFFICULTY = difficultyArg ?? 'normal';
+const SEED = seedArg !== undefined ? Number(seedArg) : 12345;
+const STEP = 1 / 60;
+const MAX_TIME = 900; // seconds of game time before the bot gives up
+const STUCK_DISTANCE = 2; // Less than this in STUCK_TIME means the bot is stuck
+const STUCK_TIME = 1;
+const DETOUR_TIME = 1.5;
+
+/**
+ * Steers towards the nearest fragment; when stuck, jumps (climbing onto roofs) and then
+ * walks off at an angle for a moment
+ */
+class Bot {
+  private rng = new SeededRandom(SEED);
+  private checkpoint = new THREE.Vector3();
+  private checkpointTime = 0;
+  private detourUntil = 0;
+  private detourAngle = 0;
+  private jumpHeld = false;
+  private sprinting = true;
+
+  decide(sim: Simulation): PlayerInput {
+    const position = sim.player.getPosition();
+    const time = sim.getTime();
+    const target = this.getTarget(sim, position);
+
+    // Stuck: jump (and keep holding it to climb a wall), then try a different angle
+    let jumpPressed = false;
+    if (time - this.checkpointTime >= STUCK_TIME) {
+      const moved = Math.hypot(position.x - this.checkpoint.x, position.z - this.checkpoint.z);
+      if (moved < STUCK_DISTANCE && time >= this.detourUntil) {
+        jumpPressed = true;
+        this.jumpHeld = true;
+        this.detourUntil = time + DETOUR_TIME;
+        this.detourAngle = (this.rng.next() < 0.5 ? -1 : 1) * (Math.PI / 4 + this.rng.next() * Math.PI / 2);
+      }
+      this.checkpoint.copy(position);
+      this.checkpointTime = time;
+    }
+
+    // Climb onto the roof when the fragment is up there
+    const above = target ? target.y - position.y > Simulation.COLLECTION_HEIGHT / 2 : false;
+    const close = target ? Math.hypot(target.x - position.x, target.z - position.z) < 20 : false;
+    const climbing = above && close;
+    if (!climbing && time >= this.detourUntil) this.jumpHeld = false;
+
+    // Sprint until stamina runs low, then walk until it recovers
+    const stamina = sim.player.getStaminaPercent();
+    if (stamina < 20) this.sprinting = false;
+    if (stamina > 60) this.sprinting = true;
+
+    let yaw = target ? Math.atan2(-(target.x - position.x), -(target.z - position.z)) : 0;
+    if (time < this.detourUntil && !climbing) yaw += this.detourAngle;
+
+    return {
+      move: new THREE.Vector2(0, target ? 1 : 0),
+      yaw,
+      sprint: this.sprinting,
+      jump: this.jumpHeld,
+      jumpPressed,
+      slide: false,
+    };
+  }
+
+  private getTarget(sim: Simulation, position: THREE.Vector3): THREE.Vector3 | null {
+    let nearest: THREE.Vector3 | null = null;
+    let nearestDistance = Infinity;
+    sim.getFragments().forEach((fragment, index) => {
+      if (sim.isCollected(index)) return;
+      const distance = Math.hypot(fragment.position.x - position.x, fragment.position.z - position.z);
+      if (distance < nearestDistance) {
+        nearest = fragment.position;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+}
+
+const settings = DIFFICULTIES[DIFFICULTY];
+if (!settings) {
+  console.error(`Unknown difficulty "${DIFFICULTY}" (${Object.keys(DIFFICULTIES).join(', ')})`);
+  process.exit(1);
+}
+
+const sim = new Simulation(settings, SEED);
+const bot = new Bot();
+sim.onEvent((event) => {
+  if (event.type === 'collected') {
+    console.log(
+      `${sim.getTime().toFixed(1).padStart(6)}s  ${event.fragmentType} fragment ` +
+      `(${sim.getFragmentsCollected()}/${sim.getTotalFragments()})${event.speedBonus ? ' + speed bonus' : ''}`
+    );
+  }
+});
+
+console.log(`Bot run on ${DIFFICULTY}, seed ${SEED} (${sim.getTotalFragments()} fragments)`);
+
+// Shortest walks from the start (roofs count from the foot of their building)
+const walks = sim.getFragments().map((fragment) =>
+  sim.getNavigation().getDistance(fragment.position, FragmentSpawner.getWalkReach(sim.getCity(), fragment.position))
+);
+console.log(`Walking distance from the start: ${walks.map(walk => `${walk.toFixed(0)}m`).join(', ')}`);
+const start = performance.now();
+while (!sim.hasWon() && sim.getTime() < MAX_TIME) {
+  sim.step(STEP, bot.decide(sim));
+}
+const elapsed = performance.now() - start;
+const steps = Math.round(sim.getTime() / STEP);
+console.log(`Simulated ${steps} steps in ${elapsed.toFixed(0)}ms (${((elapsed * 1000) / steps).toFixed(1)}µs per step)`);
+
+if (!sim.hasWon()) {
+  console.error(`Gave up after ${MAX_TIME}s with ${sim.getFragmentsCollected()}/${sim.getTotalFragments()} fragments`);
+  process.exit(1);
+}
+
+const explored = sim.fog.getExploredPercent();
+console.log(`Won in ${sim.getTime().toFixed(1)}s, explored ${explored.toFixed(1)}%, score ${sim.getScore().score}`);
+if (!isRankedDifficulty(DIFFICULTY)) {
+  console.log(`${DIFFICULTY} is not ranked, so there is nothing to verify`);
+  process.exit(0);
+}
+
+// Submit it the way Game.onWin() does, to the same check the score API runs
+const score: HighScore = {
+  score: sim.getScore().score,
+  time: sim.getTime(),
+  explored,
+  fragments: sim.getFragmentsCollected(),
+  difficulty: DIFFICULTY,
+  date: new Date().toISOString(),
+  seed: SEED,
+};
+const result = RunVerifier.verify(score, sim.finishRunLog(DIFFICULTY));
+if (!result.valid) {
+  console.error(`Run rejected: ${result.code} - ${result.message}`);
+  process.exit(1);
+}
+console.log('Run verified');
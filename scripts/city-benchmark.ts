@@ -0,0 +1,126 @@
+/**
+ * Per-frame cost of the city's spatial queries with and without the spatial index: a player
+ * runs around the city at 60 fps while guards look at them - the collision, ground, climbing,
+ * park, water, echo and line-of-sight queries Player, Game, AudioManager and Guard make every
+ * frame - plus the isInsideBuilding calls of fragment spawning. The "linear" city is the same
+ * layout with its indexes removed, so it scans every building like the queries used to.
+ * Every answer is compared too, so this also fails if the index ever disagrees with a scan.
+ *
+ *   npm run bench:city              # 500m city, 0.8 density
+ *   npm run bench:city -- 400 0.7   # city size and building density
+ */
+import * as THREE from 'three';
+import { CityLayout } from '../src/game/CityLayout';
+import { WaterLayout } from '../src/game/WaterLayout';
+import { SeededRandom } from '../src/game/SeededRandom';
+
+const [sizeArg, densityArg] = process.argv.slice(2).map(Number);
+const CITY_SIZE = sizeArg > 0 ? sizeArg : 500;
+const DENSITY = densityArg > 0 ? densityArg : 0.8;
+const SEED = 12345;
+const FRAMES = 60 * 60; // One minute of play
+const GUARDS = 7; // Line-of-sight checks per frame (Hard)
+const SPAWN_CHECKS = 200 * 10; // Up to 200 attempts for each of 10 fragments
+const PLAYER_RADIUS = 1.5;
+const SPEED = 35; // Sprinting
+
+interface Frame {
+  player: THREE.Vector3;
+  feetHeight: number;
+  guards: THREE.Vector3[];
+}
+
+// Everything one frame asks, as comparable values
+function queryFrame(city: CityLayout, water: WaterLayout, { player, feetHeight, guards }: Frame): string {
+  const collision = city.checkCollision(player, PLAYER_RADIUS, feetHeight);
+  return [
+    collision ? `${collision.x.toFixed(4)},${collision.z.toFixed(4)}` : '-',
+    city.getGroundHeight(player, feetHeight),
+    city.getBuildingAt(player, PLAYER_RADIUS + 0.5, feetHeight)?.roofHeight ?? '-',
+    city.isInPark(player),
+    water.isInWater(player),
+    city.getBuildingProximity(player).toFixed(6),
+    ...guards.map(guard => city.hasLineOfSight(guard, player)),
+  ].join('|');
+}
+
+function createFrames(): Frame[] {
+  const rng = new SeededRandom(SEED);
+  const frames: Frame[] = [];
+
+  // Spiral outwards from the center, sometimes up on the roofs
+  let angle = 0;
+  let radius = 10;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    angle += (SPEED / 60) / radius;
+    radius = Math.min(CITY_SIZE / 2 - 20, radius + 2 / 60);
+    const feetHeight = rng.next() < 0.2 ? rng.next() * 40 : 0;
+    const player = new THREE.Vector3(Math.cos(angle) * radius, feetHeight + 5, Math.sin(angle) * radius);
+    const guards = Array.from({ length: GUARDS }, () => new THREE.Vector3(
+      player.x + (rng.next() - 0.5) * 60, 4.5, player.z + (rng.next() - 0.5) * 60
+    ));
+    frames.push({ player, feetHeight, guards });
+  }
+  return frames;
+}
+
+function createLayouts(indexed: boolean): { city: CityLayout; water: WaterLayout } {
+  const water = new WaterLayout(CITY_SIZE, SeededRandom.deriveSeed(SEED, 'water'));
+  const city = new CityLayout(CITY_SIZE, DENSITY, SeededRandom.deriveSeed(SEED, 'city'), water);
+  if (!indexed) {
+    // Without their indexes the layouts fall back to scanning everything
+    Object.assign(city, { buildingIndex: null, parkIndex: null });
+    Object.assign(water, { bodyIndex: null });
+  }
+  return { city, water };
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function benchmark(label: string, indexed: boolean, frames: Frame[], spawnPoints: THREE.Vector3[]): string[] {
+  const { city, water } = createLayouts(indexed);
+  const answers: string[] = [];
+  const frameTimes: number[] = [];
+
+  frames.forEach(frame => queryFrame(city, water, frame)); // Warm up
+  frames.forEach((frame) => {
+    const start = performance.now();
+    answers.push(queryFrame(city, water, frame));
+    frameTimes.push(performance.now() - start);
+  });
+
+  const spawnStart = performance.now();
+  spawnPoints.forEach(point => answers.push(String(city.isInsideBuilding(point, 30))));
+  const spawnTime = performance.now() - spawnStart;
+
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const mean = frameTimes.reduce((sum, t) => sum + t, 0) / frameTimes.length;
+  console.log(
+    `${label.padEnd(8)} per frame: mean ${(mean * 1000).toFixed(1)}µs  p99 ${(percentile(sorted, 0.99) * 1000).toFixed(1)}µs  ` +
+    `| spawning: ${spawnTime.toFixed(2)}ms for ${spawnPoints.length} isInsideBuilding calls`
+  );
+  return answers;
+}
+
+const frames = createFrames();
+const spawnRng = new SeededRandom(SEED + 1);
+const spawnPoints = Array.from({ length: SPAWN_CHECKS }, () => new THREE.Vector3(
+  (spawnRng.next() - 0.5) * CITY_SIZE, 0, (spawnRng.next() - 0.5) * CITY_SIZE
+));
+
+const { city } = createLayouts(true);
+console.log(
+  `City queries, ${FRAMES} frames at ${CITY_SIZE}m / ${DENSITY} density ` +
+  `(${city.buildings.length} buildings, ${city.parks.length} parks, ${GUARDS} guards)`
+);
+const linear = benchmark('linear', false, frames, spawnPoints);
+const indexed = benchmark('indexed', true, frames, spawnPoints);
+
+const mismatches = linear.filter((answer, i) => answer !== indexed[i]).length;
+if (mismatches > 0) {
+  console.error(`${mismatches} of ${linear.length} answers differ between the linear scan and the index`);
+  process.exit(1);
+}
+console.log(`All ${linear.length} answers match`);
@@ -0,0 +1,54 @@
+/**
+ * Per-frame cost of FogOfWar at different texture resolutions: a player sprints around
+ * the city at 60 fps while the fog is cleared, corruption spreads and the HUD reads the
+ * explored percentage - the same calls Game makes every frame.
+ *
+ *   npm run bench:fog                # 512, 1024 and 2048
+ *   npm run bench:fog -- 1024 4096   # specific resolutions
+ */
+import { DIFFICULTIES } from '../src/game/Difficulties';
+import { FogOfWar } from '../src/game/FogOfWar';
+
+const SETTINGS = DIFFICULTIES.normal;
+const DELTA = 1 / 60;
+const FRAMES = 60 * 60; // One minute of play
+const SPEED = 35; // Sprinting
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function benchmark(resolution: number): void {
+  const fog = new FogOfWar(resolution, SETTINGS.citySize);
+  const frameTimes: number[] = [];
+  let explored = 0;
+
+  // Spiral outwards from the center so new fog is cleared every frame
+  let angle = 0;
+  let radius = 10;
+
+  for (let frame = 0; frame < FRAMES; frame++) {
+    angle += (SPEED * DELTA) / radius;
+    radius = Math.min(SETTINGS.citySize / 2 - 20, radius + DELTA * 2);
+    const x = Math.cos(angle) * radius;
+    const z = Math.sin(angle) * radius;
+
+    const start = performance.now();
+    fog.clearAt(x, z, SETTINGS.fogClearRadius);
+    fog.updateCorruption(DELTA);
+    fog.getCorruptionAt(x, z);
+    explored = fog.getExploredPercent();
+    frameTimes.push(performance.now() - start);
+  }
+
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const mean = frameTimes.reduce((sum, t) => sum + t, 0) / frameTimes.length;
+  console.log(
+    `${String(resolution).padStart(5)}  mean ${mean.toFixed(3)}ms  p99 ${percentile(sorted, 0.99).toFixed(3)}ms  ` +
+    `max ${sorted[sorted.length - 1].toFixed(3)}ms  (explored ${explored.toFixed(1)}%)`
+  );
+}
+
+const resolutions = process.argv.slice(2).map(Number).filter(n => Number.isInteger(n) && n > 0);
+console.log(`FogOfWar per-frame cost, ${FRAMES} frames at ${SETTINGS.citySize}m city`);
+(resolutions.length > 0 ? resolutions : [512, 1024, 2048]).forEach(benchmark);
@@ -0,0 +1,157 @@
+/**
+ * Concurrency harness for api/submit-score: fires N verified submissions in parallel
+ * at a local store and checks that every score landed (or was trimmed to MAX_SCORES).
+ *
+ *   npm run stress:leaderboard            # memory + file stores, 40 and 120 submissions
+ *   npm run stress:leaderboard -- file 60 # one store, one batch size
+ */
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as THREE from 'three';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import handler from '../api/submit-score';
+import { createLeaderboardStore, HighScore } from '../api/_store/LeaderboardStore';
+import { MAX_SCORES } from '../api/_store/ranking';
+import { DIFFICULTIES } from '../src/game/Difficulties';
+import { FogOfWar } from '../src/game/FogOfWar';
+import { RunLog, RunRecorder } from '../src/game/RunRecorder';
+import { ScoreCalculator, FragmentCollection } from '../src/game/ScoreCalculator';
+import { Simulation } from '../src/game/Simulation';
+
+const DIFFICULTY = 'easy';
+const SEED = 424242;
+
+interface Submission extends HighScore {
+  run: RunLog;
+}
+
+/**
+ * Walk straight to each fragment at sprint speed - a run the verifier accepts
+ */
+function simulateRun(): { run: RunLog; collections: FragmentCollection[]; explored: number } {
+  const settings = DIFFICULTIES[DIFFICULTY];
+  const { fragments } = Simulation.createWorld(settings, SEED);
+
+  const recorder = new RunRecorder();
+  const fog = new FogOfWar(512, settings.citySize);
+  const position = new THREE.Vector3(0, 5, 0);
+  const direction = new THREE.Vector3();
+  const collections: FragmentCollection[] = [];
+  const delta = 1 / 60;
+  let time = 0;
+
+  fragments.forEach((fragment, index) => {
+    while (Math.hypot(fragment.position.x - position.x, fragment.position.z - position.z) >= 5) {
+      direction.set(fragment.position.x - position.x, 0, fragment.position.z - position.z).normalize();
+      time += delta;
+      position.addScaledVector(direction, 30 * delta);
+      recorder.update(time, position);
+      fog.clearAt(position.x, position.z, settings.fogClearRadius);
+    }
+    collections.push({ time, type: fragment.type });
+    recorder.recordCollection(time, index, position);
+  });
+
+  // Keep the run above the API's minimum time
+  while (time < 12) {
+    time += delta;
+    recorder.update(time, position);
+  }
+
+  return { run: recorder.finish(SEED, DIFFICULTY, time), collections, explored: fog.getExploredPercent() };
+}
+
+/**
+ * N distinct submissions of the same run - lower exploration per entry gives each its own score
+ */
+function buildSubmissions(count: number): Submission[] {
+  const { run, collections, explored } = simulateRun();
+  return Array.from({ length: count }, (_, i) => {
+    const entryExplored = Math.max(0, explored - i * 0.05);
+    return {
+      score: ScoreCalculator.calculate(collections, entryExplored, run.time, run.paused).score,
+      time: run.time,
+      explored: entryExplored,
+      fragments: collections.length,
+      difficulty: DIFFICULTY,
+      date: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString(),
+      seed: SEED,
+      runId: `stress-${count}-${i}`,
+      playerId: `stress-player-${i}`,
+      run,
+    };
+  });
+}
+
+async function submit(body: Submission): Promise<number> {
+  let status = 0;
+  const res = {
+    setHeader: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+    end: () => res,
+  } as unknown as VercelResponse;
+
+  await handler({ method: 'POST', body } as VercelRequest, res);
+  return status;
+}
+
+async function runBatch(storeKind: string, count: number): Promise<boolean> {
+  const filePath = path.join(os.tmpdir(), `unmask-stress-${process.pid}-${count}.json`);
+  process.env.LEADERBOARD_STORE = storeKind;
+  process.env.LEADERBOARD_FILE = filePath;
+  await fs.rm(filePath, { force: true });
+
+  const submissions = buildSubmissions(count);
+  // The memory store is shared per process - start every batch from an empty list
+  const store = createLeaderboardStore();
+  await store.write([], (await store.read()).revision);
+
+  const started = Date.now();
+  const statuses = await Promise.all(submissions.map(submit));
+  const elapsed = Date.now() - started;
+
+  const stored = (await store.read()).scores;
+  const expected = submissions
+    .slice()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SCORES)
+    .map(s => s.runId)
+    .sort();
+  const actual = stored.map(s => s.runId).sort();
+
+  const failedRequests = statuses.filter(status => status !== 200).length;
+  const ok = failedRequests === 0 && JSON.stringify(actual) === JSON.stringify(expected);
+
+  console.log(
+    `${ok ? 'PASS' : 'FAIL'} ${storeKind} x${count}: ${stored.length} stored ` +
+    `(expected ${expected.length}), ${failedRequests} failed requests, ${elapsed}ms`
+  );
+
+  await fs.rm(filePath, { force: true });
+  return ok;
+}
+
+async function main(): Promise<void> {
+  const [storeArg, countArg] = process.argv.slice(2);
+  const stores = storeArg ? [storeArg] : ['memory', 'file'];
+  // One batch that fits, one that has to be trimmed
+  const counts = countArg ? [Number(countArg)] : [40, MAX_SCORES + 20];
+
+  let allPassed = true;
+  for (const storeKind of stores) {
+    for (const count of counts) {
+      allPassed = (await runBatch(storeKind, count)) && allPassed;
+    }
+  }
+  process.exit(allPassed ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+/**
+ * Checks the player name filter shared by the game and the score API: names that must be
+ * rejected, and real words and places that merely contain a blocked word.
+ *
+ *   npm run check:names
+ */
+import { PlayerProfile } from '../src/game/PlayerProfile';
+
+const BLOCKED = [
+  'fuck', 'FUUUCK', 'sh1t', 'f u c k', 'B1tches', 'fuck_you', 'n1gg3r', 'Hitler', 'pu55y',
+  'motherfucker', 'Shithead', 'xXn1ggaXx',
+];
+const ALLOWED = [
+  'Niger', 'Nigeria', 'Scunthorpe', 'pussycat', 'Cockburn', 'Shitake Fan', 'Dick Grayson',
+  'bass hole', 'Sussex', 'Assassin', 'classic', 'Hitchcock', 'Nazir', 'Arsenal', 'Anonymous',
+];
+
+let failures = 0;
+const check = (name: string, expectBlocked: boolean) => {
+  const blocked = PlayerProfile.validateName(PlayerProfile.sanitizeName(name)) === 'Please choose a different name';
+  const ok = blocked === expectBlocked;
+  if (!ok) failures++;
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${JSON.stringify(name)} ${blocked ? 'blocked' : 'allowed'}`);
+};
+
+BLOCKED.forEach(name => check(name, true));
+ALLOWED.forEach(name => check(name, false));
+
+console.log(failures === 0 ? 'All names checked out' : `${failures} name(s) filtered wrongly`);
+process.exit(failures === 0 ? 0 : 1);
@@ -1,15 +1,45 @@
+import * as THREE from 'three';
+import { MusicEngine } from './MusicEngine';
+import { FragmentSound, SoundEmitters, WorldEmitter } from './SoundEmitters';
+
+// Volumes (0-1 gains) and options from the pause menu, kept in localStorage
+export interface AudioSettings {
+  master: number;
+  ambience: number;
+  sfx: number;
+  music: number;
+  reduceSuddenSounds: boolean; // Compress thunder, splashes and the win fanfare
+}
+
 /**
  * Audio Manager using Web Audio API for procedural sounds
  * - Ambient wind/city atmosphere
  * - Footsteps
  * - Collection sound
  * - Background drone
+ * - Adaptive music (see MusicEngine)
+ * - Positional sounds heard from the camera (see SoundEmitters)
  */
 export class AudioManager {
+  private static readonly SETTINGS_KEY = 'unmask-the-city-audio-settings';
+  private static readonly DEFAULT_SETTINGS: AudioSettings = {
+    master: 0.5,
+    ambience: 0.3,
+    sfx: 0.6,
+    music: 0.4,
+    reduceSuddenSounds: false,
+  };
+  private static settings: AudioSettings | null = null;
+
   private audioContext: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private ambientGain: GainNode | null = null;
   private sfxGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+
+  // Sudden sounds go through here, and through the compressor when they should be tamed
+  private suddenGain: GainNode | null = null;
+  private suddenCompressor: DynamicsCompressorNode | null = null;
 
   // Ambient oscillators
   private ambientOscillators: OscillatorNode[] = [];
@@ -19,9 +49,10 @@ export class AudioManager {
   private lastFootstepTime = 0;
   private footstepInterval = 0.4; // seconds between footsteps
 
-  // Fragment proximity ping
+  // Fragment proximity ping (comes from the nearest fragment)
   private lastPingTime = 0;
   private currentProximity = 0; // 0 = far, 1 = very close
+  private pingPanner: PannerNode | null = null;
 
   // Night sounds
   private nightAmount = 0; // 0 = day, 1 = night
@@ -33,6 +64,7 @@ export class AudioManager {
   private waterAmbienceGain: GainNode | null = null;
   private waterAmbienceSource: AudioBufferSourceNode | null = null;
   private waterProximity = 0; // 0 = far, 1 = very close
+  private waterPanner: PannerNode | null = null; // Placed at the nearest water
 
   // Echo/reverb for urban canyons
   private reverbGain: GainNode | null = null;
@@ -44,6 +76,19 @@ export class AudioManager {
   private windGain: GainNode | null = null;
   private windFilterFreq: AudioParam | null = null;
 
+  // Adaptive music and the game state it follows
+  private music: MusicEngine | null = null;
+  private corruption = 0; // Under the player, 0-1
+  private progress = 0; // Share of fragments collected
+  private victory = false;
+
+  // Positional emitters around the listener (the camera)
+  private emitters: SoundEmitters | null = null;
+  private worldEmitters: WorldEmitter[] = [];
+  private listenerPosition = new THREE.Vector3();
+  private listenerForward = new THREE.Vector3();
+  private listenerUp = new THREE.Vector3();
+
   private isInitialized = false;
   private isMuted = false;
 
@@ -58,19 +103,39 @@ export class AudioManager {
 
       // Master gain
       this.masterGain = this.audioContext.createGain();
-      this.masterGain.gain.value = 0.5;
       this.masterGain.connect(this.audioContext.destination);
 
       // Ambient gain
       this.ambientGain = this.audioContext.createGain();
-      this.ambientGain.gain.value = 0.3;
       this.ambientGain.connect(this.masterGain);
 
       // SFX gain
       this.sfxGain = this.audioContext.createGain();
-      this.sfxGain.gain.value = 0.6;
       this.sfxGain.connect(this.masterGain);
 
+      // Sudden sounds (thunder, splashes, win fanfare): part of SFX, optionally compressed
+      this.suddenGain = this.audioContext.createGain();
+      this.suddenCompressor = this.audioContext.createDynamicsCompressor();
+      this.suddenCompressor.threshold.value = -36;
+      this.suddenCompressor.knee.value = 6;
+      this.suddenCompressor.ratio.value = 12;
+      this.suddenCompressor.attack.value = 0.002;
+      this.suddenCompressor.release.value = 0.3;
+      this.suddenCompressor.connect(this.sfxGain);
+
+      // Music gain and the music on it
+      this.musicGain = this.audioContext.createGain();
+      this.musicGain.connect(this.masterGain);
+      this.music = new MusicEngine(this.audioContext, this.musicGain);
+
+      this.applySettings();
+
+      // Positional emitters, and a panner so the proximity ping comes from its fragment
+      this.emitters = new SoundEmitters(this.audioContext, this.ambientGain, this.sfxGain);
+      this.emitters.setWorldEmitters(this.worldEmitters);
+      this.pingPanner = SoundEmitters.createPanner(this.audioContext, null);
+      this.pingPanner.connect(this.sfxGain);
+
       // Echo/reverb for urban canyons
       this.setupEchoEffect();
 
@@ -84,7 +149,7 @@ export class AudioManager {
   }
 
   private setupEchoEffect(): void {
-    if (!this.audioContext || !this.sfxGain || !this.masterGain) return;
+    if (!this.audioContext || !this.sfxGain) return;
 
     // Create delay node for echo effect
     this.delayNode = this.audioContext.createDelay(1.0);
@@ -104,7 +169,7 @@ export class AudioManager {
 
     // Connect delay output to reverb gain
     this.delayNode.connect(this.reverbGain);
-    this.reverbGain.connect(this.masterGain);
+    this.reverbGain.connect(this.sfxGain); // Echo of footsteps, so it follows the SFX volume
   }
 
   /**
@@ -117,7 +182,7 @@ export class AudioManager {
     if (this.feedbackGain && this.reverbGain && this.delayNode) {
       // Increase echo feedback and wet mix when near buildings
       this.feedbackGain.gain.value = this.buildingProximity * 0.4;
-      this.reverbGain.gain.value = this.buildingProximity * 0.3;
+      this.reverbGain.gain.value = this.buildingProximity * 0.5;
 
       // Vary delay time based on proximity (tighter spaces = shorter delay)
       this.delayNode.delayTime.value = 0.1 + (1 - this.buildingProximity) * 0.1;
@@ -237,12 +302,14 @@ export class AudioManager {
   }
 
   private createWaterAmbience(): void {
-    if (!this.audioContext || !this.masterGain) return;
+    if (!this.audioContext || !this.ambientGain) return;
 
-    // Water ambience gain (starts at 0, controlled by proximity)
+    // Water ambience gain (starts at 0, controlled by proximity), heard from the nearest water
     this.waterAmbienceGain = this.audioContext.createGain();
     this.waterAmbienceGain.gain.value = 0;
-    this.waterAmbienceGain.connect(this.masterGain);
+    this.waterPanner = SoundEmitters.createPanner(this.audioContext, null);
+    this.waterAmbienceGain.connect(this.waterPanner);
+    this.waterPanner.connect(this.ambientGain);
 
     // Create water sound using filtered noise with modulation
     const bufferSize = this.audioContext.sampleRate * 4; // 4 seconds, looped
@@ -294,8 +361,13 @@ export class AudioManager {
    * Set water proximity for ambience volume
    * @param distance Distance to nearest water body
    * @param maxDistance Maximum distance at which water is audible (default 50)
+   * @param nearestPoint Where the water is heard from (the closest water)
    */
-  setWaterProximity(distance: number, maxDistance: number = 50): void {
+  setWaterProximity(distance: number, maxDistance: number = 50, nearestPoint: THREE.Vector3 | null = null): void {
+    if (this.waterPanner && nearestPoint) {
+      SoundEmitters.placePanner(this.waterPanner, nearestPoint);
+    }
+
     if (distance > maxDistance) {
       this.waterProximity = 0;
     } else {
@@ -307,9 +379,9 @@ export class AudioManager {
 
     // Update water ambience gain
     if (this.waterAmbienceGain) {
-      // Volume ranges from 0 to 0.15 based on proximity
+      // Volume ranges from 0 to 0.5 based on proximity (on the ambience bus)
       this.waterAmbienceGain.gain.setTargetAtTime(
-        this.waterProximity * 0.15,
+        this.waterProximity * 0.5,
         this.audioContext?.currentTime || 0,
         0.3 // Smooth transition
       );
@@ -404,7 +476,7 @@ export class AudioManager {
 
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.sfxGain);
+    gain.connect(surfaceType === 'water' ? this.getSuddenSoundOutput()! : this.sfxGain);
 
     // Connect to echo for concrete surfaces (urban canyon effect)
     if (surfaceType === 'concrete' && this.buildingProximity > 0.3) {
@@ -449,7 +521,7 @@ export class AudioManager {
 
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.sfxGain);
+    gain.connect(this.getSuddenSoundOutput()!);
 
     source.start(startTime + 0.02);
   }
@@ -628,7 +700,7 @@ export class AudioManager {
 
     thunder.connect(filter);
     filter.connect(gain);
-    gain.connect(this.sfxGain);
+    gain.connect(this.getSuddenSoundOutput()!);
 
     // Delay thunder slightly after lightning flash
     thunder.start(now + 0.1 + Math.random() * 0.3);
@@ -669,6 +741,36 @@ export class AudioManager {
     });
   }
 
+  /**
+   * Play alarm when a guard spots the player (two falling tones)
+   */
+  playGuardAlert(): void {
+    if (!this.audioContext || !this.sfxGain || this.isMuted) return;
+
+    const now = this.audioContext.currentTime;
+
+    [880, 660].forEach((freq, i) => {
+      const osc = this.audioContext!.createOscillator();
+      const gain = this.audioContext!.createGain();
+
+      osc.type = 'square';
+      osc.frequency.value = freq;
+
+      const startTime = now + i * 0.15;
+      const duration = 0.14;
+
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(0.08, startTime + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+
+      osc.connect(gain);
+      gain.connect(this.sfxGain!);
+
+      osc.start(startTime);
+      osc.stop(startTime + duration);
+    });
+  }
+
   /**
    * Play proximity ping sound (beep that increases in frequency as player gets closer)
    */
@@ -694,7 +796,7 @@ export class AudioManager {
     gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
 
     osc.connect(gain);
-    gain.connect(this.sfxGain);
+    gain.connect(this.pingPanner ?? this.sfxGain);
 
     osc.start(now);
     osc.stop(now + duration);
@@ -813,6 +915,81 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Move the listener to the camera, place the ping on the nearest uncollected fragment
+   * and start/stop positional emitters around it. Call every frame.
+   */
+  updateListener(camera: THREE.Camera, fragments: FragmentSound[]): void {
+    if (!this.audioContext) return;
+
+    camera.getWorldPosition(this.listenerPosition);
+    camera.getWorldDirection(this.listenerForward);
+    this.listenerUp.set(0, 1, 0).applyQuaternion(camera.quaternion);
+    const listener = this.audioContext.listener;
+    const { x, y, z } = this.listenerPosition;
+    if (listener.positionX) {
+      listener.positionX.value = x;
+      listener.positionY.value = y;
+      listener.positionZ.value = z;
+      listener.forwardX.value = this.listenerForward.x;
+      listener.forwardY.value = this.listenerForward.y;
+      listener.forwardZ.value = this.listenerForward.z;
+      listener.upX.value = this.listenerUp.x;
+      listener.upY.value = this.listenerUp.y;
+      listener.upZ.value = this.listenerUp.z;
+    } else {
+      // Older browsers only have the deprecated setters
+      listener.setPosition(x, y, z);
+      listener.setOrientation(
+        this.listenerForward.x, this.listenerForward.y, this.listenerForward.z,
+        this.listenerUp.x, this.listenerUp.y, this.listenerUp.z
+      );
+    }
+
+    let nearest: THREE.Vector3 | null = null;
+    fragments.forEach((fragment) => {
+      if (fragment.isCollected) return;
+      const position = fragment.getPosition();
+      if (!nearest || position.distanceTo(this.listenerPosition) < nearest.distanceTo(this.listenerPosition)) {
+        nearest = position;
+      }
+    });
+    if (this.pingPanner && nearest) {
+      SoundEmitters.placePanner(this.pingPanner, nearest);
+    }
+
+    this.emitters?.update(this.listenerPosition, fragments);
+  }
+
+  /**
+   * Fixed positional sounds of the current city (kept until the city changes)
+   */
+  setWorldEmitters(emitters: WorldEmitter[]): void {
+    this.worldEmitters = emitters;
+    this.emitters?.setWorldEmitters(emitters);
+  }
+
+  /**
+   * Corruption under the player (0-1), which brings in the music's dissonant drone
+   */
+  setCorruption(amount: number): void {
+    this.corruption = Math.max(0, Math.min(1, amount));
+  }
+
+  /**
+   * Fragments collected so far - the music's bass builds up as fewer remain
+   */
+  setFragmentsCollected(collected: number, total: number): void {
+    this.progress = total > 0 ? Math.max(0, Math.min(1, collected / total)) : 0;
+  }
+
+  /**
+   * Switch the music to its victory arrangement (and back for a new run)
+   */
+  setVictory(victory: boolean): void {
+    this.victory = victory;
+  }
+
   /**
    * Update footsteps based on player movement
    */
@@ -870,16 +1047,22 @@ export class AudioManager {
       this.cricketTimer = 0;
       this.owlTimer = 0;
     }
+
+    this.music?.update({
+      nightAmount: this.nightAmount,
+      corruption: this.corruption,
+      proximity: this.currentProximity,
+      progress: this.progress,
+      victory: this.victory,
+    });
   }
 
   /**
-   * Toggle mute state
+   * Toggle mute state (unmuting goes back to the chosen master volume)
    */
   toggleMute(): boolean {
     this.isMuted = !this.isMuted;
-    if (this.masterGain) {
-      this.masterGain.gain.value = this.isMuted ? 0 : 0.5;
-    }
+    this.applySettings();
     return this.isMuted;
   }
 
@@ -887,15 +1070,92 @@ export class AudioManager {
    * Set master volume (0-1)
    */
   setVolume(volume: number): void {
+    AudioManager.setSettings({ master: Math.max(0, Math.min(1, volume)) });
+    this.applySettings();
+  }
+
+  /**
+   * Set music volume (0-1), on top of the master volume
+   */
+  setMusicVolume(volume: number): void {
+    AudioManager.setSettings({ music: Math.max(0, Math.min(1, volume)) });
+    this.applySettings();
+  }
+
+  /**
+   * Bring the buses in line with the saved settings (call after changing them)
+   */
+  applySettings(): void {
+    const settings = AudioManager.getSettings();
     if (this.masterGain) {
-      this.masterGain.gain.value = Math.max(0, Math.min(1, volume)) * (this.isMuted ? 0 : 1);
+      this.masterGain.gain.value = this.isMuted ? 0 : settings.master;
+    }
+    if (this.ambientGain) {
+      this.ambientGain.gain.value = settings.ambience;
+    }
+    if (this.sfxGain) {
+      this.sfxGain.gain.value = settings.sfx;
+    }
+    if (this.musicGain) {
+      this.musicGain.gain.value = settings.music;
+    }
+    if (this.suddenGain && this.suddenCompressor && this.sfxGain) {
+      this.suddenGain.disconnect();
+      this.suddenGain.connect(settings.reduceSuddenSounds ? this.suddenCompressor : this.sfxGain);
     }
   }
 
+  /**
+   * Where thunder-like sounds should go (so "reduce sudden sounds" applies to them)
+   */
+  getSuddenSoundOutput(): AudioNode | null {
+    return this.suddenGain;
+  }
+
+  static getSettings(): AudioSettings {
+    if (!this.settings) {
+      this.settings = this.loadSettings();
+    }
+    return this.settings;
+  }
+
+  static setSettings(changes: Partial<AudioSettings>): void {
+    this.settings = { ...this.getSettings(), ...changes };
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save audio settings:', error);
+    }
+  }
+
+  private static loadSettings(): AudioSettings {
+    const settings = { ...this.DEFAULT_SETTINGS };
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      const parsed = stored ? JSON.parse(stored) as Partial<Record<keyof AudioSettings, unknown>> : {};
+      // Ignore anything malformed (e.g. hand-edited storage) and keep the default for that field
+      (['master', 'ambience', 'sfx', 'music'] as const).forEach((bus) => {
+        const volume = parsed?.[bus];
+        if (typeof volume === 'number' && isFinite(volume)) {
+          settings[bus] = Math.max(0, Math.min(1, volume));
+        }
+      });
+      if (typeof parsed?.reduceSuddenSounds === 'boolean') {
+        settings.reduceSuddenSounds = parsed.reduceSuddenSounds;
+      }
+    } catch (error) {
+      console.error('Failed to load audio settings:', error);
+    }
+    return settings;
+  }
+
   /**
    * Cleanup
    */
   dispose(): void {
+    this.music?.dispose();
+    this.emitters?.dispose();
+
     this.ambientOscillators.forEach((osc) => {
       try {
         osc.stop();
@@ -1,7 +1,7 @@
 import * as THREE from 'three';
 
 /**
- * Breadcrumb trail showing the player's path through the city
+ * Breadcrumb trail showing the player's (or a ghost's) path through the city
  * Rendered as a glowing tube with subtle particle effects
  */
 export class BreadcrumbTrail {
@@ -19,19 +19,19 @@ export class BreadcrumbTrail {
   private fadeTimer = 0;
   private particleTimer = 0;
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, color = 0x4ade80) {
     this.scene = scene;
 
     // Main trail material (solid core)
     this.material = new THREE.MeshBasicMaterial({
-      color: 0x4ade80,
+      color,
       transparent: true,
       opacity: 0.4,
     });
 
     // Glow trail material (outer glow)
     this.glowMaterial = new THREE.MeshBasicMaterial({
-      color: 0x4ade80,
+      color,
       transparent: true,
       opacity: 0.15,
       side: THREE.DoubleSide,
@@ -39,7 +39,7 @@ export class BreadcrumbTrail {
 
     // Particle material for trail sparkles
     this.particleMaterial = new THREE.PointsMaterial({
-      color: 0x4ade80,
+      color,
       size: 0.2,
       transparent: true,
       opacity: 0.3,
@@ -80,6 +80,13 @@ export class BreadcrumbTrail {
     }
   }
 
+  /**
+   * Points along the trail, oldest first
+   */
+  getPoints(): THREE.Vector3[] {
+    return this.points;
+  }
+
   private addPoint(position: THREE.Vector3): void {
     this.points.push(position.clone());
 
@@ -1,73 +1,13 @@
 import * as THREE from 'three';
 import { FogOfWar } from './FogOfWar';
-
-type BuildingType = 'box' | 'cylinder' | 'pyramid' | 'lshaped';
-
-interface Building {
-  position: THREE.Vector3;
-  width: number;
-  height: number;
-  depth: number;
-  type: BuildingType;
-  hasAntenna: boolean;
-  hasWaterTower: boolean;
-  hasHelipad: boolean;
-  hasGarden: boolean;
-  hasSolarPanels: boolean;
-  // For L-shaped buildings: wing dimensions
-  wingWidth?: number;
-  wingDepth?: number;
-  wingDirection?: number; // 0-3 for which corner the wing extends
-}
-
-type Season = 'spring' | 'summer' | 'autumn' | 'winter';
-
-interface Park {
-  position: THREE.Vector3;
-  radius: number;
-  season: Season; // Each park has a seasonal color theme
-}
-
-interface Tree {
-  position: THREE.Vector3;
-  height: number;
-  crownRadius: number;
-  season: Season; // Inherited from park
-  sizeTier: number; // 0-3 for size variation
-}
-
-interface StreetLight {
-  position: THREE.Vector3;
-}
-
-interface NeonSign {
-  position: THREE.Vector3;
-  width: number;
-  height: number;
-  color: number;
-  rotation: number;
-}
-
-interface Bench {
-  position: THREE.Vector3;
-  rotation: number;
-}
-
-interface TrashBin {
-  position: THREE.Vector3;
-}
+import { SeededRandom } from './SeededRandom';
+import { BuildingInfo, CityLayout, StreetGrid } from './CityLayout';
 
 export class City {
   private scene: THREE.Scene;
   private size: number;
   private fogOfWar: FogOfWar;
-  private buildings: Building[] = [];
-  private parks: Park[] = [];
-  private trees: Tree[] = [];
-  private streetLights: StreetLight[] = [];
-  private neonSigns: NeonSign[] = [];
-  private benches: Bench[] = [];
-  private trashBins: TrashBin[] = [];
+  private layout!: CityLayout;
   private boxMeshes: THREE.InstancedMesh | null = null;
   private cylinderMeshes: THREE.InstancedMesh | null = null;
   private pyramidMeshes: THREE.InstancedMesh | null = null;
@@ -96,15 +36,16 @@ export class City {
   private treeCrownMaterial: THREE.MeshStandardMaterial;
   private streetLightPoleMaterial: THREE.MeshStandardMaterial;
   private streetLightBulbMaterial: THREE.MeshBasicMaterial;
-  private buildingDensity: number;
-  private water: any; // Water instance for checking water areas
+  private rng!: SeededRandom;
 
-  constructor(scene: THREE.Scene, size: number, fogOfWar: FogOfWar, buildingDensity = 0.7, water?: any) {
+  /**
+   * Draws a layout generated from a city seed (see Simulation.createWorld); the seed also
+   * drives the meshes' colors and props
+   */
+  constructor(scene: THREE.Scene, size: number, fogOfWar: FogOfWar, layout: CityLayout, seed: number) {
     this.scene = scene;
     this.size = size;
     this.fogOfWar = fogOfWar;
-    this.buildingDensity = buildingDensity;
-    this.water = water;
 
     // Create building material with fog of war support
     this.buildingMaterial = new THREE.MeshStandardMaterial({
@@ -143,8 +84,8 @@ export class City {
     // Hook into shader to add fog of war
     this.setupFogShader();
 
-    // Generate initial city
-    this.generate();
+    // Build the initial city
+    this.generate(layout, seed);
   }
 
   private setupFogShader(): void {
@@ -364,250 +305,17 @@ export class City {
     });
   }
 
-  generate(): void {
-    this.buildings = [];
-    this.parks = [];
-    this.trees = [];
-    this.streetLights = [];
-    this.neonSigns = [];
-    this.benches = [];
-    this.trashBins = [];
-    const halfSize = this.size / 2;
-    const gridSize = 25; // Space between potential building spots (increased to prevent overlap)
-    const buildingChance = this.buildingDensity;
-
-    // Clear spawn area
-    const spawnClearRadius = 40;
-
-    // Generate parks first (4-6 parks scattered around the city)
-    const numParks = 4 + Math.floor(Math.random() * 3);
-    for (let i = 0; i < numParks; i++) {
-      // Place parks in different quadrants
-      const angle = (i / numParks) * Math.PI * 2 + Math.random() * 0.5;
-      const distance = 80 + Math.random() * (halfSize - 120);
-      const parkX = Math.cos(angle) * distance;
-      const parkZ = Math.sin(angle) * distance;
-      const parkRadius = 30 + Math.random() * 20;
-
-      // Assign a random season to each park for visual variety
-      const seasons: Season[] = ['spring', 'summer', 'autumn', 'winter'];
-      const parkSeason = seasons[i % seasons.length]; // Cycle through seasons
-
-      this.parks.push({
-        position: new THREE.Vector3(parkX, 0, parkZ),
-        radius: parkRadius,
-        season: parkSeason,
-      });
-
-      // Generate trees in park with varied sizes (4 size tiers)
-      const treesInPark = 8 + Math.floor(Math.random() * 12);
-      for (let t = 0; t < treesInPark; t++) {
-        const treeAngle = Math.random() * Math.PI * 2;
-        const treeDist = Math.random() * (parkRadius - 5);
-        const treeX = parkX + Math.cos(treeAngle) * treeDist;
-        const treeZ = parkZ + Math.sin(treeAngle) * treeDist;
-
-        // Size tiers: 0=small, 1=medium, 2=large, 3=extra large
-        const sizeTier = Math.floor(Math.random() * 4);
-        const sizeMultipliers = [0.6, 0.85, 1.1, 1.4];
-        const sizeMultiplier = sizeMultipliers[sizeTier];
-
-        this.trees.push({
-          position: new THREE.Vector3(treeX, 0, treeZ),
-          height: (6 + Math.random() * 6) * sizeMultiplier,
-          crownRadius: (3 + Math.random() * 2) * sizeMultiplier,
-          season: parkSeason,
-          sizeTier,
-        });
-      }
-
-      // Generate benches in park (2-4 per park, along the edge)
-      const benchesInPark = 2 + Math.floor(Math.random() * 3);
-      for (let b = 0; b < benchesInPark; b++) {
-        const benchAngle = (b / benchesInPark) * Math.PI * 2 + Math.random() * 0.5;
-        const benchDist = parkRadius * (0.5 + Math.random() * 0.3); // Inner half of park
-        const benchX = parkX + Math.cos(benchAngle) * benchDist;
-        const benchZ = parkZ + Math.sin(benchAngle) * benchDist;
-
-        this.benches.push({
-          position: new THREE.Vector3(benchX, 0, benchZ),
-          rotation: benchAngle + Math.PI / 2, // Face towards center
-        });
-      }
-
-      // Generate trash bins near benches (1-2 per park)
-      const binsInPark = 1 + Math.floor(Math.random() * 2);
-      for (let b = 0; b < binsInPark; b++) {
-        const binAngle = Math.random() * Math.PI * 2;
-        const binDist = parkRadius * (0.3 + Math.random() * 0.4);
-        const binX = parkX + Math.cos(binAngle) * binDist;
-        const binZ = parkZ + Math.sin(binAngle) * binDist;
-
-        this.trashBins.push({
-          position: new THREE.Vector3(binX, 0, binZ),
-        });
-      }
-    }
-
-    for (let x = -halfSize + 10; x < halfSize - 10; x += gridSize) {
-      for (let z = -halfSize + 10; z < halfSize - 10; z += gridSize) {
-        // Skip spawn area
-        if (Math.abs(x) < spawnClearRadius && Math.abs(z) < spawnClearRadius) {
-          continue;
-        }
-
-        // Skip park areas
-        if (this.isInPark(new THREE.Vector3(x, 0, z))) {
-          continue;
-        }
-
-        // Skip water areas
-        if (this.water && this.water.isInWater(new THREE.Vector3(x, 0, z))) {
-          continue;
-        }
-
-        // Random chance to place building
-        if (Math.random() > buildingChance) continue;
-
-        // Random offset within grid cell
-        const offsetX = (Math.random() - 0.5) * (gridSize * 0.5);
-        const offsetZ = (Math.random() - 0.5) * (gridSize * 0.5);
-
-        // Height varies by distance from center (taller towards center)
-        const distFromCenter = Math.sqrt(x * x + z * z);
-        const normalizedDist = distFromCenter / halfSize;
-        const heightMultiplier = 1 + (1 - normalizedDist) * 2;
-        const height = (15 + Math.random() * 40) * heightMultiplier;
-
-        // Determine building type based on location
-        let type: BuildingType = 'box';
-        if (normalizedDist < 0.3 && height > 60 && Math.random() < 0.4) {
-          // City center: tall cylinders (skyscrapers)
-          type = 'cylinder';
-        } else if (normalizedDist > 0.6 && Math.random() < 0.15) {
-          // Outer areas: pyramids disabled due to collision issues
-          // type = 'pyramid';
-          type = 'box'; // Use box instead
-        } else if (normalizedDist > 0.3 && normalizedDist < 0.7 && Math.random() < 0.12) {
-          // Mid-range: L-shaped buildings
-          type = 'lshaped';
-        }
-
-        // Building dimensions based on type
-        let width: number, depth: number;
-        if (type === 'cylinder') {
-          // Cylinders use radius, make them narrower
-          width = 6 + Math.random() * 8;
-          depth = width; // Square footprint for cylinder
-        } else {
-          width = 8 + Math.random() * 12;
-          depth = 8 + Math.random() * 12;
-        }
-
-        // Rooftop props (only on box buildings)
-        const hasAntenna = type === 'box' && height > 50 && Math.random() < 0.15;
-        const hasWaterTower = type === 'box' && height > 30 && height < 60 && Math.random() < 0.1;
-        // New rooftop details
-        const hasHelipad = type === 'box' && height > 70 && width > 12 && depth > 12 && Math.random() < 0.2;
-        const hasGarden = type === 'box' && height > 20 && height < 50 && width > 10 && Math.random() < 0.12;
-        const hasSolarPanels = type === 'box' && height < 40 && width > 10 && Math.random() < 0.15;
-
-        // L-shaped building wings
-        let wingWidth, wingDepth, wingDirection;
-        if (type === 'lshaped') {
-          wingWidth = width * (0.4 + Math.random() * 0.3);
-          wingDepth = depth * (0.5 + Math.random() * 0.3);
-          wingDirection = Math.floor(Math.random() * 4);
-        }
-
-        this.buildings.push({
-          position: new THREE.Vector3(x + offsetX, height / 2, z + offsetZ),
-          width,
-          height,
-          depth,
-          type,
-          hasAntenna,
-          hasWaterTower,
-          hasHelipad,
-          hasGarden,
-          hasSolarPanels,
-          wingWidth,
-          wingDepth,
-          wingDirection,
-        });
-
-        // Add neon signs to some box buildings (10% chance for performance)
-        if (type === 'box' && height > 25 && Math.random() < 0.1) {
-          const signHeight = 3 + Math.random() * 4;
-          const signWidth = width * (0.3 + Math.random() * 0.4);
-          const signY = height * (0.3 + Math.random() * 0.5);
-          // Pick a random side (0-3)
-          const side = Math.floor(Math.random() * 4);
-          let signX = x + offsetX;
-          let signZ = z + offsetZ;
-          let rotation = 0;
-
-          if (side === 0) {
-            signZ += depth / 2 + 0.1;
-            rotation = 0;
-          } else if (side === 1) {
-            signZ -= depth / 2 + 0.1;
-            rotation = Math.PI;
-          } else if (side === 2) {
-            signX += width / 2 + 0.1;
-            rotation = Math.PI / 2;
-          } else {
-            signX -= width / 2 + 0.1;
-            rotation = -Math.PI / 2;
-          }
-
-          // Neon colors
-          const neonColors = [0xff00ff, 0x00ffff, 0xff6600, 0x00ff00, 0xff0066];
-          const color = neonColors[Math.floor(Math.random() * neonColors.length)];
-
-          this.neonSigns.push({
-            position: new THREE.Vector3(signX, signY, signZ),
-            width: signWidth,
-            height: signHeight,
-            color,
-            rotation,
-          });
-        }
-      }
-    }
-
-    // Generate street lights along grid lines
-    for (let x = -halfSize + gridSize / 2; x < halfSize; x += gridSize) {
-      for (let z = -halfSize + gridSize / 2; z < halfSize; z += gridSize) {
-        // Skip spawn area
-        if (Math.abs(x) < spawnClearRadius && Math.abs(z) < spawnClearRadius) {
-          continue;
-        }
-
-        // Skip park areas
-        if (this.isInPark(new THREE.Vector3(x, 0, z))) {
-          continue;
-        }
-
-        // Check if there's a building nearby (avoid placing lights too close)
-        const tooCloseToBuilding = this.buildings.some((b) => {
-          const dx = Math.abs(b.position.x - x);
-          const dz = Math.abs(b.position.z - z);
-          return dx < b.width / 2 + 3 && dz < b.depth / 2 + 3;
-        });
-
-        if (!tooCloseToBuilding && Math.random() < 0.15) {
-          this.streetLights.push({
-            position: new THREE.Vector3(x, 0, z),
-          });
-        }
-      }
-    }
-
+  private generate(layout: CityLayout, seed: number): void {
+    // Layout is pure data from the seed; meshes get their own PRNG stream for colors and props
+    this.layout = layout;
+    this.rng = new SeededRandom(SeededRandom.deriveSeed(seed, 'meshes'));
     this.createMeshes();
   }
 
-  regenerate(): void {
+  /**
+   * Replace the meshes with a new seed's layout (used on restart)
+   */
+  regenerate(layout: CityLayout, seed: number): void {
     // Remove old meshes
     const meshesToRemove = [
       this.boxMeshes,
@@ -690,8 +398,8 @@ export class City {
       this.landmarkDome = null;
     }
 
-    // Generate new city
-    this.generate();
+    // Build the new city
+    this.generate(layout, seed);
   }
 
   /**
@@ -704,7 +412,7 @@ export class City {
     const isEast = position.x > 0;
 
     // Base shade variation
-    const shade = baseShade + Math.random() * 0.15;
+    const shade = baseShade + this.rng.next() * 0.15;
 
     // District color themes (subtle tints)
     if (isNorth && isEast) {
@@ -741,12 +449,12 @@ export class City {
   private createMeshes(): void {
     // Count buildings by type
     // Pyramid and L-shaped buildings also need a box base, so include them
-    const boxBuildings = this.buildings.filter((b) => b.type === 'box' || b.type === 'pyramid' || b.type === 'lshaped');
-    const cylinderBuildings = this.buildings.filter((b) => b.type === 'cylinder');
-    const pyramidBuildings = this.buildings.filter((b) => b.type === 'pyramid');
-    const lshapedBuildings = this.buildings.filter((b) => b.type === 'lshaped');
-    const antennaBuildings = this.buildings.filter((b) => b.hasAntenna);
-    const waterTowerBuildings = this.buildings.filter((b) => b.hasWaterTower);
+    const boxBuildings = this.layout.buildings.filter((b) => b.type === 'box' || b.type === 'pyramid' || b.type === 'lshaped');
+    const cylinderBuildings = this.layout.buildings.filter((b) => b.type === 'cylinder');
+    const pyramidBuildings = this.layout.buildings.filter((b) => b.type === 'pyramid');
+    const lshapedBuildings = this.layout.buildings.filter((b) => b.type === 'lshaped');
+    const antennaBuildings = this.layout.buildings.filter((b) => b.hasAntenna);
+    const waterTowerBuildings = this.layout.buildings.filter((b) => b.hasWaterTower);
 
     // Create geometries
     const boxGeometry = new THREE.BoxGeometry(1, 1, 1);
@@ -837,7 +545,7 @@ export class City {
         this.pyramidMeshes!.setMatrixAt(i, matrix);
 
         // Reddish tint for pyramid roofs
-        const shade = 0.35 + Math.random() * 0.1;
+        const shade = 0.35 + this.rng.next() * 0.1;
         color.setRGB(shade + 0.05, shade, shade - 0.02);
         this.pyramidMeshes!.setColorAt(i, color);
       });
@@ -856,7 +564,7 @@ export class City {
       );
 
       antennaBuildings.forEach((building, i) => {
-        const antennaHeight = 8 + Math.random() * 6;
+        const antennaHeight = 8 + this.rng.next() * 6;
         const antennaY = building.position.y + building.height / 2 + antennaHeight / 2;
 
         scaleMatrix.makeScale(1, antennaHeight, 1);
@@ -882,11 +590,11 @@ export class City {
       );
 
       waterTowerBuildings.forEach((building, i) => {
-        const towerScale = 4 + Math.random() * 2;
+        const towerScale = 4 + this.rng.next() * 2;
         const towerY = building.position.y + building.height / 2 + towerScale * 0.25 + 1;
         // Offset from center
-        const offsetX = (Math.random() - 0.5) * building.width * 0.4;
-        const offsetZ = (Math.random() - 0.5) * building.depth * 0.4;
+        const offsetX = (this.rng.next() - 0.5) * building.width * 0.4;
+        const offsetZ = (this.rng.next() - 0.5) * building.depth * 0.4;
 
         scaleMatrix.makeScale(towerScale, towerScale, towerScale);
         posMatrix.makeTranslation(
@@ -907,7 +615,7 @@ export class City {
     }
 
     // Create helipads (white circle with H marking - simplified as flat cylinder)
-    const helipadBuildings = this.buildings.filter((b) => b.hasHelipad);
+    const helipadBuildings = this.layout.buildings.filter((b) => b.hasHelipad);
     if (helipadBuildings.length > 0) {
       const helipadGeometry = new THREE.CylinderGeometry(1, 1, 0.1, 16);
       const helipadMaterial = new THREE.MeshStandardMaterial({
@@ -931,7 +639,7 @@ export class City {
         this.helipadMeshes!.setMatrixAt(i, matrix);
 
         // Slight color variation
-        color.setRGB(0.75 + Math.random() * 0.1, 0.75 + Math.random() * 0.1, 0.75 + Math.random() * 0.1);
+        color.setRGB(0.75 + this.rng.next() * 0.1, 0.75 + this.rng.next() * 0.1, 0.75 + this.rng.next() * 0.1);
         this.helipadMeshes!.setColorAt(i, color);
       });
 
@@ -941,7 +649,7 @@ export class City {
     }
 
     // Create rooftop gardens (green squares)
-    const gardenBuildings = this.buildings.filter((b) => b.hasGarden);
+    const gardenBuildings = this.layout.buildings.filter((b) => b.hasGarden);
     if (gardenBuildings.length > 0) {
       const gardenGeometry = new THREE.BoxGeometry(1, 0.3, 1);
       const gardenMaterial = new THREE.MeshStandardMaterial({
@@ -956,12 +664,12 @@ export class City {
       );
 
       gardenBuildings.forEach((building, i) => {
-        const gardenW = building.width * (0.5 + Math.random() * 0.3);
-        const gardenD = building.depth * (0.5 + Math.random() * 0.3);
+        const gardenW = building.width * (0.5 + this.rng.next() * 0.3);
+        const gardenD = building.depth * (0.5 + this.rng.next() * 0.3);
         const gardenY = building.position.y + building.height / 2 + 0.15;
         // Offset from center
-        const offsetX = (Math.random() - 0.5) * (building.width - gardenW) * 0.6;
-        const offsetZ = (Math.random() - 0.5) * (building.depth - gardenD) * 0.6;
+        const offsetX = (this.rng.next() - 0.5) * (building.width - gardenW) * 0.6;
+        const offsetZ = (this.rng.next() - 0.5) * (building.depth - gardenD) * 0.6;
 
         scaleMatrix.makeScale(gardenW, 1, gardenD);
         posMatrix.makeTranslation(building.position.x + offsetX, gardenY, building.position.z + offsetZ);
@@ -969,7 +677,7 @@ export class City {
         this.gardenMeshes!.setMatrixAt(i, matrix);
 
         // Varied green colors
-        const greenShade = 0.25 + Math.random() * 0.15;
+        const greenShade = 0.25 + this.rng.next() * 0.15;
         color.setRGB(greenShade * 0.6, greenShade + 0.1, greenShade * 0.5);
         this.gardenMeshes!.setColorAt(i, color);
       });
@@ -980,7 +688,7 @@ export class City {
     }
 
     // Create solar panels (dark blue/black rectangles)
-    const solarBuildings = this.buildings.filter((b) => b.hasSolarPanels);
+    const solarBuildings = this.layout.buildings.filter((b) => b.hasSolarPanels);
     if (solarBuildings.length > 0) {
       const solarGeometry = new THREE.BoxGeometry(1, 0.15, 1);
       const solarMaterial = new THREE.MeshStandardMaterial({
@@ -995,12 +703,12 @@ export class City {
       );
 
       solarBuildings.forEach((building, i) => {
-        const panelW = building.width * (0.6 + Math.random() * 0.2);
-        const panelD = building.depth * (0.6 + Math.random() * 0.2);
+        const panelW = building.width * (0.6 + this.rng.next() * 0.2);
+        const panelD = building.depth * (0.6 + this.rng.next() * 0.2);
         const panelY = building.position.y + building.height / 2 + 0.2;
         // Offset from center (usually on one side)
-        const offsetX = (Math.random() - 0.5) * (building.width - panelW) * 0.4;
-        const offsetZ = (Math.random() - 0.5) * (building.depth - panelD) * 0.4;
+        const offsetX = (this.rng.next() - 0.5) * (building.width - panelW) * 0.4;
+        const offsetZ = (this.rng.next() - 0.5) * (building.depth - panelD) * 0.4;
 
         scaleMatrix.makeScale(panelW, 1, panelD);
         posMatrix.makeTranslation(building.position.x + offsetX, panelY, building.position.z + offsetZ);
@@ -1008,7 +716,7 @@ export class City {
         this.solarPanelMeshes!.setMatrixAt(i, matrix);
 
         // Dark blue/purple variation
-        const shade = 0.1 + Math.random() * 0.1;
+        const shade = 0.1 + this.rng.next() * 0.1;
         color.setRGB(shade, shade * 1.3, shade * 2);
         this.solarPanelMeshes!.setColorAt(i, color);
       });
@@ -1030,35 +738,15 @@ export class City {
       this.lshapedWingMeshes.receiveShadow = true;
 
       lshapedBuildings.forEach((building, i) => {
-        const wingW = building.wingWidth || building.width * 0.5;
-        const wingD = building.wingDepth || building.depth * 0.5;
-        const wingH = building.height * (0.6 + Math.random() * 0.3); // Slightly shorter wing
-
-        // Calculate wing position based on direction
-        let wingX = building.position.x;
-        let wingZ = building.position.z;
-        const dir = building.wingDirection || 0;
-
-        if (dir === 0) {
-          wingX += building.width / 2 + wingW / 2 - 1;
-          wingZ += building.depth / 2 - wingD / 2;
-        } else if (dir === 1) {
-          wingX -= building.width / 2 + wingW / 2 - 1;
-          wingZ += building.depth / 2 - wingD / 2;
-        } else if (dir === 2) {
-          wingX += building.width / 2 - wingW / 2;
-          wingZ -= building.depth / 2 + wingD / 2 - 1;
-        } else {
-          wingX -= building.width / 2 + wingW / 2 - 1;
-          wingZ -= building.depth / 2 + wingD / 2 - 1;
-        }
+        const wing = CityLayout.getWingFootprint(building)!;
+        const wingH = building.height * (0.6 + this.rng.next() * 0.3); // Slightly shorter wing
 
-        scaleMatrix.makeScale(wingW, wingH, wingD);
-        posMatrix.makeTranslation(wingX, wingH / 2, wingZ);
+        scaleMatrix.makeScale(wing.width, wingH, wing.depth);
+        posMatrix.makeTranslation(wing.x, wingH / 2, wing.z);
         matrix.multiplyMatrices(posMatrix, scaleMatrix);
         this.lshapedWingMeshes!.setMatrixAt(i, matrix);
 
-        const shade = 0.3 + Math.random() * 0.2;
+        const shade = 0.3 + this.rng.next() * 0.2;
         color.setRGB(shade, shade, shade + 0.02);
         this.lshapedWingMeshes!.setColorAt(i, color);
       });
@@ -1069,7 +757,7 @@ export class City {
     }
 
     // Create park grounds
-    this.parks.forEach((park) => {
+    this.layout.parks.forEach((park) => {
       const groundGeometry = new THREE.CircleGeometry(park.radius, 32);
       const groundMaterial = new THREE.MeshStandardMaterial({
         color: 0x3d6b35,
@@ -1085,16 +773,16 @@ export class City {
     });
 
     // Create tree trunks (static, no animation to avoid gaps)
-    if (this.trees.length > 0) {
+    if (this.layout.trees.length > 0) {
       const trunkGeometry = new THREE.CylinderGeometry(0.3, 0.4, 1, 8);
       this.treeTrunkMeshes = new THREE.InstancedMesh(
         trunkGeometry,
         this.treeTrunkMaterial,
-        this.trees.length
+        this.layout.trees.length
       );
       this.treeTrunkMeshes.castShadow = true;
 
-      this.trees.forEach((tree, i) => {
+      this.layout.trees.forEach((tree, i) => {
         const trunkHeight = tree.height * 0.5;
         scaleMatrix.makeScale(1, trunkHeight, 1);
         posMatrix.makeTranslation(tree.position.x, trunkHeight / 2, tree.position.z);
@@ -1102,7 +790,7 @@ export class City {
         this.treeTrunkMeshes!.setMatrixAt(i, matrix);
 
         // Slight color variation
-        const shade = 0.2 + Math.random() * 0.1;
+        const shade = 0.2 + this.rng.next() * 0.1;
         color.setRGB(shade + 0.1, shade * 0.7, shade * 0.5);
         this.treeTrunkMeshes!.setColorAt(i, color);
       });
@@ -1116,11 +804,11 @@ export class City {
       this.treeCrownMeshes = new THREE.InstancedMesh(
         crownGeometry,
         this.treeCrownMaterial,
-        this.trees.length
+        this.layout.trees.length
       );
       this.treeCrownMeshes.castShadow = true;
 
-      this.trees.forEach((tree, i) => {
+      this.layout.trees.forEach((tree, i) => {
         const crownY = tree.height * 0.5 + tree.crownRadius * 0.6;
         scaleMatrix.makeScale(tree.crownRadius, tree.crownRadius * 0.8, tree.crownRadius);
         posMatrix.makeTranslation(tree.position.x, crownY, tree.position.z);
@@ -1128,7 +816,7 @@ export class City {
         this.treeCrownMeshes!.setMatrixAt(i, matrix);
 
         // Seasonal color variation
-        const variation = Math.random() * 0.1;
+        const variation = this.rng.next() * 0.1;
         switch (tree.season) {
           case 'spring':
             // Light green with pink hints (cherry blossom)
@@ -1140,7 +828,7 @@ export class City {
             break;
           case 'autumn':
             // Orange/red/yellow mix
-            const autumnHue = Math.random();
+            const autumnHue = this.rng.next();
             if (autumnHue < 0.33) {
               color.setRGB(0.7 + variation, 0.3 + variation, 0.1); // Orange
             } else if (autumnHue < 0.66) {
@@ -1151,7 +839,7 @@ export class City {
             break;
           case 'winter':
             // Sparse/bare look - grayish brown (leafless) or evergreen
-            if (Math.random() < 0.4) {
+            if (this.rng.next() < 0.4) {
               // Evergreen (dark green)
               color.setRGB(0.1 + variation, 0.25 + variation, 0.12);
             } else {
@@ -1161,7 +849,7 @@ export class City {
             break;
           default:
             // Default green
-            const greenShade = 0.25 + Math.random() * 0.15;
+            const greenShade = 0.25 + this.rng.next() * 0.15;
             color.setRGB(greenShade * 0.6, greenShade + 0.1, greenShade * 0.5);
         }
         this.treeCrownMeshes!.setColorAt(i, color);
@@ -1173,7 +861,7 @@ export class City {
     }
 
     // Create street lights
-    if (this.streetLights.length > 0) {
+    if (this.layout.streetLights.length > 0) {
       const poleGeometry = new THREE.CylinderGeometry(0.15, 0.2, 1, 8);
       const bulbGeometry = new THREE.SphereGeometry(0.4, 8, 8);
       const streetLightHeight = 8;
@@ -1181,17 +869,17 @@ export class City {
       this.streetLightPoleMeshes = new THREE.InstancedMesh(
         poleGeometry,
         this.streetLightPoleMaterial,
-        this.streetLights.length
+        this.layout.streetLights.length
       );
       this.streetLightPoleMeshes.castShadow = true;
 
       this.streetLightBulbMeshes = new THREE.InstancedMesh(
         bulbGeometry,
         this.streetLightBulbMaterial,
-        this.streetLights.length
+        this.layout.streetLights.length
       );
 
-      this.streetLights.forEach((light, i) => {
+      this.layout.streetLights.forEach((light, i) => {
         // Pole
         scaleMatrix.makeScale(1, streetLightHeight, 1);
         posMatrix.makeTranslation(light.position.x, streetLightHeight / 2, light.position.z);
@@ -1220,7 +908,7 @@ export class City {
     }
 
     // Create neon signs (no PointLights - MeshBasicMaterial already appears to glow)
-    this.neonSigns.forEach((sign) => {
+    this.layout.neonSigns.forEach((sign) => {
       const signGeometry = new THREE.PlaneGeometry(sign.width, sign.height);
       const signMaterial = new THREE.MeshBasicMaterial({
         color: sign.color,
@@ -1236,7 +924,7 @@ export class City {
     });
 
     // Create park benches
-    if (this.benches.length > 0) {
+    if (this.layout.benches.length > 0) {
       // Simple bench geometry: seat + back + legs
       const benchGroup = new THREE.Group();
 
@@ -1279,7 +967,7 @@ export class City {
       this.benchMeshes = new THREE.InstancedMesh(
         benchGeometry,
         benchMaterial,
-        this.benches.length
+        this.layout.benches.length
       );
       this.benchMeshes.castShadow = true;
       this.benchMeshes.receiveShadow = true;
@@ -1290,7 +978,7 @@ export class City {
       const benchRot = new THREE.Matrix4();
       const benchColor = new THREE.Color();
 
-      this.benches.forEach((bench, i) => {
+      this.layout.benches.forEach((bench, i) => {
         benchScale.makeScale(1, 1, 1);
         benchPos.makeTranslation(bench.position.x, 0.6, bench.position.z);
         benchRot.makeRotationY(bench.rotation);
@@ -1299,7 +987,7 @@ export class City {
         this.benchMeshes!.setMatrixAt(i, benchMatrix);
 
         // Brighter wood color variation
-        const woodShade = 0.45 + Math.random() * 0.15;
+        const woodShade = 0.45 + this.rng.next() * 0.15;
         benchColor.setRGB(woodShade + 0.15, woodShade * 0.6, woodShade * 0.25);
         this.benchMeshes!.setColorAt(i, benchColor);
       });
@@ -1310,7 +998,7 @@ export class City {
     }
 
     // Create trash bins
-    if (this.trashBins.length > 0) {
+    if (this.layout.trashBins.length > 0) {
       const binGeometry = new THREE.CylinderGeometry(0.4, 0.45, 1.0, 12);
       const binMaterial = new THREE.MeshStandardMaterial({
         color: 0x4a6a4a,
@@ -1321,19 +1009,19 @@ export class City {
       this.trashBinMeshes = new THREE.InstancedMesh(
         binGeometry,
         binMaterial,
-        this.trashBins.length
+        this.layout.trashBins.length
       );
       this.trashBinMeshes.castShadow = true;
 
       const binPos = new THREE.Matrix4();
       const binColor = new THREE.Color();
 
-      this.trashBins.forEach((bin, i) => {
+      this.layout.trashBins.forEach((bin, i) => {
         binPos.makeTranslation(bin.position.x, 0.5, bin.position.z);
         this.trashBinMeshes!.setMatrixAt(i, binPos);
 
         // Brighter green color variation (park bins)
-        const shade = 0.25 + Math.random() * 0.1;
+        const shade = 0.25 + this.rng.next() * 0.1;
         binColor.setRGB(shade * 0.8, shade + 0.15, shade * 0.8);
         this.trashBinMeshes!.setColorAt(i, binColor);
       });
@@ -1425,208 +1113,64 @@ export class City {
     */
   }
 
-  isInsideBuilding(point: THREE.Vector3, padding = 2): boolean {
-    for (const building of this.buildings) {
-      const halfW = building.width / 2 + padding;
-      const halfD = building.depth / 2 + padding;
-
-      if (
-        point.x > building.position.x - halfW &&
-        point.x < building.position.x + halfW &&
-        point.z > building.position.z - halfD &&
-        point.z < building.position.z + halfD
-      ) {
-        return true;
-      }
-    }
-    return false;
+  /**
+   * Scene-independent layout data (shared with headless code such as run verification)
+   */
+  getLayout(): CityLayout {
+    return this.layout;
   }
 
-  // Check if a position is inside a park
-  private isInPark(position: THREE.Vector3): boolean {
-    for (const park of this.parks) {
-      const dist = Math.sqrt(
-        Math.pow(position.x - park.position.x, 2) +
-        Math.pow(position.z - park.position.z, 2)
-      );
-      if (dist < park.radius) {
-        return true;
-      }
-    }
-    return false;
+  isInsideBuilding(point: THREE.Vector3, padding = 2): boolean {
+    return this.layout.isInsideBuilding(point, padding);
   }
 
   // Public method to check if player is in a park (for stamina bonus)
   isPlayerInPark(position: THREE.Vector3): boolean {
-    return this.isInPark(position);
+    return this.layout.isInPark(position);
   }
 
   // Get surface type at position for footstep sounds
   getSurfaceType(position: THREE.Vector3): 'grass' | 'concrete' | 'water' {
-    // Check if in water
-    if (this.water && this.water.isInWater(position)) {
-      return 'water';
-    }
-    // Check if in park (grass)
-    if (this.isInPark(position)) {
-      return 'grass';
-    }
-    // Default to concrete
-    return 'concrete';
+    return this.layout.getSurfaceType(position);
   }
 
   // Get park center positions for safe collectible spawning
   getParkCenters(): THREE.Vector2[] {
-    return this.parks.map(park => new THREE.Vector2(park.position.x, park.position.z));
+    return this.layout.getParkCenters();
   }
 
   // Calculate building proximity for echo effect (0 = open, 1 = surrounded by buildings)
   getBuildingProximity(position: THREE.Vector3): number {
-    let nearbyBuildings = 0;
-    let totalProximity = 0;
-    const checkRadius = 40; // Check buildings within 40 units
-
-    for (const building of this.buildings) {
-      const dx = position.x - building.position.x;
-      const dz = position.z - building.position.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-
-      if (dist < checkRadius) {
-        nearbyBuildings++;
-        // Higher proximity for closer and taller buildings
-        const distFactor = 1 - (dist / checkRadius);
-        const heightFactor = Math.min(building.height / 100, 1);
-        totalProximity += distFactor * (0.5 + heightFactor * 0.5);
-      }
-    }
-
-    // Normalize based on number of nearby buildings
-    const avgProximity = nearbyBuildings > 0 ? totalProximity / nearbyBuildings : 0;
-    const densityFactor = Math.min(nearbyBuildings / 5, 1); // More buildings = more echo
-
-    return Math.min(avgProximity * densityFactor * 2, 1);
+    return this.layout.getBuildingProximity(position);
   }
 
   // Get rooftop positions for fragment spawning (returns building top positions)
-  getRooftopPositions(count: number): THREE.Vector3[] {
-    // Filter to low-medium height buildings (jumpable from ground or nearby)
-    const suitableBuildings = this.buildings.filter(b =>
-      b.height >= 15 && b.height <= 35 && b.type === 'box'
-    );
-
-    // Shuffle and pick random buildings
-    const shuffled = [...suitableBuildings].sort(() => Math.random() - 0.5);
-    const selected = shuffled.slice(0, Math.min(count, shuffled.length));
-
-    return selected.map(b => new THREE.Vector3(
-      b.position.x,
-      b.position.y + b.height / 2 + 2, // On top of building
-      b.position.z
-    ));
+  getRooftopPositions(count: number, rng: SeededRandom): THREE.Vector3[] {
+    return this.layout.getRooftopPositions(count, rng);
   }
 
-  // Get building at position (for climbing)
-  getBuildingAt(position: THREE.Vector3, radius: number): { height: number; position: THREE.Vector3; width: number; depth: number } | null {
-    for (const building of this.buildings) {
-      const halfW = building.width / 2 + radius;
-      const halfD = building.depth / 2 + radius;
-
-      if (
-        position.x > building.position.x - halfW &&
-        position.x < building.position.x + halfW &&
-        position.z > building.position.z - halfD &&
-        position.z < building.position.z + halfD
-      ) {
-        return {
-          height: building.height,
-          position: building.position.clone(),
-          width: building.width,
-          depth: building.depth,
-        };
-      }
-    }
-    return null;
+  // Street intersections and the streets between them (guard patrols)
+  getStreetGrid(): StreetGrid {
+    return this.layout.getStreetGrid();
   }
 
-  // Check collision for player movement
-  checkCollision(position: THREE.Vector3, radius: number): THREE.Vector3 | null {
-    // Check buildings
-    for (const building of this.buildings) {
-      const halfW = building.width / 2 + radius;
-      const halfD = building.depth / 2 + radius;
-
-      // Check if inside building bounds
-      if (
-        position.x > building.position.x - halfW &&
-        position.x < building.position.x + halfW &&
-        position.z > building.position.z - halfD &&
-        position.z < building.position.z + halfD
-      ) {
-        // Push out to nearest edge
-        const dx1 = position.x - (building.position.x - halfW);
-        const dx2 = (building.position.x + halfW) - position.x;
-        const dz1 = position.z - (building.position.z - halfD);
-        const dz2 = (building.position.z + halfD) - position.z;
-
-        const minDist = Math.min(dx1, dx2, dz1, dz2);
-        const pushOut = new THREE.Vector3();
-
-        if (minDist === dx1) pushOut.x = -dx1;
-        else if (minDist === dx2) pushOut.x = dx2;
-        else if (minDist === dz1) pushOut.z = -dz1;
-        else pushOut.z = dz2;
-
-        return pushOut;
-      }
-    }
-
-    // DISABLED: Landmark collision checks (landmarks are visually disabled)
-    // Check landmark tower collision (circular)
-    /*
-    const towerX = 50;
-    const towerZ = 50;
-    const towerRadius = 10 + radius;
-    let dx = position.x - towerX;
-    let dz = position.z - towerZ;
-    let distSq = dx * dx + dz * dz;
-    if (distSq < towerRadius * towerRadius) {
-      const dist = Math.sqrt(distSq);
-      const pushDist = towerRadius - dist;
-      const pushOut = new THREE.Vector3(
-        (dx / dist) * pushDist,
-        0,
-        (dz / dist) * pushDist
-      );
-      return pushOut;
-    }
+  // Whether buildings block the view between two points (guard vision)
+  hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    return this.layout.hasLineOfSight(from, to);
+  }
 
-    // Check pyramid monument collision (approximate as circle)
-    const pyramidX = -120;
-    const pyramidZ = -120;
-    const pyramidRadius = 42 + radius;
-    dx = position.x - pyramidX;
-    dz = position.z - pyramidZ;
-    distSq = dx * dx + dz * dz;
-    if (distSq < pyramidRadius * pyramidRadius) {
-      const dist = Math.sqrt(distSq);
-      const pushDist = pyramidRadius - dist;
-      return new THREE.Vector3((dx / dist) * pushDist, 0, (dz / dist) * pushDist);
-    }
+  // Get building at position (for climbing)
+  getBuildingAt(position: THREE.Vector3, radius: number, aboveHeight?: number): BuildingInfo | null {
+    return this.layout.getBuildingAt(position, radius, aboveHeight);
+  }
 
-    // Check dome collision (circular)
-    const domeX = 130;
-    const domeZ = -100;
-    const domeRadius = 37 + radius;
-    dx = position.x - domeX;
-    dz = position.z - domeZ;
-    distSq = dx * dx + dz * dz;
-    if (distSq < domeRadius * domeRadius) {
-      const dist = Math.sqrt(distSq);
-      const pushDist = domeRadius - dist;
-      return new THREE.Vector3((dx / dist) * pushDist, 0, (dz / dist) * pushDist);
-    }
-    */
+  // Height of the street or roof under the player
+  getGroundHeight(position: THREE.Vector3, feetHeight: number): number {
+    return this.layout.getGroundHeight(position, feetHeight);
+  }
 
-    return null;
+  // Check collision for player movement
+  checkCollision(position: THREE.Vector3, radius: number, feetHeight?: number): THREE.Vector3 | null {
+    return this.layout.checkCollision(position, radius, feetHeight);
   }
 }
@@ -0,0 +1,756 @@
+import * as THREE from 'three';
+import { SeededRandom } from './SeededRandom';
+import { SpatialGrid } from './SpatialGrid';
+
+export type BuildingType = 'box' | 'cylinder' | 'pyramid' | 'lshaped';
+
+export interface Building {
+  position: THREE.Vector3;
+  width: number;
+  height: number;
+  depth: number;
+  type: BuildingType;
+  hasAntenna: boolean;
+  hasWaterTower: boolean;
+  hasHelipad: boolean;
+  hasGarden: boolean;
+  hasSolarPanels: boolean;
+  // For L-shaped buildings: wing dimensions
+  wingWidth?: number;
+  wingDepth?: number;
+  wingDirection?: number; // 0-3 for which corner the wing extends
+}
+
+// Building found by getBuildingAt() (a copy, safe to keep)
+export interface BuildingInfo {
+  height: number;
+  roofHeight: number; // Top of the roof (includes pyramid tops)
+  position: THREE.Vector3;
+  width: number;
+  depth: number;
+  type: BuildingType;
+}
+
+// Rectangle on the ground plane, by its center
+export interface Footprint {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+// Street intersections between building plots (see getStreetGrid)
+export interface StreetGrid {
+  nodes: THREE.Vector3[];
+  neighbors: number[][]; // Indices of the nodes each node has a clear street to
+}
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface Park {
+  position: THREE.Vector3;
+  radius: number;
+  season: Season; // Each park has a seasonal color theme
+}
+
+export interface Tree {
+  position: THREE.Vector3;
+  height: number;
+  crownRadius: number;
+  season: Season; // Inherited from park
+  sizeTier: number; // 0-3 for size variation
+}
+
+export interface StreetLight {
+  position: THREE.Vector3;
+}
+
+export interface NeonSign {
+  position: THREE.Vector3;
+  width: number;
+  height: number;
+  color: number;
+  rotation: number;
+}
+
+export interface Bench {
+  position: THREE.Vector3;
+  rotation: number;
+}
+
+export interface TrashBin {
+  position: THREE.Vector3;
+}
+
+// Anything that can answer "is this point in water?" (Water or WaterLayout)
+export interface WaterQuery {
+  isInWater(position: THREE.Vector3): boolean;
+}
+
+/**
+ * Scene-independent city layout: buildings, parks and street props generated from a seed,
+ * plus the spatial queries gameplay relies on. Has no rendering dependencies, so the same
+ * layout can be rebuilt outside the browser (e.g. to verify runs on the server).
+ */
+export class CityLayout {
+  // Buildings up to this height can be climbed (and get rooftop fragments)
+  static readonly MAX_CLIMB_HEIGHT = 35;
+  // Roof edges this far above the feet are stepped onto rather than blocking
+  static readonly STEP_HEIGHT = 0.6;
+  // Building plots sit on a regular grid, streets run between them
+  private static readonly PLOT_SPACING = 25;
+  private static readonly PLOT_OFFSET = 10; // First plot's distance from the city edge
+  private static readonly STREET_CLEARANCE = 2; // Distance streets keep from buildings
+  private static readonly GRID_CELL_SIZE = 25; // About one building plot per cell
+  private static readonly PROXIMITY_RADIUS = 40; // Buildings counted for echo (getBuildingProximity)
+
+  readonly size: number;
+  readonly buildings: Building[] = [];
+  readonly parks: Park[] = [];
+  readonly trees: Tree[] = [];
+  readonly streetLights: StreetLight[] = [];
+  readonly neonSigns: NeonSign[] = [];
+  readonly benches: Bench[] = [];
+  readonly trashBins: TrashBin[] = [];
+  private buildingDensity: number;
+  private water?: WaterQuery;
+  private streetGrid: StreetGrid | null = null;
+
+  // Spatial indexes over footprints (built once generation has placed everything)
+  private buildingIndex: SpatialGrid<Building> | null = null;
+  private parkIndex: SpatialGrid<Park> | null = null;
+
+  constructor(size: number, buildingDensity: number, seed: number, water?: WaterQuery) {
+    this.size = size;
+    this.buildingDensity = buildingDensity;
+    this.water = water;
+    this.generate(new SeededRandom(seed));
+  }
+
+  private generate(rng: SeededRandom): void {
+    const halfSize = this.size / 2;
+    const gridSize = CityLayout.PLOT_SPACING; // Space between potential building spots (increased to prevent overlap)
+    const buildingChance = this.buildingDensity;
+
+    // Clear spawn area
+    const spawnClearRadius = 40;
+
+    // Generate parks first (4-6 parks scattered around the city)
+    const numParks = 4 + Math.floor(rng.next() * 3);
+    for (let i = 0; i < numParks; i++) {
+      // Place parks in different quadrants
+      const angle = (i / numParks) * Math.PI * 2 + rng.next() * 0.5;
+      const distance = 80 + rng.next() * (halfSize - 120);
+      const parkX = Math.cos(angle) * distance;
+      const parkZ = Math.sin(angle) * distance;
+      const parkRadius = 30 + rng.next() * 20;
+
+      // Assign a random season to each park for visual variety
+      const seasons: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+      const parkSeason = seasons[i % seasons.length]; // Cycle through seasons
+
+      this.parks.push({
+        position: new THREE.Vector3(parkX, 0, parkZ),
+        radius: parkRadius,
+        season: parkSeason,
+      });
+
+      // Generate trees in park with varied sizes (4 size tiers)
+      const treesInPark = 8 + Math.floor(rng.next() * 12);
+      for (let t = 0; t < treesInPark; t++) {
+        const treeAngle = rng.next() * Math.PI * 2;
+        const treeDist = rng.next() * (parkRadius - 5);
+        const treeX = parkX + Math.cos(treeAngle) * treeDist;
+        const treeZ = parkZ + Math.sin(treeAngle) * treeDist;
+
+        // Size tiers: 0=small, 1=medium, 2=large, 3=extra large
+        const sizeTier = Math.floor(rng.next() * 4);
+        const sizeMultipliers = [0.6, 0.85, 1.1, 1.4];
+        const sizeMultiplier = sizeMultipliers[sizeTier];
+
+        this.trees.push({
+          position: new THREE.Vector3(treeX, 0, treeZ),
+          height: (6 + rng.next() * 6) * sizeMultiplier,
+          crownRadius: (3 + rng.next() * 2) * sizeMultiplier,
+          season: parkSeason,
+          sizeTier,
+        });
+      }
+
+      // Generate benches in park (2-4 per park, along the edge)
+      const benchesInPark = 2 + Math.floor(rng.next() * 3);
+      for (let b = 0; b < benchesInPark; b++) {
+        const benchAngle = (b / benchesInPark) * Math.PI * 2 + rng.next() * 0.5;
+        const benchDist = parkRadius * (0.5 + rng.next() * 0.3); // Inner half of park
+        const benchX = parkX + Math.cos(benchAngle) * benchDist;
+        const benchZ = parkZ + Math.sin(benchAngle) * benchDist;
+
+        this.benches.push({
+          position: new THREE.Vector3(benchX, 0, benchZ),
+          rotation: benchAngle + Math.PI / 2, // Face towards center
+        });
+      }
+
+      // Generate trash bins near benches (1-2 per park)
+      const binsInPark = 1 + Math.floor(rng.next() * 2);
+      for (let b = 0; b < binsInPark; b++) {
+        const binAngle = rng.next() * Math.PI * 2;
+        const binDist = parkRadius * (0.3 + rng.next() * 0.4);
+        const binX = parkX + Math.cos(binAngle) * binDist;
+        const binZ = parkZ + Math.sin(binAngle) * binDist;
+
+        this.trashBins.push({
+          position: new THREE.Vector3(binX, 0, binZ),
+        });
+      }
+    }
+
+    this.parkIndex = new SpatialGrid(this.parks, park => ({
+      minX: park.position.x - park.radius,
+      minZ: park.position.z - park.radius,
+      maxX: park.position.x + park.radius,
+      maxZ: park.position.z + park.radius,
+    }), CityLayout.GRID_CELL_SIZE);
+
+    for (let x = -halfSize + CityLayout.PLOT_OFFSET; x < halfSize - CityLayout.PLOT_OFFSET; x += gridSize) {
+      for (let z = -halfSize + CityLayout.PLOT_OFFSET; z < halfSize - CityLayout.PLOT_OFFSET; z += gridSize) {
+        // Skip spawn area
+        if (Math.abs(x) < spawnClearRadius && Math.abs(z) < spawnClearRadius) {
+          continue;
+        }
+
+        // Skip park areas
+        if (this.isInPark(new THREE.Vector3(x, 0, z))) {
+          continue;
+        }
+
+        // Skip water areas
+        if (this.water && this.water.isInWater(new THREE.Vector3(x, 0, z))) {
+          continue;
+        }
+
+        // Random chance to place building
+        if (rng.next() > buildingChance) continue;
+
+        // Random offset within grid cell
+        const offsetX = (rng.next() - 0.5) * (gridSize * 0.5);
+        const offsetZ = (rng.next() - 0.5) * (gridSize * 0.5);
+
+        // Height varies by distance from center (taller towards center)
+        const distFromCenter = Math.sqrt(x * x + z * z);
+        const normalizedDist = distFromCenter / halfSize;
+        const heightMultiplier = 1 + (1 - normalizedDist) * 2;
+        const height = (15 + rng.next() * 40) * heightMultiplier;
+
+        // Determine building type based on location
+        let type: BuildingType = 'box';
+        if (normalizedDist < 0.3 && height > 60 && rng.next() < 0.4) {
+          // City center: tall cylinders (skyscrapers)
+          type = 'cylinder';
+        } else if (normalizedDist > 0.6 && rng.next() < 0.15) {
+          // Outer areas: pyramids disabled due to collision issues
+          // type = 'pyramid';
+          type = 'box'; // Use box instead
+        } else if (normalizedDist > 0.3 && normalizedDist < 0.7 && rng.next() < 0.12) {
+          // Mid-range: L-shaped buildings
+          type = 'lshaped';
+        }
+
+        // Building dimensions based on type
+        let width: number, depth: number;
+        if (type === 'cylinder') {
+          // Cylinders use radius, make them narrower
+          width = 6 + rng.next() * 8;
+          depth = width; // Square footprint for cylinder
+        } else {
+          width = 8 + rng.next() * 12;
+          depth = 8 + rng.next() * 12;
+        }
+
+        // Rooftop props (only on box buildings)
+        const hasAntenna = type === 'box' && height > 50 && rng.next() < 0.15;
+        const hasWaterTower = type === 'box' && height > 30 && height < 60 && rng.next() < 0.1;
+        // New rooftop details
+        const hasHelipad = type === 'box' && height > 70 && width > 12 && depth > 12 && rng.next() < 0.2;
+        const hasGarden = type === 'box' && height > 20 && height < 50 && width > 10 && rng.next() < 0.12;
+        const hasSolarPanels = type === 'box' && height < 40 && width > 10 && rng.next() < 0.15;
+
+        // L-shaped building wings
+        let wingWidth, wingDepth, wingDirection;
+        if (type === 'lshaped') {
+          wingWidth = width * (0.4 + rng.next() * 0.3);
+          wingDepth = depth * (0.5 + rng.next() * 0.3);
+          wingDirection = Math.floor(rng.next() * 4);
+        }
+
+        this.buildings.push({
+          position: new THREE.Vector3(x + offsetX, height / 2, z + offsetZ),
+          width,
+          height,
+          depth,
+          type,
+          hasAntenna,
+          hasWaterTower,
+          hasHelipad,
+          hasGarden,
+          hasSolarPanels,
+          wingWidth,
+          wingDepth,
+          wingDirection,
+        });
+
+        // Add neon signs to some box buildings (10% chance for performance)
+        if (type === 'box' && height > 25 && rng.next() < 0.1) {
+          const signHeight = 3 + rng.next() * 4;
+          const signWidth = width * (0.3 + rng.next() * 0.4);
+          const signY = height * (0.3 + rng.next() * 0.5);
+          // Pick a random side (0-3)
+          const side = Math.floor(rng.next() * 4);
+          let signX = x + offsetX;
+          let signZ = z + offsetZ;
+          let rotation = 0;
+
+          if (side === 0) {
+            signZ += depth / 2 + 0.1;
+            rotation = 0;
+          } else if (side === 1) {
+            signZ -= depth / 2 + 0.1;
+            rotation = Math.PI;
+          } else if (side === 2) {
+            signX += width / 2 + 0.1;
+            rotation = Math.PI / 2;
+          } else {
+            signX -= width / 2 + 0.1;
+            rotation = -Math.PI / 2;
+          }
+
+          // Neon colors
+          const neonColors = [0xff00ff, 0x00ffff, 0xff6600, 0x00ff00, 0xff0066];
+          const color = neonColors[Math.floor(rng.next() * neonColors.length)];
+
+          this.neonSigns.push({
+            position: new THREE.Vector3(signX, signY, signZ),
+            width: signWidth,
+            height: signHeight,
+            color,
+            rotation,
+          });
+        }
+      }
+    }
+
+    this.buildingIndex = new SpatialGrid(this.buildings, building => ({
+      minX: building.position.x - building.width / 2,
+      minZ: building.position.z - building.depth / 2,
+      maxX: building.position.x + building.width / 2,
+      maxZ: building.position.z + building.depth / 2,
+    }), CityLayout.GRID_CELL_SIZE);
+
+    // Generate street lights along grid lines
+    for (let x = -halfSize + gridSize / 2; x < halfSize; x += gridSize) {
+      for (let z = -halfSize + gridSize / 2; z < halfSize; z += gridSize) {
+        // Skip spawn area
+        if (Math.abs(x) < spawnClearRadius && Math.abs(z) < spawnClearRadius) {
+          continue;
+        }
+
+        // Skip park areas
+        if (this.isInPark(new THREE.Vector3(x, 0, z))) {
+          continue;
+        }
+
+        // Check if there's a building nearby (avoid placing lights too close)
+        const tooCloseToBuilding = this.buildingsNear(x, z, 3).some((b) => {
+          const dx = Math.abs(b.position.x - x);
+          const dz = Math.abs(b.position.z - z);
+          return dx < b.width / 2 + 3 && dz < b.depth / 2 + 3;
+        });
+
+        if (!tooCloseToBuilding && rng.next() < 0.15) {
+          this.streetLights.push({
+            position: new THREE.Vector3(x, 0, z),
+          });
+        }
+      }
+    }
+  }
+
+  isInsideBuilding(point: THREE.Vector3, padding = 2): boolean {
+    for (const building of this.buildingsNear(point.x, point.z, padding)) {
+      const halfW = building.width / 2 + padding;
+      const halfD = building.depth / 2 + padding;
+
+      if (
+        point.x > building.position.x - halfW &&
+        point.x < building.position.x + halfW &&
+        point.z > building.position.z - halfD &&
+        point.z < building.position.z + halfD
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Check if a position is inside a park
+  isInPark(position: THREE.Vector3): boolean {
+    const parks = this.parkIndex ? this.parkIndex.queryAround(position.x, position.z, 0) : this.parks;
+    for (const park of parks) {
+      const dist = Math.sqrt(
+        Math.pow(position.x - park.position.x, 2) +
+        Math.pow(position.z - park.position.z, 2)
+      );
+      if (dist < park.radius) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Get surface type at position for footstep sounds
+  getSurfaceType(position: THREE.Vector3): 'grass' | 'concrete' | 'water' {
+    // Check if in water
+    if (this.water && this.water.isInWater(position)) {
+      return 'water';
+    }
+    // Check if in park (grass)
+    if (this.isInPark(position)) {
+      return 'grass';
+    }
+    // Default to concrete
+    return 'concrete';
+  }
+
+  // Get park center positions for safe collectible spawning
+  getParkCenters(): THREE.Vector2[] {
+    return this.parks.map(park => new THREE.Vector2(park.position.x, park.position.z));
+  }
+
+  // Calculate building proximity for echo effect (0 = open, 1 = surrounded by buildings)
+  getBuildingProximity(position: THREE.Vector3): number {
+    let nearbyBuildings = 0;
+    let totalProximity = 0;
+    const checkRadius = CityLayout.PROXIMITY_RADIUS; // Check buildings within 40 units
+
+    for (const building of this.buildingsNear(position.x, position.z, checkRadius)) {
+      const dx = position.x - building.position.x;
+      const dz = position.z - building.position.z;
+      const dist = Math.sqrt(dx * dx + dz * dz);
+
+      if (dist < checkRadius) {
+        nearbyBuildings++;
+        // Higher proximity for closer and taller buildings
+        const distFactor = 1 - (dist / checkRadius);
+        const heightFactor = Math.min(building.height / 100, 1);
+        totalProximity += distFactor * (0.5 + heightFactor * 0.5);
+      }
+    }
+
+    // Normalize based on number of nearby buildings
+    const avgProximity = nearbyBuildings > 0 ? totalProximity / nearbyBuildings : 0;
+    const densityFactor = Math.min(nearbyBuildings / 5, 1); // More buildings = more echo
+
+    return Math.min(avgProximity * densityFactor * 2, 1);
+  }
+
+  // Get rooftop positions for fragment spawning (returns building top positions)
+  getRooftopPositions(count: number, rng: SeededRandom): THREE.Vector3[] {
+    // Filter to low-medium height buildings (climbable from the street)
+    const suitableBuildings = this.buildings.filter(b =>
+      b.height >= 15 && b.height <= CityLayout.MAX_CLIMB_HEIGHT && b.type === 'box'
+    );
+
+    // Shuffle (seeded, so fragment placement stays reproducible) and pick buildings
+    const shuffled = [...suitableBuildings];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(rng.next() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    const selected = shuffled.slice(0, Math.min(count, shuffled.length));
+
+    return selected.map(b => new THREE.Vector3(
+      b.position.x,
+      b.position.y + b.height / 2 + 2, // On top of building
+      b.position.z
+    ));
+  }
+
+  // Street intersections (midway between building plots) that are clear of buildings and
+  // water, linked to their grid neighbours where the street between them is clear as well
+  getStreetGrid(): StreetGrid {
+    if (this.streetGrid) return this.streetGrid;
+
+    const halfSize = this.size / 2;
+    const spacing = CityLayout.PLOT_SPACING;
+    const first = -halfSize + CityLayout.PLOT_OFFSET + spacing / 2;
+    const columns = Math.floor((this.size - CityLayout.PLOT_OFFSET * 2) / spacing);
+
+    // Grid cell -> node index (-1 where the intersection is blocked)
+    const indices: number[] = [];
+    const nodes: THREE.Vector3[] = [];
+    for (let i = 0; i < columns; i++) {
+      for (let j = 0; j < columns; j++) {
+        const point = new THREE.Vector3(first + i * spacing, 0, first + j * spacing);
+        if (this.isStreetClear(point)) {
+          indices.push(nodes.length);
+          nodes.push(point);
+        } else {
+          indices.push(-1);
+        }
+      }
+    }
+
+    const neighbors: number[][] = nodes.map(() => []);
+    const link = (a: number, b: number): void => {
+      if (a < 0 || b < 0 || !this.isStreetSegmentClear(nodes[a], nodes[b])) return;
+      neighbors[a].push(b);
+      neighbors[b].push(a);
+    };
+    for (let i = 0; i < columns; i++) {
+      for (let j = 0; j < columns; j++) {
+        const index = indices[i * columns + j];
+        if (i + 1 < columns) link(index, indices[(i + 1) * columns + j]);
+        if (j + 1 < columns) link(index, indices[i * columns + j + 1]);
+      }
+    }
+
+    this.streetGrid = { nodes, neighbors };
+    return this.streetGrid;
+  }
+
+  // Whether a straight line between two points passes no building taller than the line
+  // (used for guard vision)
+  hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const candidates = this.buildingIndex
+      ? this.buildingIndex.query(Math.min(from.x, to.x), Math.min(from.z, to.z), Math.max(from.x, to.x), Math.max(from.z, to.z))
+      : this.buildings;
+
+    for (const building of candidates) {
+      const halfW = building.width / 2;
+      const halfD = building.depth / 2;
+
+      // Slab test: the part of the line (t in 0..1) inside the footprint
+      let tMin = 0;
+      let tMax = 1;
+      const slabs: [number, number, number][] = [
+        [from.x - building.position.x, dx, halfW],
+        [from.z - building.position.z, dz, halfD],
+      ];
+      let misses = false;
+      for (const [offset, direction, half] of slabs) {
+        if (Math.abs(direction) < 1e-9) {
+          if (Math.abs(offset) > half) misses = true;
+          continue;
+        }
+        let t1 = (-half - offset) / direction;
+        let t2 = (half - offset) / direction;
+        if (t1 > t2) [t1, t2] = [t2, t1];
+        tMin = Math.max(tMin, t1);
+        tMax = Math.min(tMax, t2);
+      }
+      if (misses || tMin > tMax) continue;
+
+      // Blocked if the line is below the roof anywhere over the footprint
+      const lowest = Math.min(
+        THREE.MathUtils.lerp(from.y, to.y, tMin),
+        THREE.MathUtils.lerp(from.y, to.y, tMax)
+      );
+      if (lowest < CityLayout.getRoofHeight(building)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Get building at position (for climbing). Buildings whose roof isn't higher than
+  // `aboveHeight` are skipped, so the roof the player stands on doesn't count.
+  getBuildingAt(
+    position: THREE.Vector3,
+    radius: number,
+    aboveHeight = -Infinity
+  ): BuildingInfo | null {
+    for (const building of this.buildingsNear(position.x, position.z, radius)) {
+      const halfW = building.width / 2 + radius;
+      const halfD = building.depth / 2 + radius;
+      const roofHeight = CityLayout.getRoofHeight(building);
+
+      if (
+        roofHeight > aboveHeight &&
+        position.x > building.position.x - halfW &&
+        position.x < building.position.x + halfW &&
+        position.z > building.position.z - halfD &&
+        position.z < building.position.z + halfD
+      ) {
+        return {
+          height: building.height,
+          roofHeight,
+          position: building.position.clone(),
+          width: building.width,
+          depth: building.depth,
+          type: building.type,
+        };
+      }
+    }
+    return null;
+  }
+
+  // Height of the surface under a point: the highest flat roof the feet are on
+  // (or just above), otherwise the street (0)
+  getGroundHeight(position: THREE.Vector3, feetHeight: number): number {
+    let ground = 0;
+    for (const building of this.buildingsNear(position.x, position.z, 0)) {
+      if (building.type === 'pyramid') continue; // Pointed roofs can't be stood on
+
+      const roofHeight = CityLayout.getRoofHeight(building);
+      if (
+        roofHeight > ground &&
+        roofHeight <= feetHeight + CityLayout.STEP_HEIGHT &&
+        Math.abs(position.x - building.position.x) < building.width / 2 &&
+        Math.abs(position.z - building.position.z) < building.depth / 2
+      ) {
+        ground = roofHeight;
+      }
+    }
+    return ground;
+  }
+
+  // Check collision for player movement. Buildings the feet are above (standing on or
+  // jumping over a roof) don't block.
+  checkCollision(position: THREE.Vector3, radius: number, feetHeight = 0): THREE.Vector3 | null {
+    // Check buildings
+    for (const building of this.buildingsNear(position.x, position.z, radius)) {
+      if (feetHeight >= CityLayout.getRoofHeight(building) - CityLayout.STEP_HEIGHT) continue;
+
+      const halfW = building.width / 2 + radius;
+      const halfD = building.depth / 2 + radius;
+
+      // Check if inside building bounds
+      if (
+        position.x > building.position.x - halfW &&
+        position.x < building.position.x + halfW &&
+        position.z > building.position.z - halfD &&
+        position.z < building.position.z + halfD
+      ) {
+        // Push out to nearest edge
+        const dx1 = position.x - (building.position.x - halfW);
+        const dx2 = (building.position.x + halfW) - position.x;
+        const dz1 = position.z - (building.position.z - halfD);
+        const dz2 = (building.position.z + halfD) - position.z;
+
+        const minDist = Math.min(dx1, dx2, dz1, dz2);
+        const pushOut = new THREE.Vector3();
+
+        if (minDist === dx1) pushOut.x = -dx1;
+        else if (minDist === dx2) pushOut.x = dx2;
+        else if (minDist === dz1) pushOut.z = -dz1;
+        else pushOut.z = dz2;
+
+        return pushOut;
+      }
+    }
+
+    // DISABLED: Landmark collision checks (landmarks are visually disabled)
+    // Check landmark tower collision (circular)
+    /*
+    const towerX = 50;
+    const towerZ = 50;
+    const towerRadius = 10 + radius;
+    let dx = position.x - towerX;
+    let dz = position.z - towerZ;
+    let distSq = dx * dx + dz * dz;
+    if (distSq < towerRadius * towerRadius) {
+      const dist = Math.sqrt(distSq);
+      const pushDist = towerRadius - dist;
+      const pushOut = new THREE.Vector3(
+        (dx / dist) * pushDist,
+        0,
+        (dz / dist) * pushDist
+      );
+      return pushOut;
+    }
+
+    // Check pyramid monument collision (approximate as circle)
+    const pyramidX = -120;
+    const pyramidZ = -120;
+    const pyramidRadius = 42 + radius;
+    dx = position.x - pyramidX;
+    dz = position.z - pyramidZ;
+    distSq = dx * dx + dz * dz;
+    if (distSq < pyramidRadius * pyramidRadius) {
+      const dist = Math.sqrt(distSq);
+      const pushDist = pyramidRadius - dist;
+      return new THREE.Vector3((dx / dist) * pushDist, 0, (dz / dist) * pushDist);
+    }
+
+    // Check dome collision (circular)
+    const domeX = 130;
+    const domeZ = -100;
+    const domeRadius = 37 + radius;
+    dx = position.x - domeX;
+    dz = position.z - domeZ;
+    distSq = dx * dx + dz * dz;
+    if (distSq < domeRadius * domeRadius) {
+      const dist = Math.sqrt(distSq);
+      const pushDist = domeRadius - dist;
+      return new THREE.Vector3((dx / dist) * pushDist, 0, (dz / dist) * pushDist);
+    }
+    */
+
+    return null;
+  }
+
+  // Where an L-shaped building's wing stands (null for other buildings). Wings are only
+  // drawn (the 3D city and the map) - collision uses the main footprint.
+  static getWingFootprint(building: Building): Footprint | null {
+    if (building.type !== 'lshaped') return null;
+
+    const width = building.wingWidth || building.width * 0.5;
+    const depth = building.wingDepth || building.depth * 0.5;
+    let x = building.position.x;
+    let z = building.position.z;
+    const dir = building.wingDirection || 0;
+
+    if (dir === 0) {
+      x += building.width / 2 + width / 2 - 1;
+      z += building.depth / 2 - depth / 2;
+    } else if (dir === 1) {
+      x -= building.width / 2 + width / 2 - 1;
+      z += building.depth / 2 - depth / 2;
+    } else if (dir === 2) {
+      x += building.width / 2 - width / 2;
+      z -= building.depth / 2 + depth / 2 - 1;
+    } else {
+      x -= building.width / 2 + width / 2 - 1;
+      z -= building.depth / 2 + depth / 2 - 1;
+    }
+    return { x, z, width, depth };
+  }
+
+  // Buildings whose footprint may come within `distance` of a point (all of them during generation)
+  private buildingsNear(x: number, z: number, distance: number): Building[] {
+    return this.buildingIndex ? this.buildingIndex.queryAround(x, z, distance) : this.buildings;
+  }
+
+  private isStreetClear(point: THREE.Vector3): boolean {
+    return !this.isInsideBuilding(point, CityLayout.STREET_CLEARANCE) &&
+      !(this.water && this.water.isInWater(point));
+  }
+
+  private isStreetSegmentClear(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const steps = Math.ceil(from.distanceTo(to) / CityLayout.STREET_CLEARANCE);
+    const point = new THREE.Vector3();
+    for (let s = 1; s < steps; s++) {
+      point.lerpVectors(from, to, s / steps);
+      if (!this.isStreetClear(point)) return false;
+    }
+    return true;
+  }
+
+  // Top of a building - pyramid roofs add a cone 30% of the body height (see City)
+  private static getRoofHeight(building: Building): number {
+    const top = building.position.y + building.height / 2;
+    return building.type === 'pyramid' ? top + building.height * 0.3 : top;
+  }
+}
@@ -0,0 +1,272 @@
+import * as THREE from 'three';
+import { City } from './City';
+import { FogOfWar } from './FogOfWar';
+import { MapDrawing } from './MapDrawing';
+import { Water } from './Water';
+import { Waypoints } from './Waypoints';
+
+/**
+ * Full-screen map of the revealed city: buildings, parks, water and the player's trail
+ * under the fog of war, with pan (drag), zoom (wheel or buttons) and waypoints (click to
+ * place, click one to remove). Oriented like the minimap. The run keeps going while it's open.
+ */
+export class CityMap {
+  private static readonly MIN_ZOOM = 0.5; // Pixels per meter
+  private static readonly MAX_ZOOM = 12;
+  private static readonly BUTTON_ZOOM = 1.5;
+  private static readonly CLICK_TOLERANCE = 5; // Pixels a press can move and still count as a click
+  private static readonly WAYPOINT_HIT_RADIUS = 12; // Pixels
+  private static readonly UNEXPLORED_COLOR = [17, 17, 24];
+  private static readonly HINT = 'Drag to pan • scroll to zoom • click to place a waypoint, click it again to remove it';
+
+  private overlay: HTMLElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private hint: HTMLElement | null;
+  private fogCanvas: HTMLCanvasElement;
+  private fogCtx: CanvasRenderingContext2D;
+  private fogImage: ImageData | null = null;
+
+  private fogOfWar: FogOfWar;
+  private city: City;
+  private water: Water;
+  private waypoints: Waypoints;
+
+  private opened = false;
+  private center = new THREE.Vector2(); // World x/z at the middle of the screen
+  private zoom = 2;
+  private dragStart: { x: number; y: number } | null = null;
+  private dragLast = { x: 0, y: 0 };
+  private closeListeners: (() => void)[] = [];
+  private listenerScope = new AbortController(); // Aborted on dispose - the elements outlive the game
+
+  constructor(fogOfWar: FogOfWar, city: City, water: Water, waypoints: Waypoints) {
+    this.fogOfWar = fogOfWar;
+    this.city = city;
+    this.water = water;
+    this.waypoints = waypoints;
+
+    this.overlay = document.getElementById('city-map')!;
+    this.canvas = document.getElementById('city-map-canvas') as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    this.hint = document.getElementById('city-map-hint');
+    this.fogCanvas = document.createElement('canvas');
+    this.fogCtx = this.fogCanvas.getContext('2d')!;
+
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    const { signal } = this.listenerScope;
+    this.canvas.addEventListener('pointerdown', (e) => {
+      this.canvas.setPointerCapture(e.pointerId);
+      this.dragStart = { x: e.offsetX, y: e.offsetY };
+      this.dragLast = { x: e.offsetX, y: e.offsetY };
+    }, { signal });
+    this.canvas.addEventListener('pointermove', (e) => {
+      if (!this.dragStart) return;
+      this.center.x += (e.offsetX - this.dragLast.x) / this.zoom;
+      this.center.y += (e.offsetY - this.dragLast.y) / this.zoom;
+      this.dragLast = { x: e.offsetX, y: e.offsetY };
+    }, { signal });
+    this.canvas.addEventListener('pointerup', (e) => {
+      if (!this.dragStart) return;
+      const moved = Math.hypot(e.offsetX - this.dragStart.x, e.offsetY - this.dragStart.y);
+      this.dragStart = null;
+      if (moved < CityMap.CLICK_TOLERANCE) this.onClick(e.offsetX, e.offsetY);
+    }, { signal });
+    this.canvas.addEventListener('pointercancel', () => {
+      this.dragStart = null;
+    }, { signal });
+    this.canvas.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      this.zoomAt(Math.exp(-e.deltaY * 0.0015), e.offsetX, e.offsetY);
+    }, { passive: false, signal });
+
+    const button = (id: string, action: () => void) => {
+      document.getElementById(id)?.addEventListener('click', action, { signal });
+    };
+    button('city-map-zoom-in', () => this.zoomAt(CityMap.BUTTON_ZOOM));
+    button('city-map-zoom-out', () => this.zoomAt(1 / CityMap.BUTTON_ZOOM));
+    button('city-map-clear', () => this.waypoints.clear());
+    button('city-map-close', () => this.close());
+
+    document.addEventListener('keydown', (e) => {
+      if (this.opened && e.code === 'Escape') this.close();
+    }, { signal });
+    window.addEventListener('resize', () => {
+      if (this.opened) this.resize();
+    }, { signal });
+  }
+
+  /**
+   * Show the map centered on a point (the player)
+   */
+  open(center: THREE.Vector3): void {
+    if (this.opened) return;
+    this.opened = true;
+    this.center.set(center.x, center.z);
+    this.dragStart = null;
+    if (this.hint) this.hint.textContent = CityMap.HINT;
+    this.overlay.classList.remove('hidden');
+    this.resize();
+  }
+
+  close(): void {
+    if (!this.opened) return;
+    this.opened = false;
+    this.overlay.classList.add('hidden');
+    this.closeListeners.forEach(listener => listener());
+  }
+
+  isOpen(): boolean {
+    return this.opened;
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * Draw the map (only does anything while it's open)
+   */
+  render(
+    playerPos: THREE.Vector3,
+    playerRotation: number,
+    collectibles: { getPosition: () => THREE.Vector3; isCollected: boolean }[],
+    trail: THREE.Vector3[]
+  ): void {
+    if (!this.opened) return;
+
+    const ctx = this.ctx;
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    const pixelRatio = this.canvas.width / Math.max(1, width);
+    const layout = this.city.getLayout();
+    const half = layout.size / 2;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    const [r, g, b] = CityMap.UNEXPLORED_COLOR;
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    ctx.fillRect(0, 0, width, height);
+
+    // The city in world units, flipped on both axes like the minimap
+    ctx.save();
+    ctx.transform(-this.zoom, 0, 0, -this.zoom, width / 2 + this.center.x * this.zoom, height / 2 + this.center.y * this.zoom);
+    MapDrawing.drawCity(ctx, layout, this.water.getWaterBodies());
+    MapDrawing.drawPath(ctx, trail, 2, this.zoom);
+
+    // Unexplored areas stay hidden
+    this.updateFogImage();
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(this.fogCanvas, -half, -half, layout.size, layout.size);
+    ctx.restore();
+
+    // Markers keep their size at any zoom
+    ctx.fillStyle = '#00ffaa';
+    collectibles.forEach((collectible) => {
+      const position = collectible.getPosition();
+      if (collectible.isCollected || !this.fogOfWar.isExplored(position.x, position.z)) return;
+      const [x, y] = this.toScreen(position.x, position.z);
+      ctx.beginPath();
+      ctx.arc(x, y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    this.waypoints.getPositions().forEach((position, index) => {
+      const [x, y] = this.toScreen(position.x, position.z);
+      ctx.fillStyle = Waypoints.COLOR;
+      ctx.beginPath();
+      ctx.arc(x, y, 8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000000';
+      ctx.fillText(String(index + 1), x, y);
+    });
+
+    const [px, py] = this.toScreen(playerPos.x, playerPos.z);
+    ctx.save();
+    ctx.translate(px, py);
+    ctx.rotate(-playerRotation);
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.moveTo(0, -9);
+    ctx.lineTo(-6, 6);
+    ctx.lineTo(6, 6);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  dispose(): void {
+    this.close();
+    this.closeListeners = [];
+    this.listenerScope.abort();
+  }
+
+  private onClick(x: number, y: number): void {
+    const [worldX, worldZ] = this.toWorld(x, y);
+    const existing = this.waypoints.findNear(worldX, worldZ, CityMap.WAYPOINT_HIT_RADIUS / this.zoom);
+    if (existing >= 0) {
+      this.waypoints.remove(existing);
+    } else if (!this.waypoints.add(worldX, worldZ) && this.hint) {
+      this.hint.textContent = `Up to ${Waypoints.MAX_WAYPOINTS} waypoints - click one to remove it`;
+    }
+  }
+
+  // Zoom around a screen point (the middle by default), keeping what's under it in place
+  private zoomAt(factor: number, x = this.canvas.clientWidth / 2, y = this.canvas.clientHeight / 2): void {
+    const [worldX, worldZ] = this.toWorld(x, y);
+    this.zoom = THREE.MathUtils.clamp(this.zoom * factor, CityMap.MIN_ZOOM, CityMap.MAX_ZOOM);
+    this.center.set(
+      worldX + (x - this.canvas.clientWidth / 2) / this.zoom,
+      worldZ + (y - this.canvas.clientHeight / 2) / this.zoom
+    );
+  }
+
+  private toScreen(worldX: number, worldZ: number): [number, number] {
+    return [
+      this.canvas.clientWidth / 2 + (this.center.x - worldX) * this.zoom,
+      this.canvas.clientHeight / 2 + (this.center.y - worldZ) * this.zoom,
+    ];
+  }
+
+  private toWorld(x: number, y: number): [number, number] {
+    return [
+      this.center.x - (x - this.canvas.clientWidth / 2) / this.zoom,
+      this.center.y - (y - this.canvas.clientHeight / 2) / this.zoom,
+    ];
+  }
+
+  private resize(): void {
+    const pixelRatio = Math.min(window.devicePixelRatio, 2);
+    this.canvas.width = Math.round(this.canvas.clientWidth * pixelRatio);
+    this.canvas.height = Math.round(this.canvas.clientHeight * pixelRatio);
+  }
+
+  // Fog texture as an image: unexplored texels opaque, explored ones clear
+  private updateFogImage(): void {
+    const texture = this.fogOfWar.getTexture();
+    const fogData = texture.image.data as Uint8Array;
+    const resolution = texture.image.width;
+    if (!this.fogImage || this.fogImage.width !== resolution) {
+      this.fogCanvas.width = resolution;
+      this.fogCanvas.height = resolution;
+      this.fogImage = this.fogCtx.createImageData(resolution, resolution);
+      const [r, g, b] = CityMap.UNEXPLORED_COLOR;
+      for (let i = 0; i < resolution * resolution; i++) {
+        this.fogImage.data[i * 4] = r;
+        this.fogImage.data[i * 4 + 1] = g;
+        this.fogImage.data[i * 4 + 2] = b;
+      }
+    }
+
+    const pixels = this.fogImage.data;
+    for (let i = 0; i < fogData.length; i++) {
+      pixels[i * 4 + 3] = fogData[i];
+    }
+    this.fogCtx.putImageData(this.fogImage, 0, 0);
+  }
+}
@@ -65,7 +65,6 @@ export class Collectible {
   private config: FragmentConfig;
 
   // Settings
-  private readonly COLLECTION_RADIUS = 6; // Increased to collect through walls
   private readonly BOB_SPEED = 2;
   private readonly BOB_AMOUNT = 0.5;
   private readonly ROTATE_SPEED = 1.5;
@@ -355,24 +354,16 @@ export class Collectible {
     }
   }
 
-  checkCollection(playerPosition: THREE.Vector3): boolean {
-    if (this.isCollected) return false;
+  /**
+   * Fade hidden fragments in as the player gets close (pickups are decided by Simulation)
+   */
+  updateVisibility(playerPosition: THREE.Vector3): void {
+    if (this.isCollected || this.fragmentType !== 'hidden') return;
 
     const distance = this.position.distanceTo(
       new THREE.Vector3(playerPosition.x, this.position.y, playerPosition.z)
     );
-
-    // Update hidden fragment visibility
-    if (this.fragmentType === 'hidden') {
-      this.updateHiddenVisibility(distance);
-    }
-
-    if (distance < this.COLLECTION_RADIUS) {
-      this.collect();
-      return true;
-    }
-
-    return false;
+    this.updateHiddenVisibility(distance);
   }
 
   private updateHiddenVisibility(distanceToPlayer: number): void {
@@ -397,15 +388,25 @@ export class Collectible {
     }
   }
 
-  private collect(): void {
-    this.isCollected = true;
-
+  /**
+   * Picked up: burst of particles and a light beam, then hide
+   */
+  collect(): void {
     // Spawn particle explosion
     this.spawnParticles();
 
     // Create light beam shooting upward
     this.createLightBeam();
 
+    this.markCollected();
+  }
+
+  /**
+   * Mark as collected without the pickup effects (restoring a saved run)
+   */
+  markCollected(): void {
+    this.isCollected = true;
+
     // Hide meshes
     this.mesh.visible = false;
     this.glowMesh.visible = false;
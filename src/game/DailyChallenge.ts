@@ -0,0 +1,64 @@
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Daily challenge: one shared city per UTC day, with its own leaderboard bucket
+ */
+export class DailyChallenge {
+  static readonly DIFFICULTY = 'daily';
+  static readonly RETENTION_DAYS = 7; // How many past days of daily scores to keep
+  static readonly SUBMISSION_DAYS = 1; // Runs are accepted until this many days after the challenge (late finishes)
+  private static readonly ID_PATTERN = /^daily-(\d{4}-\d{2}-\d{2})$/;
+
+  /**
+   * Challenge id for a given day, e.g. "daily-2026-02-01" (UTC date)
+   */
+  static getChallengeId(date: Date = new Date()): string {
+    return `daily-${date.toISOString().slice(0, 10)}`;
+  }
+
+  /**
+   * Seed shared by everyone playing this challenge
+   */
+  static getSeed(challengeId: string): number {
+    return SeededRandom.hashString(challengeId);
+  }
+
+  /**
+   * UTC date label of a challenge id ("2026-02-01")
+   */
+  static getDateLabel(challengeId: string): string {
+    const match = this.ID_PATTERN.exec(challengeId);
+    return match ? match[1] : challengeId;
+  }
+
+  static isValidId(challengeId: unknown): challengeId is string {
+    if (typeof challengeId !== 'string') return false;
+    const match = this.ID_PATTERN.exec(challengeId);
+    return !!match && !isNaN(Date.parse(`${match[1]}T00:00:00Z`));
+  }
+
+  /**
+   * Days between the challenge date and now (0 = today, negative = future)
+   */
+  static getAgeInDays(challengeId: string, now: Date = new Date()): number {
+    const start = Date.parse(`${this.getDateLabel(challengeId)}T00:00:00Z`);
+    const today = Date.parse(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+    return Math.round((today - start) / 86400000);
+  }
+
+  /**
+   * Whether runs of a challenge are still accepted by the score API
+   */
+  static isOpen(challengeId: string, now: Date = new Date()): boolean {
+    const age = this.getAgeInDays(challengeId, now);
+    return age >= 0 && age <= this.SUBMISSION_DAYS;
+  }
+
+  /**
+   * Whether a challenge is still within the leaderboard retention window
+   */
+  static isRecent(challengeId: string, now: Date = new Date()): boolean {
+    const age = this.getAgeInDays(challengeId, now);
+    return age >= 0 && age < this.RETENTION_DAYS;
+  }
+}
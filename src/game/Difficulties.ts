@@ -0,0 +1,71 @@
+// What happens when a guard catches the player
+export type GuardConsequence = 'drainStamina' | 'returnToPark';
+
+// Guard patrols (see Guard.ts)
+export interface GuardSettings {
+  count: number;
+  visionDistance: number;
+  onCaught: GuardConsequence;
+}
+
+// Difficulty settings interface
+export interface DifficultySettings {
+  citySize: number;
+  fragmentCount: number;
+  buildingDensity: number;
+  fogClearRadius: number;
+  guards?: GuardSettings; // No guards if omitted
+  seed?: number; // Layout seed - same seed = same city, water and fragments (random if omitted)
+  challengeId?: string; // Set for daily challenge runs (ranked on their own leaderboard)
+}
+
+// Difficulty presets (shared with the score API so runs can be re-derived server-side)
+export const DIFFICULTIES: Record<string, DifficultySettings> = {
+  dev: {
+    citySize: 200,
+    fragmentCount: 1,
+    buildingDensity: 0.3,
+    fogClearRadius: 50,
+  },
+  easy: {
+    citySize: 300,
+    fragmentCount: 5,
+    buildingDensity: 0.5,
+    fogClearRadius: 35,
+    guards: { count: 3, visionDistance: 20, onCaught: 'drainStamina' },
+  },
+  normal: {
+    citySize: 400,
+    fragmentCount: 7,
+    buildingDensity: 0.7,
+    fogClearRadius: 25,
+    guards: { count: 5, visionDistance: 25, onCaught: 'drainStamina' },
+  },
+  hard: {
+    citySize: 500,
+    fragmentCount: 10,
+    buildingDensity: 0.8,
+    fogClearRadius: 18,
+    guards: { count: 7, visionDistance: 30, onCaught: 'returnToPark' },
+  },
+  // Daily challenge: normal settings on a city seeded from the UTC date
+  daily: {
+    citySize: 400,
+    fragmentCount: 7,
+    buildingDensity: 0.7,
+    fogClearRadius: 25,
+    guards: { count: 5, visionDistance: 25, onCaught: 'drainStamina' },
+  },
+};
+
+// Local testing only - never accepted on the global leaderboard
+const UNRANKED_DIFFICULTIES = ['dev'];
+
+// Own keys only - names like "constructor" or "__proto__" come in from requests and saves too
+export function isKnownDifficulty(difficulty: string): boolean {
+  return Object.prototype.hasOwnProperty.call(DIFFICULTIES, difficulty);
+}
+
+export function isRankedDifficulty(difficulty: string): boolean {
+  return isKnownDifficulty(difficulty) && !UNRANKED_DIFFICULTIES.includes(difficulty);
+}
@@ -1,5 +1,25 @@
 import * as THREE from 'three';
 
+/**
+ * Saved fog state - both layers run-length encoded, then base64
+ */
+export interface FogSnapshot {
+  resolution: number;
+  data: string;
+  corruption: string;
+  corruptionTimer: number;
+}
+
+/**
+ * Texels whose fog changed (inclusive texture coordinates)
+ */
+export interface FogChange {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
 export class FogOfWar {
   private resolution: number;
   private worldSize: number;
@@ -7,16 +27,21 @@ export class FogOfWar {
   private corruptionData: Uint8Array;
   private texture: THREE.DataTexture;
   private corruptionTexture: THREE.DataTexture;
-  private pixelsCleared = 0;
+  private exploredPixels = 0; // Texels below the explored threshold, kept up to date by clearAt()
   private totalPixels: number;
+  // Texels whose corruption can still change - the only ones spreadCorruption() visits
+  private corruptionFront: number[] = [];
+  private inCorruptionFront: Uint8Array;
   private corruptionTimer = 0;
   private readonly CORRUPTION_INTERVAL = 2; // Spread corruption every 2 seconds
   private readonly CORRUPTION_RATE = 15; // Amount to increase corruption per tick
+  private changeListeners: ((change: FogChange) => void)[] = [];
 
   constructor(resolution: number, worldSize: number) {
     this.resolution = resolution;
     this.worldSize = worldSize;
     this.totalPixels = resolution * resolution;
+    this.inCorruptionFront = new Uint8Array(this.totalPixels);
 
     // Create fog data (255 = fully fogged, 0 = clear)
     this.data = new Uint8Array(this.totalPixels);
@@ -53,6 +78,8 @@ export class FogOfWar {
     this.corruptionTexture.magFilter = THREE.LinearFilter;
     this.corruptionTexture.minFilter = THREE.LinearFilter;
     this.corruptionTexture.needsUpdate = true;
+
+    this.rebuildCorruptionFront();
   }
 
   /**
@@ -66,6 +93,7 @@ export class FogOfWar {
     const texRadius = (radius / this.worldSize) * this.resolution;
 
     // Paint circle on texture
+    let changed = false;
     const minX = Math.max(0, Math.floor(texX - texRadius));
     const maxX = Math.min(this.resolution - 1, Math.ceil(texX + texRadius));
     const minZ = Math.max(0, Math.floor(texZ - texRadius));
@@ -87,17 +115,36 @@ export class FogOfWar {
           const newValue = Math.max(0, oldValue - clearAmount);
 
           if (newValue < oldValue) {
-            // Track cleared pixels for exploration %
-            if (oldValue > 128 && newValue <= 128) {
-              this.pixelsCleared++;
+            // Track explored pixels for exploration %
+            if (oldValue >= 128 && newValue < 128) {
+              this.exploredPixels++;
+            }
+            // Newly explored corruption starts fading
+            if (oldValue > 128 && newValue <= 128 && this.corruptionData[index] > 0) {
+              this.addToCorruptionFront(index);
             }
             this.data[index] = newValue;
+            changed = true;
           }
         }
       }
     }
 
     this.texture.needsUpdate = true;
+    if (changed) {
+      this.notifyChange({ minX, minZ, maxX, maxZ });
+    }
+  }
+
+  /**
+   * Called with the changed texels whenever the fog layer changes (not corruption)
+   */
+  onChange(listener: (change: FogChange) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  private notifyChange(change: FogChange = { minX: 0, minZ: 0, maxX: this.resolution - 1, maxZ: this.resolution - 1 }): void {
+    this.changeListeners.forEach(listener => listener(change));
   }
 
   /**
@@ -111,11 +158,7 @@ export class FogOfWar {
    * Get percentage of map explored
    */
   getExploredPercent(): number {
-    let cleared = 0;
-    for (let i = 0; i < this.totalPixels; i++) {
-      if (this.data[i] < 128) cleared++;
-    }
-    return (cleared / this.totalPixels) * 100;
+    return (this.exploredPixels / this.totalPixels) * 100;
   }
 
   /**
@@ -124,18 +167,108 @@ export class FogOfWar {
   reset(): void {
     this.data.fill(255);
     this.corruptionData.fill(0);
-    this.pixelsCleared = 0;
+    this.exploredPixels = 0;
     this.corruptionTimer = 0;
+    this.rebuildCorruptionFront();
     this.texture.needsUpdate = true;
     this.corruptionTexture.needsUpdate = true;
+    this.notifyChange();
   }
 
   clearAll(): void {
     this.data.fill(0); // 0 = fully cleared/explored
     this.corruptionData.fill(0);
-    this.pixelsCleared = this.resolution * this.resolution;
+    this.exploredPixels = this.totalPixels;
+    this.corruptionFront = [];
+    this.inCorruptionFront.fill(0);
+    this.texture.needsUpdate = true;
+    this.corruptionTexture.needsUpdate = true;
+    this.notifyChange();
+  }
+
+  /**
+   * Compact copy of the fog and corruption layers (for saving a run)
+   */
+  serialize(): FogSnapshot {
+    return {
+      resolution: this.resolution,
+      data: FogOfWar.encode(this.data),
+      corruption: FogOfWar.encode(this.corruptionData),
+      corruptionTimer: this.corruptionTimer,
+    };
+  }
+
+  /**
+   * Restore layers saved with serialize(). Returns false (leaving the fog untouched)
+   * if the snapshot doesn't fit this fog.
+   */
+  restore(snapshot: FogSnapshot): boolean {
+    if (snapshot.resolution !== this.resolution) return false;
+
+    const data = FogOfWar.decode(snapshot.data, this.totalPixels);
+    const corruption = FogOfWar.decode(snapshot.corruption, this.totalPixels);
+    if (!data || !corruption) return false;
+
+    this.data.set(data);
+    this.corruptionData.set(corruption);
+    this.corruptionTimer = snapshot.corruptionTimer || 0;
+
+    this.exploredPixels = 0;
+    for (let i = 0; i < this.totalPixels; i++) {
+      if (this.data[i] < 128) this.exploredPixels++;
+    }
+    this.rebuildCorruptionFront();
+
     this.texture.needsUpdate = true;
     this.corruptionTexture.needsUpdate = true;
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Run-length encode as [value, count] byte pairs (runs capped at 255), then base64
+   */
+  private static encode(data: Uint8Array): string {
+    const runs: number[] = [];
+    let i = 0;
+    while (i < data.length) {
+      const value = data[i];
+      let count = 1;
+      while (count < 255 && i + count < data.length && data[i + count] === value) {
+        count++;
+      }
+      runs.push(value, count);
+      i += count;
+    }
+
+    // btoa() takes a binary string - build it in chunks to stay under argument limits
+    let binary = '';
+    for (let j = 0; j < runs.length; j += 8192) {
+      binary += String.fromCharCode(...runs.slice(j, j + 8192));
+    }
+    return btoa(binary);
+  }
+
+  private static decode(encoded: string, length: number): Uint8Array | null {
+    let binary: string;
+    try {
+      binary = atob(encoded);
+    } catch {
+      return null;
+    }
+    if (binary.length % 2 !== 0) return null;
+
+    const data = new Uint8Array(length);
+    let offset = 0;
+    for (let i = 0; i < binary.length; i += 2) {
+      const value = binary.charCodeAt(i);
+      const count = binary.charCodeAt(i + 1);
+      if (count === 0 || offset + count > length) return null;
+      data.fill(value, offset, offset + count);
+      offset += count;
+    }
+
+    return offset === length ? data : null;
   }
 
   /**
@@ -167,31 +300,99 @@ export class FogOfWar {
   }
 
   /**
-   * Spread corruption in unexplored areas
+   * Spread corruption in unexplored areas. Only texels on the corruption front are visited,
+   * and every texel sees its neighbors' values from the previous tick.
    */
   private spreadCorruption(): void {
-    // Start corruption from edges and spread inward in unexplored areas
-    for (let z = 0; z < this.resolution; z++) {
-      for (let x = 0; x < this.resolution; x++) {
-        const index = z * this.resolution + x;
-
-        // Only corrupt unexplored areas (fog value > 128)
-        if (this.data[index] > 128) {
-          // Check if near edge or near already corrupted area
-          const isEdge = x < 5 || x > this.resolution - 5 || z < 5 || z > this.resolution - 5;
-          const hasCorruptedNeighbor = this.hasCorruptedNeighbor(x, z);
-
-          if (isEdge || hasCorruptedNeighbor) {
-            this.corruptionData[index] = Math.min(255, this.corruptionData[index] + this.CORRUPTION_RATE);
-          }
-        } else {
-          // Explored areas lose corruption
-          this.corruptionData[index] = Math.max(0, this.corruptionData[index] - 30);
+    const texels = this.corruptionFront;
+    const updated = new Uint8Array(texels.length);
+    this.corruptionFront = [];
+
+    texels.forEach((index, i) => {
+      const value = this.corruptionData[index];
+      let stillChanging: boolean;
+
+      // Only corrupt unexplored areas (fog value > 128)
+      if (this.data[index] > 128) {
+        // Grow from the edges and next to already corrupted areas
+        stillChanging = value < 255 && this.canCorrupt(index);
+        updated[i] = stillChanging ? Math.min(255, value + this.CORRUPTION_RATE) : value;
+      } else {
+        // Explored areas lose corruption
+        updated[i] = Math.max(0, value - 30);
+        stillChanging = updated[i] > 0;
+      }
+
+      // Fully corrupted, faded out or cut off for now - neighbors bring it back when needed
+      if (stillChanging) {
+        this.corruptionFront.push(index);
+      } else {
+        this.inCorruptionFront[index] = 0;
+      }
+    });
+
+    texels.forEach((index, i) => {
+      const value = this.corruptionData[index];
+      this.corruptionData[index] = updated[i];
+
+      // Crossing the neighbor threshold lets corruption spread to the surrounding texels
+      if (value <= 100 && updated[i] > 100) {
+        this.addNeighborsToFront(index);
+      }
+    });
+
+    if (texels.length > 0) {
+      this.corruptionTexture.needsUpdate = true;
+    }
+  }
+
+  /**
+   * Unexplored texel on the map edge, or next to a corrupted one
+   */
+  private canCorrupt(index: number): boolean {
+    const x = index % this.resolution;
+    const z = Math.floor(index / this.resolution);
+    const isEdge = x < 5 || x > this.resolution - 5 || z < 5 || z > this.resolution - 5;
+    return isEdge || this.hasCorruptedNeighbor(x, z);
+  }
+
+  private addNeighborsToFront(index: number): void {
+    const x = index % this.resolution;
+    const z = Math.floor(index / this.resolution);
+    const offsets = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+    for (const [dx, dz] of offsets) {
+      const nx = x + dx;
+      const nz = z + dz;
+      if (nx >= 0 && nx < this.resolution && nz >= 0 && nz < this.resolution) {
+        const nIndex = nz * this.resolution + nx;
+        if (this.data[nIndex] > 128 && this.corruptionData[nIndex] < 255) {
+          this.addToCorruptionFront(nIndex);
         }
       }
     }
+  }
 
-    this.corruptionTexture.needsUpdate = true;
+  private addToCorruptionFront(index: number): void {
+    if (this.inCorruptionFront[index]) return;
+    this.inCorruptionFront[index] = 1;
+    this.corruptionFront.push(index);
+  }
+
+  /**
+   * Full scan for texels whose corruption can change (after reset/restore)
+   */
+  private rebuildCorruptionFront(): void {
+    this.corruptionFront = [];
+    this.inCorruptionFront.fill(0);
+    for (let index = 0; index < this.totalPixels; index++) {
+      const value = this.corruptionData[index];
+      const canChange = this.data[index] > 128
+        ? value < 255 && this.canCorrupt(index)
+        : value > 0;
+      if (canChange) {
+        this.addToCorruptionFront(index);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import { CityLayout } from './CityLayout';
+import { FragmentType } from './Collectible';
+import { NavigationGrid } from './NavigationGrid';
+import { PlayerPhysics } from './PlayerPhysics';
+import { SeededRandom } from './SeededRandom';
+
+export interface FragmentSpawn {
+  position: THREE.Vector3;
+  type: FragmentType;
+}
+
+/**
+ * Deterministic fragment placement. Only depends on the city layout and a seed,
+ * so the score API can re-derive exactly where a run's fragments were. With a
+ * navigation grid, spots the player can't walk to from the start are skipped.
+ */
+export class FragmentSpawner {
+  private static readonly MIN_DISTANCE = 40; // Minimum distance between collectibles
+  private static readonly MAX_ATTEMPTS = 200;
+  private static readonly ROOFTOP_CHANCE = 0.15;
+  private static readonly ROOFTOP_CANDIDATES = 5;
+  private static readonly PICKUP_REACH = 5; // Within the collection radius, so reaching this close picks it up
+
+  static generate(
+    layout: CityLayout,
+    citySize: number,
+    count: number,
+    seed: number,
+    navigation?: NavigationGrid
+  ): FragmentSpawn[] {
+    const spawns: FragmentSpawn[] = [];
+    const parkPositions = layout.getParkCenters();
+    const isReachable = (position: THREE.Vector3) => !navigation || navigation.isReachable(position, this.getWalkReach(layout, position));
+
+    // Parks for the fallback: the ones that can be walked to (all of them if none can)
+    const reachableParks = parkPositions.filter(park => isReachable(new THREE.Vector3(park.x, 2, park.y)));
+    const fallbackParks = reachableParks.length > 0 ? reachableParks : parkPositions;
+    const rng = new SeededRandom(seed);
+
+    for (let i = 0; i < count; i++) {
+      let position: THREE.Vector3;
+      let attempts = 0;
+
+      // Some fragments sit on climbable rooftops (never the first one)
+      const rooftop = i > 0 && rng.next() < this.ROOFTOP_CHANCE ? this.findRooftop(layout, spawns, rng, isReachable) : null;
+      const useRooftop = rooftop !== null;
+
+      // 60% chance to spawn in/near a park (except first fragment and rooftop)
+      const preferPark = i > 0 && !useRooftop && rng.next() < 0.6 && parkPositions.length > 0;
+
+      // Rooftop, or find a valid position at ground level
+      if (rooftop) {
+        position = rooftop;
+      } else {
+        do {
+          // First collectible spawns near origin
+          if (i === 0) {
+            position = new THREE.Vector3(
+              (rng.next() - 0.5) * 30,
+              2,
+              (rng.next() - 0.5) * 30
+            );
+          } else if (preferPark) {
+            // Spawn in or near a park
+            const randomPark = parkPositions[Math.floor(rng.next() * parkPositions.length)];
+            const angle = rng.next() * Math.PI * 2;
+            const dist = rng.next() * 35; // Within park radius + some margin
+            position = new THREE.Vector3(
+              randomPark.x + Math.cos(angle) * dist,
+              2,
+              randomPark.y + Math.sin(angle) * dist
+            );
+          } else {
+            // Random position across city
+            position = new THREE.Vector3(
+              (rng.next() - 0.5) * citySize * 0.8,
+              2,
+              (rng.next() - 0.5) * citySize * 0.8
+            );
+          }
+          attempts++;
+        } while (
+          (layout.isInsideBuilding(position, 30) || this.isTooCloseToOthers(position, spawns) || !isReachable(position)) &&
+          attempts < this.MAX_ATTEMPTS
+        );
+
+        // If we couldn't find a valid position, fall back to parks (always safe)
+        if (attempts >= this.MAX_ATTEMPTS && fallbackParks.length > 0) {
+          const randomPark = fallbackParks[Math.floor(rng.next() * fallbackParks.length)];
+          position = new THREE.Vector3(
+            randomPark.x + (rng.next() - 0.5) * 20,
+            2,
+            randomPark.y + (rng.next() - 0.5) * 20
+          );
+        }
+      }
+
+      // Determine fragment type: 70% common, 20% rare, 10% hidden
+      // Rooftop fragments are more likely to be rare
+      let type: FragmentType = 'common';
+      if (i > 0) {
+        const roll = rng.next();
+        if (useRooftop) {
+          // Rooftop: 40% rare, 20% hidden, 40% common
+          if (roll < 0.2) {
+            type = 'hidden';
+          } else if (roll < 0.6) {
+            type = 'rare';
+          }
+        } else {
+          if (roll < 0.1) {
+            type = 'hidden';
+          } else if (roll < 0.3) {
+            type = 'rare';
+          }
+        }
+      }
+
+      spawns.push({ position, type });
+    }
+
+    return spawns;
+  }
+
+  /**
+   * A climbable, reachable rooftop away from the other fragments, or null if none is free
+   */
+  private static findRooftop(
+    layout: CityLayout,
+    spawns: FragmentSpawn[],
+    rng: SeededRandom,
+    isReachable: (position: THREE.Vector3) => boolean
+  ): THREE.Vector3 | null {
+    const candidates = layout.getRooftopPositions(this.ROOFTOP_CANDIDATES, rng);
+    return candidates.find(position =>
+      !this.isTooCloseToOthers(position, spawns) && isReachable(position)
+    ) ?? null;
+  }
+
+  /**
+   * How close the street has to get to a fragment spot: within pickup range, or for a
+   * rooftop anywhere along its building's walls (the rest is climbing)
+   */
+  static getWalkReach(layout: CityLayout, position: THREE.Vector3): number {
+    const building = layout.getBuildingAt(new THREE.Vector3(position.x, 0, position.z), 0);
+    if (!building || position.y < building.roofHeight) return this.PICKUP_REACH;
+    return Math.hypot(building.width, building.depth) / 2 + PlayerPhysics.COLLISION_RADIUS + NavigationGrid.CELL_SIZE;
+  }
+
+  private static isTooCloseToOthers(position: THREE.Vector3, spawns: FragmentSpawn[]): boolean {
+    for (const spawn of spawns) {
+      const distance = new THREE.Vector2(
+        position.x - spawn.position.x,
+        position.z - spawn.position.z
+      ).length();
+
+      if (distance < this.MIN_DISTANCE) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
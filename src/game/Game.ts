@@ -7,16 +7,21 @@ import { ShaderPass } from 'three/addons/postprocessing/ShaderPass.js';
 import { City } from './City';
 import { FogOfWar } from './FogOfWar';
 import { Player } from './Player';
-import { Collectible, FragmentType } from './Collectible';
+import { Simulation, SimulationEvent } from './Simulation';
+import { InputManager } from './InputManager';
+import { TouchControls } from './TouchControls';
+import { Collectible } from './Collectible';
 import { Minimap } from './Minimap';
+import { CityMap } from './CityMap';
+import { Waypoints } from './Waypoints';
 import { FogParticles } from './FogParticles';
 import { ThemeManager, THEMES } from './ThemeManager';
 import { AudioManager } from './AudioManager';
-import { HighScoreManager } from './HighScoreManager';
+import { HighScoreManager, HighScore } from './HighScoreManager';
 import { GlobalLeaderboardManager } from './GlobalLeaderboardManager';
 import { Rain } from './Rain';
 import { Water } from './Water';
-// import { Guard } from './Guard'; // DISABLED
+import { Guard } from './Guard';
 import { WinSequence } from './WinSequence';
 import { Clouds } from './Clouds';
 import { Birds } from './Birds';
@@ -25,14 +30,14 @@ import { Moon } from './Moon';
 import { EmberParticles } from './EmberParticles';
 import { SteamVents } from './SteamVents';
 import { BreadcrumbTrail } from './BreadcrumbTrail';
-
-// Difficulty settings interface
-export interface DifficultySettings {
-  citySize: number;
-  fragmentCount: number;
-  buildingDensity: number;
-  fogClearRadius: number;
-}
+import { Ghost } from './Ghost';
+import { GhostRecorder } from './GhostRecorder';
+import { SeededRandom } from './SeededRandom';
+import { DailyChallenge } from './DailyChallenge';
+import { DifficultySettings } from './Difficulties';
+import { ScoreCalculator } from './ScoreCalculator';
+import { PlayerProfile } from './PlayerProfile';
+import { RunSave, RunSnapshot } from './RunSave';
 
 // Vignette shader
 const VignetteShader = {
@@ -72,11 +77,18 @@ export class Game {
   private composer!: EffectComposer;
   private bloomPass!: UnrealBloomPass;
 
+  // Gameplay rules and state; everything else here draws it or reacts to its events
+  private simulation: Simulation;
+
   private city: City;
   private fogOfWar: FogOfWar;
   private player: Player;
+  private input: InputManager;
+  private touchOnly: boolean; // Phones/tablets: on-screen controls, no pointer lock
   private collectibles: Collectible[] = [];
   private minimap: Minimap;
+  private cityMap: CityMap; // Full-screen map (the run keeps going while it's open)
+  private waypoints: Waypoints;
   private fogParticles: FogParticles;
   private themeManager!: ThemeManager;
   private ambientLight!: THREE.AmbientLight;
@@ -88,16 +100,13 @@ export class Game {
   private audioManager: AudioManager;
 
   private isRunning = false;
-  private gameTime = 0;
-  private fragmentsCollected = 0;
-  private totalPoints = 0;
-  private totalFragments: number;
 
-  // Speed bonus tracking
-  private lastFragmentTime = 0;
-  private speedBonusCount = 0;
-  private readonly SPEED_BONUS_WINDOW = 15; // seconds
-  private readonly SPEED_BONUS_POINTS = 500;
+  // Finished run waiting for the player to confirm their name on the win screen
+  private pendingSubmission: HighScore | null = null; // Held in the outbox until it's named
+
+  // Autosave (see RunSave) so a closed tab can be continued
+  private autosaveTimer = 0;
+  private readonly AUTOSAVE_INTERVAL = 10; // seconds
 
   // Slow-motion effect
   private timeScale = 1.0;
@@ -105,8 +114,13 @@ export class Game {
   private readonly SLOW_MOTION_DURATION = 0.2;
   private readonly SLOW_MOTION_SCALE = 0.3;
 
-  // No-pause bonus tracking
-  private hasPaused = false;
+  // Fixed-step simulation (game time not yet simulated carries over to the next frame)
+  private readonly FIXED_STEP = 1 / 60;
+  private readonly MAX_FRAME_TIME = 0.25; // Longer stalls (hidden tab, hitch) are dropped
+  private accumulator = 0;
+
+  // Pause menu (pointer lock lost, or Start on a gamepad)
+  private paused = false;
 
   // Screen shake
   private shakeIntensity = 0;
@@ -121,7 +135,9 @@ export class Game {
 
   // Water
   private water: Water;
-  // private guards: Guard; // DISABLED
+
+  // Guards (only on difficulties that have them)
+  private guards: Guard | null = null;
 
   // Atmosphere
   private clouds: Clouds;
@@ -132,9 +148,13 @@ export class Game {
   private steamVents: SteamVents;
   private breadcrumbTrail: BreadcrumbTrail;
 
-  // Win sequence
+  // Ghost racing: this run is recorded, and the best earlier run on the seed replays
+  private ghostRecorder = new GhostRecorder();
+  private ghost: Ghost | null = null;
+  private ghostSplit: number | null = null; // Seconds ahead (-) or behind (+) at the last pickup
+
+  // Win sequence (plays once the simulation is won)
   private winSequence!: WinSequence;
-  private winSequenceTriggered = false;
 
   // Preview mode (for start screen)
   private previewMode = false;
@@ -146,17 +166,18 @@ export class Game {
   // Settings
   private settings: DifficultySettings;
   private difficulty: string;
+  private seed: number;
 
   constructor(container: HTMLElement, settings?: DifficultySettings, difficulty: string = 'normal') {
     // Use provided settings or defaults
-    this.settings = settings || {
+    this.settings = { ...(settings || {
       citySize: 400,
       fragmentCount: 7,
       buildingDensity: 0.7,
       fogClearRadius: 25,
-    };
+    }) };
     this.difficulty = difficulty;
-    this.totalFragments = this.settings.fragmentCount;
+    this.seed = this.settings.seed ?? SeededRandom.randomSeed();
     this.clock = new THREE.Clock();
 
     // Renderer
@@ -185,24 +206,33 @@ export class Game {
     this.controls = new PointerLockControls(this.camera, document.body);
     this.scene.add(this.controls.object);
 
-    // Player
-    this.player = new Player(this.controls);
-
-    // Fog of War
-    this.fogOfWar = new FogOfWar(512, this.settings.citySize);
+    // Player (keyboard and gamepad input, plus on-screen controls on touch-only devices)
+    this.input = new InputManager();
+    this.touchOnly = TouchControls.isTouchOnlyDevice();
+    if (this.touchOnly) {
+      this.input.enableTouch();
+    }
+    document.body.classList.toggle('touch', this.touchOnly);
 
-    // Minimap
-    this.minimap = new Minimap(this.fogOfWar, this.settings.citySize);
+    // Simulation (city, water and fragment layout, fog of war, movement, pickups, scoring)
+    this.simulation = new Simulation(this.settings, this.seed);
+    this.simulation.onEvent((event) => this.onSimulationEvent(event));
+    this.fogOfWar = this.simulation.fog;
+    this.player = new Player(this.controls, this.input, this.simulation.player);
 
     // Create sunLight early (needed by Water for reflections)
     this.sunLight = new THREE.DirectionalLight(0xffffff, 0.8);
     this.sunLight.position.set(100, 200, 50);
 
-    // Water system (create BEFORE city so buildings can avoid water)
-    this.water = new Water(this.scene, this.settings.citySize, this.sunLight);
-
-    // City (pass water so it can avoid placing buildings in water)
-    this.city = new City(this.scene, this.settings.citySize, this.fogOfWar, this.settings.buildingDensity, this.water);
+    // Water and city meshes for the simulation's layouts
+    this.water = new Water(this.scene, this.simulation.getWater(), this.sunLight, SeededRandom.deriveSeed(this.seed, 'water'));
+    this.city = new City(
+      this.scene,
+      this.settings.citySize,
+      this.fogOfWar,
+      this.simulation.getCity(),
+      SeededRandom.deriveSeed(this.seed, 'city')
+    );
 
     // Fog Particles (reduced count for performance)
     this.fogParticles = new FogParticles(this.scene, this.settings.citySize, 200);
@@ -230,12 +260,20 @@ export class Game {
     // Breadcrumb trail showing player's path
     this.breadcrumbTrail = new BreadcrumbTrail(this.scene);
 
-    // Guards (DISABLED - removed due to bugs)
-    // const guardCount = this.difficulty === 'easy' ? 3 : this.difficulty === 'hard' ? 7 : 5;
-    // this.guards = new Guard(this.scene, this.settings.citySize, guardCount);
+    // Minimap and full-screen map (with the waypoints placed on it)
+    this.minimap = new Minimap(this.fogOfWar, this.city, this.water);
+    this.waypoints = new Waypoints(this.scene);
+    this.cityMap = new CityMap(this.fogOfWar, this.city, this.water, this.waypoints);
+    this.cityMap.onClose(() => this.onMapClosed());
+
+    // Guards patrolling the streets
+    if (this.settings.guards) {
+      this.guards = new Guard(this.scene, this.city, this.settings.guards, SeededRandom.deriveSeed(this.seed, 'guards'));
+    }
 
-    // Audio
+    // Audio (with positional sounds for this city)
     this.audioManager = new AudioManager();
+    this.setSoundEmitters();
 
     // Setup
     this.setupLighting();
@@ -341,108 +379,11 @@ export class Game {
     this.collectibles.forEach(c => c.remove(this.scene));
     this.collectibles = [];
 
-    const MIN_DISTANCE = 40; // Minimum distance between collectibles
-    const parkPositions = this.city.getParkCenters();
-
-    // Spawn new collectibles (all at ground level - no rooftop spawning)
-    for (let i = 0; i < this.totalFragments; i++) {
-      let position: THREE.Vector3;
-      let attempts = 0;
-      const maxAttempts = 200; // Increased for better validation
-
-      // No rooftop placement - all fragments at ground level
-      const useRooftop = false;
-
-      // 60% chance to spawn in/near a park (except first fragment and rooftop)
-      const preferPark = i > 0 && !useRooftop && Math.random() < 0.6 && parkPositions.length > 0;
-
-      // Find valid position (all ground level)
-      {
-        do {
-          // First collectible spawns near origin
-          if (i === 0) {
-            position = new THREE.Vector3(
-              (Math.random() - 0.5) * 30,
-              2,
-              (Math.random() - 0.5) * 30
-            );
-          } else if (preferPark) {
-            // Spawn in or near a park
-            const randomPark = parkPositions[Math.floor(Math.random() * parkPositions.length)];
-            const angle = Math.random() * Math.PI * 2;
-            const dist = Math.random() * 35; // Within park radius + some margin
-            position = new THREE.Vector3(
-              randomPark.x + Math.cos(angle) * dist,
-              2,
-              randomPark.y + Math.sin(angle) * dist
-            );
-          } else {
-            // Random position across city
-            position = new THREE.Vector3(
-              (Math.random() - 0.5) * this.settings.citySize * 0.8,
-              2,
-              (Math.random() - 0.5) * this.settings.citySize * 0.8
-            );
-          }
-          attempts++;
-        } while (
-          (this.city.isInsideBuilding(position, 30) || this.isTooCloseToOthers(position, MIN_DISTANCE)) &&
-          attempts < maxAttempts
-        );
-
-        // If we couldn't find a valid position, fall back to parks (always safe)
-        if (attempts >= maxAttempts) {
-          if (parkPositions.length > 0) {
-            const randomPark = parkPositions[Math.floor(Math.random() * parkPositions.length)];
-            position = new THREE.Vector3(
-              randomPark.x + (Math.random() - 0.5) * 20,
-              2,
-              randomPark.y + (Math.random() - 0.5) * 20
-            );
-          }
-        }
-      }
-
-      // Determine fragment type: 70% common, 20% rare, 10% hidden
-      // Rooftop fragments are more likely to be rare
-      let fragmentType: FragmentType = 'common';
-      if (i > 0) {
-        const roll = Math.random();
-        if (useRooftop) {
-          // Rooftop: 40% rare, 20% hidden, 40% common
-          if (roll < 0.2) {
-            fragmentType = 'hidden';
-          } else if (roll < 0.6) {
-            fragmentType = 'rare';
-          }
-        } else {
-          if (roll < 0.1) {
-            fragmentType = 'hidden';
-          } else if (roll < 0.3) {
-            fragmentType = 'rare';
-          }
-        }
-      }
-
-      const collectible = new Collectible(position, fragmentType);
+    this.simulation.getFragments().forEach((spawn) => {
+      const collectible = new Collectible(spawn.position, spawn.type);
       collectible.addToScene(this.scene);
       this.collectibles.push(collectible);
-    }
-  }
-
-  private isTooCloseToOthers(position: THREE.Vector3, minDistance: number): boolean {
-    for (const collectible of this.collectibles) {
-      const existingPos = collectible.getPosition();
-      const distance = new THREE.Vector2(
-        position.x - existingPos.x,
-        position.z - existingPos.z
-      ).length();
-
-      if (distance < minDistance) {
-        return true;
-      }
-    }
-    return false;
+    });
   }
 
   private setupEventListeners(): void {
@@ -457,44 +398,113 @@ export class Game {
 
     // Pointer lock change
     document.addEventListener('pointerlockchange', () => {
-      const pauseMenu = document.getElementById('pause-menu');
-      if (!document.pointerLockElement && this.isRunning) {
-        // Show pause menu when pointer lock is lost
-        if (pauseMenu) {
-          pauseMenu.style.display = 'flex';
-        }
-        // Track that the player has paused (for no-pause bonus)
-        if (!this.winSequence.getIsPlaying()) {
-          this.hasPaused = true;
-        }
-      } else {
-        // Hide pause menu when pointer lock is acquired
-        if (pauseMenu) {
-          pauseMenu.style.display = 'none';
-        }
+      if (!document.pointerLockElement && this.isRunning && !this.previewMode && !this.cityMap.isOpen()) {
+        // Pause when pointer lock is lost (the map releases it to use the mouse)
+        this.pause();
+      } else if (document.pointerLockElement && this.paused) {
+        // Resume when pointer lock is acquired
+        this.resume();
       }
     });
 
-    // Re-lock pointer on click when game is running
-    document.addEventListener('click', () => {
+    // Save the run when the tab is hidden or closed
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.saveRun();
+        // Without pointer lock nothing else pauses a touch game when switching apps
+        if (this.touchOnly && this.isRunning && !this.previewMode) {
+          this.pause();
+        }
+      }
+    });
+    window.addEventListener('pagehide', () => this.saveRun());
+
+    // Re-lock pointer on click when game is running (but not when changing settings in the pause menu)
+    document.addEventListener('click', (e) => {
+      if (e.target instanceof Element && e.target.closest('.pause-settings, #city-map')) return;
+      if (this.touchOnly) {
+        // Tap the pause menu to resume
+        if (this.paused) this.resume();
+        return;
+      }
       if (this.isRunning && !document.pointerLockElement) {
         this.controls.lock();
       }
     });
 
-    // Mute with M key
-    document.addEventListener('keydown', (e) => {
-      if (e.code === 'KeyM' && this.isRunning) {
+    // Mute (M / Back), screenshot (P / Y) and gamepad pause (Start)
+    this.input.onAction((action) => {
+      if (action === 'mute' && this.isRunning) {
         const isMuted = this.audioManager.toggleMute();
         console.log(`Audio: ${isMuted ? 'Muted' : 'Unmuted'}`);
-      }
-      if (e.code === 'KeyP') {
+      } else if (action === 'screenshot') {
         // Capture screenshot (works anytime)
         this.captureScreenshot();
+      } else if (action === 'map') {
+        this.toggleMap();
+      } else if (action === 'pause' && this.isRunning && !this.previewMode) {
+        if (this.paused) {
+          this.resume();
+        } else {
+          this.pause();
+        }
       }
     });
   }
 
+  private pause(): void {
+    if (this.paused || this.simulation.hasWon()) return;
+    this.paused = true;
+    this.cityMap.close();
+
+    const pauseMenu = document.getElementById('pause-menu');
+    if (pauseMenu) {
+      pauseMenu.style.display = 'flex';
+    }
+
+    // Track that the player has paused (for no-pause bonus)
+    this.simulation.markPaused();
+
+    if (document.pointerLockElement) {
+      this.controls.unlock();
+    }
+  }
+
+  private resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+
+    const pauseMenu = document.getElementById('pause-menu');
+    if (pauseMenu) {
+      pauseMenu.style.display = 'none';
+    }
+
+    // Gamepad and touch players don't need the mouse captured
+    if (!document.pointerLockElement && !this.input.isUsingGamepad() && !this.touchOnly) {
+      this.controls.lock();
+    }
+  }
+
+  private toggleMap(): void {
+    if (this.cityMap.isOpen()) {
+      this.cityMap.close();
+      return;
+    }
+    if (!this.isRunning || this.previewMode || this.paused || this.simulation.hasWon()) return;
+
+    this.cityMap.open(this.simulation.player.getPosition());
+    if (document.pointerLockElement) {
+      this.controls.unlock();
+    }
+  }
+
+  private onMapClosed(): void {
+    // Back to mouse look (closing the map with a key or click counts as a user gesture)
+    if (this.isRunning && !this.paused && !this.touchOnly && !this.input.isUsingGamepad() && !document.pointerLockElement) {
+      this.controls.lock();
+    }
+  }
+
   private captureScreenshot(): void {
     // Render current frame to canvas
     this.composer.render();
@@ -519,10 +529,33 @@ export class Game {
 
   start(): void {
     this.isRunning = true;
-    this.gameTime = 0;
-    this.fragmentsCollected = 0;
+    this.simulation.reset();
+    this.ghostRecorder.reset();
+    this.ghostRecorder.recordTheme(0, this.themeNames[this.currentThemeIndex]);
+
+    // A new run replaces the saved one
+    RunSave.clear();
+
+    this.launch();
+  }
+
+  /**
+   * Pick up a saved run. The game must have been created with the run's difficulty and seed.
+   */
+  continueRun(snapshot: RunSnapshot): void {
+    this.isRunning = true;
+    this.restoreSnapshot(snapshot);
+    this.launch();
+  }
+
+  private launch(): void {
+    this.autosaveTimer = 0;
+    this.accumulator = 0;
+    this.spawnGhost();
     this.clock.start();
-    this.controls.lock();
+    if (!this.touchOnly) {
+      this.controls.lock();
+    }
 
     // Initialize audio (must be after user interaction)
     this.audioManager.init();
@@ -533,6 +566,22 @@ export class Game {
     this.animate();
   }
 
+  /**
+   * Race the fastest earlier run on this seed, if one was recorded
+   */
+  private spawnGhost(): void {
+    this.ghost?.dispose();
+    this.ghost = null;
+    this.ghostSplit = null;
+
+    const best = HighScoreManager.getPersonalBest(this.difficulty, this.seed, this.settings.challengeId);
+    if (best) {
+      this.ghost = new Ghost(this.scene, best.ghost);
+      this.ghost.update(this.simulation.getTime(), 0);
+    }
+    document.getElementById('ghost-panel')?.classList.toggle('hidden', !this.ghost);
+  }
+
   private triggerFadeIn(): void {
     const fadeOverlay = document.getElementById('fade-overlay');
     if (!fadeOverlay) return;
@@ -552,30 +601,38 @@ export class Game {
     }, 1500); // Match the CSS transition duration
   }
 
-  restart(): void {
+  /**
+   * Restart with a fresh city. Pass a seed to replay a specific layout,
+   * otherwise a new random seed is rolled. Daily runs pass the challenge the seed belongs
+   * to (it changes at UTC midnight).
+   */
+  restart(seed?: number, challengeId?: string): void {
     // Unlock pointer so user can navigate UI
     this.controls.unlock();
 
     // Reset game state
-    this.gameTime = 0;
-    this.fragmentsCollected = 0;
-    this.totalPoints = 0;
-    this.winSequenceTriggered = false;
-    this.lastFragmentTime = 0;
-    this.speedBonusCount = 0;
+    this.releasePendingSubmission();
     this.slowMotionTimer = 0;
     this.timeScale = 1.0;
-    this.hasPaused = false;
+    this.paused = false;
     this.breadcrumbTrail.reset();
-
-    // Reset world
-    this.fogOfWar.reset();
-    this.city.regenerate();
+    this.cityMap.close();
+    this.waypoints.clear();
+
+    // New world (the simulation resets the fog, fragments and player with it)
+    this.seed = seed ?? SeededRandom.randomSeed();
+    this.settings = { ...this.settings, challengeId };
+    this.simulation.regenerate(this.seed);
+    this.water.regenerate(this.simulation.getWater(), SeededRandom.deriveSeed(this.seed, 'water'));
+    this.city.regenerate(this.simulation.getCity(), SeededRandom.deriveSeed(this.seed, 'city'));
+    this.guards?.regenerate(SeededRandom.deriveSeed(this.seed, 'guards'));
+    this.steamVents.clear();
+    this.placeRandomSteamVents();
+    this.setSoundEmitters();
     this.spawnCollectibles();
 
-    // Reset player
-    this.player.reset();
-    this.camera.position.set(0, 5, 0);
+    // Reset view
+    this.input.reset();
     this.camera.rotation.set(0, 0, 0);
 
     // Reset theme to default (day)
@@ -591,8 +648,9 @@ export class Game {
     this.isRaining = false;
     this.weatherTimer = 0;
 
-    // Reset audio proximity to stop any proximity pings
+    // Reset audio proximity to stop any proximity pings, and the music to exploring
     this.audioManager.setFragmentProximity(Infinity);
+    this.audioManager.setVictory(false);
 
     this.updateUI();
     this.start();
@@ -689,20 +747,18 @@ export class Game {
       this.timeScale = 1.0;
     }
 
-    this.gameTime += delta;
-
-    // Update player (freeze during win sequence)
-    let playerPos: THREE.Vector3;
-    if (this.winSequence.getIsPlaying()) {
-      // During win sequence, get position but don't process movement
-      playerPos = this.player.getPosition();
-    } else {
-      playerPos = this.player.update(delta, this.city);
+    // Gameplay advances in fixed steps of (slowed) game time, whatever the frame rate.
+    // Long stalls are capped rather than simulated in one huge jump.
+    this.accumulator += Math.min(delta, this.MAX_FRAME_TIME);
+    while (this.accumulator >= this.FIXED_STEP) {
+      this.fixedUpdate(this.FIXED_STEP);
+      this.accumulator -= this.FIXED_STEP;
     }
 
-    // Update fog of war
-    this.fogOfWar.clearAt(playerPos.x, playerPos.z, this.settings.fogClearRadius);
-    this.fogOfWar.updateCorruption(delta);
+    // Draw the camera between the last two steps (frozen while paused and during the win sequence)
+    const playerPos = this.isPlayerInControl()
+      ? this.player.interpolate(this.accumulator / this.FIXED_STEP)
+      : this.simulation.player.getPosition();
 
     // Calculate night amount based on current theme (night=1, neon=0.8, dusk=0.3, day=0)
     const currentTheme = this.themeNames[this.currentThemeIndex];
@@ -711,59 +767,19 @@ export class Game {
     else if (currentTheme === 'neon') nightAmount = 0.8;
     else if (currentTheme === 'dusk') nightAmount = 0.3;
 
-    this.city.updateFogUniforms(playerPos, nightAmount, this.gameTime);
+    this.city.updateFogUniforms(playerPos, nightAmount, this.simulation.getTime());
 
     // Enable torch light for dark themes
     this.torchLight.visible = nightAmount > 0.5;
 
-    // Check corruption damage - drain stamina in corrupted areas
-    const corruption = this.fogOfWar.getCorruptionAt(playerPos.x, playerPos.z);
-    if (corruption > 0.3) {
-      this.player.drainStamina(corruption * 15 * delta); // Up to 15 stamina/sec in fully corrupted areas
-    }
-
     // Update fog particles
     this.fogParticles.update(delta, playerPos);
 
     // Update water
     this.water.update(delta);
-    const inWater = this.water.isInWater(playerPos);
-    this.player.setInWater(inWater);
-
-    // Update guards (DISABLED)
-    // this.guards.update(delta, playerPos);
-    // const guardAlert = this.guards.getAlertLevel();
-    // if (guardAlert > 0.3) {
-    //   this.player.drainStamina(guardAlert * 20 * delta);
-    // }
 
-    // Update weather (rain)
-    this.weatherTimer += delta;
-    if (this.weatherTimer > 60) { // Check weather every 60 seconds
-      this.weatherTimer = 0;
-      // 30% chance of rain change, more likely at night
-      if (Math.random() < 0.3) {
-        this.isRaining = !this.isRaining;
-        this.rain.setActive(this.isRaining);
-        if (this.isRaining) {
-          this.rain.setIntensity(0.5 + Math.random() * 0.5);
-        }
-      }
-    }
     this.rain.update(delta, playerPos);
 
-    // Lightning during rain
-    if (this.isRaining) {
-      this.lightningTimer += delta;
-      // Random lightning every 5-15 seconds
-      if (this.lightningTimer > 5 + Math.random() * 10) {
-        this.lightningTimer = 0;
-        this.lightningFlash = 1.0;
-        // Play thunder sound
-        this.audioManager.playThunder();
-      }
-    }
-
     // Update lightning flash effect
     if (this.lightningFlash > 0) {
       this.lightningFlash -= delta * 3; // Fade over ~0.3 seconds
@@ -785,16 +801,19 @@ export class Game {
     if (!this.winSequence.getIsPlaying()) {
       this.breadcrumbTrail.update(playerPos, delta);
     }
+    this.ghost?.update(this.simulation.getTime(), delta);
+    this.waypoints.update(delta, playerPos);
 
     // Update theme transitions
     this.themeManager.update(delta);
 
     // Auto day/night cycle (every 90 seconds)
     const cycleTime = 90;
-    const newThemeIndex = Math.floor((this.gameTime % (cycleTime * this.themeNames.length)) / cycleTime);
+    const newThemeIndex = Math.floor((this.simulation.getTime() % (cycleTime * this.themeNames.length)) / cycleTime);
     if (newThemeIndex !== this.currentThemeIndex) {
       this.currentThemeIndex = newThemeIndex;
       this.themeManager.setTheme(this.themeNames[this.currentThemeIndex]);
+      this.ghostRecorder.recordTheme(this.simulation.getTime(), this.themeNames[this.currentThemeIndex]);
 
       // Update birds/bats based on time of day
       const isNight = this.themeNames[this.currentThemeIndex] === 'night' ||
@@ -803,24 +822,22 @@ export class Game {
     }
 
     // Update audio (footsteps based on movement and surface)
-    const playerMovement = this.player.getMovementState();
+    const playerMovement = this.simulation.player.getMovementState();
     const surfaceType = this.city.getSurfaceType(playerPos);
     this.audioManager.setNightMode(nightAmount); // Update night sounds
     this.moon.setNightAmount(nightAmount); // Moon visibility at night
-    this.audioManager.setWaterProximity(this.water.getDistanceToWater(playerPos)); // Water ambience
+    this.audioManager.setWaterProximity(this.water.getDistanceToWater(playerPos), 50, this.water.getNearestWaterPoint(playerPos)); // Water ambience
+    this.audioManager.updateListener(this.camera, this.collectibles); // Positional sounds
     this.audioManager.setBuildingProximity(this.city.getBuildingProximity(playerPos)); // Urban echo
+    this.audioManager.setCorruption(this.fogOfWar.getCorruptionAt(playerPos.x, playerPos.z)); // Music
+    this.audioManager.setFragmentsCollected(this.simulation.getFragmentsCollected(), this.simulation.getTotalFragments());
     this.audioManager.update(delta, playerMovement.isMoving, playerMovement.isSprinting, surfaceType);
 
-    // Update collectibles and check collection
+    // Animate collectibles (pickups happen in the simulation)
     this.collectibles.forEach((collectible) => {
       collectible.update(delta);
+      collectible.updateVisibility(playerPos); // Hidden fragments fade in nearby
       collectible.setNightMode(nightAmount); // Fragments glow brighter at night
-
-      if (!collectible.isCollected && collectible.checkCollection(playerPos)) {
-        this.fragmentsCollected++;
-        this.totalPoints += collectible.points;
-        this.onFragmentCollected(collectible);
-      }
     });
 
     // Update screen shake
@@ -831,18 +848,21 @@ export class Game {
     this.camera.getWorldDirection(cameraDirection);
     const playerRotation = Math.atan2(cameraDirection.x, cameraDirection.z);
     this.minimap.update(playerPos, playerRotation, this.collectibles);
+    this.cityMap.render(playerPos, playerRotation, this.collectibles, this.breadcrumbTrail.getPoints());
 
     // Update UI
     this.updateUI();
     const nearestFragmentDist = this.updateCompass(playerPos);
+    this.updateCompassWaypoints(playerPos);
 
     // Update fragment proximity audio (ping when near fragments)
     this.audioManager.setFragmentProximity(nearestFragmentDist);
 
-    // Check win condition
-    if (this.fragmentsCollected >= this.totalFragments && !this.winSequenceTriggered) {
-      this.winSequenceTriggered = true;
-      this.triggerWinSequence(playerPos);
+    // Autosave
+    this.autosaveTimer += rawDelta;
+    if (this.autosaveTimer >= this.AUTOSAVE_INTERVAL) {
+      this.autosaveTimer = 0;
+      this.saveRun();
     }
 
     // Update win sequence
@@ -852,6 +872,83 @@ export class Game {
     this.composer.render();
   };
 
+  private isPlayerInControl(): boolean {
+    return !this.paused && !this.simulation.hasWon();
+  }
+
+  /**
+   * One fixed step: the simulation (movement, fog, corruption, pickups, win condition),
+   * then the guards and weather timers
+   */
+  private fixedUpdate(step: number): void {
+    this.input.poll();
+
+    // The player is frozen while paused and during the win sequence
+    const input = this.isPlayerInControl() ? this.player.readInput(step) : null;
+    this.simulation.step(step, input);
+    const playerPos = this.simulation.player.getPosition();
+
+    // Record this run for racing it later (up to the win)
+    if (!this.simulation.hasWon()) {
+      const yaw = new THREE.Euler(0, 0, 0, 'YXZ').setFromQuaternion(this.camera.quaternion).y;
+      this.ghostRecorder.update(this.simulation.getTime(), playerPos, yaw);
+    }
+
+    // Update guards (frozen while paused and during win sequence)
+    if (this.guards && this.isPlayerInControl()) {
+      const guardEvent = this.guards.update(step, playerPos, this.simulation.player.getNoiseRadius());
+      if (guardEvent === 'caught') {
+        this.onCaughtByGuard();
+      } else if (guardEvent === 'spotted') {
+        this.audioManager.playGuardAlert();
+      }
+      this.updateGuardAlert();
+    }
+
+    // Update weather (rain)
+    this.weatherTimer += step;
+    if (this.weatherTimer > 60) { // Check weather every 60 seconds
+      this.weatherTimer = 0;
+      // 30% chance of rain change, more likely at night
+      if (Math.random() < 0.3) {
+        this.isRaining = !this.isRaining;
+        this.rain.setActive(this.isRaining);
+        if (this.isRaining) {
+          this.rain.setIntensity(0.5 + Math.random() * 0.5);
+        }
+      }
+    }
+
+    // Lightning during rain
+    if (this.isRaining) {
+      this.lightningTimer += step;
+      // Random lightning every 5-15 seconds
+      if (this.lightningTimer > 5 + Math.random() * 10) {
+        this.lightningTimer = 0;
+        this.lightningFlash = 1.0;
+        // Play thunder sound
+        this.audioManager.playThunder();
+      }
+    }
+  }
+
+  private onSimulationEvent(event: SimulationEvent): void {
+    if (event.type === 'collected') {
+      this.ghostRecorder.recordCollection(this.simulation.getTime(), event.fragment);
+      this.updateGhostSplit();
+      this.onFragmentCollected(this.collectibles[event.fragment], event.speedBonus);
+    } else if (event.type === 'won') {
+      this.triggerWinSequence(this.simulation.player.getPosition());
+    }
+  }
+
+  // Compare this pickup with the ghost's pickup of the same count
+  private updateGhostSplit(): void {
+    if (!this.ghost) return;
+    const ghostTime = this.ghost.getCollectionTime(this.simulation.getFragmentsCollected());
+    this.ghostSplit = ghostTime === null ? null : this.simulation.getTime() - ghostTime;
+  }
+
   private updateScreenShake(delta: number): void {
     if (this.shakeDuration > 0) {
       this.shakeDuration -= delta;
@@ -951,24 +1048,37 @@ export class Game {
     }, 1000);
   }
 
+  // Positional sounds for the current city: steam vents, street lights and neon signs
+  private setSoundEmitters(): void {
+    const layout = this.city.getLayout();
+    this.audioManager.setWorldEmitters([
+      ...this.steamVents.getVentPositions().map(position => ({ kind: 'steam' as const, position })),
+      ...layout.streetLights.map(light => ({ kind: 'streetLight' as const, position: light.position.clone().setY(8) })),
+      ...layout.neonSigns.map(sign => ({ kind: 'neon' as const, position: sign.position })),
+    ]);
+  }
+
   private placeRandomSteamVents(): void {
     // Place 10-15 steam vents on random buildings
-    const ventCount = 10 + Math.floor(Math.random() * 6);
+    const rng = new SeededRandom(SeededRandom.deriveSeed(this.seed, 'vents'));
+    const ventCount = 10 + Math.floor(rng.next() * 6);
 
     for (let i = 0; i < ventCount; i++) {
       // Random position within city
-      const x = (Math.random() - 0.5) * this.settings.citySize * 0.8;
-      const z = (Math.random() - 0.5) * this.settings.citySize * 0.8;
+      const x = (rng.next() - 0.5) * this.settings.citySize * 0.8;
+      const z = (rng.next() - 0.5) * this.settings.citySize * 0.8;
 
       // Find a building height at this position (approximate)
       // Use a random height between 30-80 units
-      const height = 30 + Math.random() * 50;
+      const height = 30 + rng.next() * 50;
 
       this.steamVents.addVent(new THREE.Vector3(x, height, z));
     }
   }
 
-  private onFragmentCollected(collectible: Collectible): void {
+  private onFragmentCollected(collectible: Collectible, speedBonus: boolean): void {
+    collectible.collect();
+
     // Trigger slow-motion effect (stronger for rare fragments)
     this.slowMotionTimer = collectible.fragmentType === 'rare' ? this.SLOW_MOTION_DURATION * 1.5 : this.SLOW_MOTION_DURATION;
 
@@ -994,26 +1104,51 @@ export class Game {
     this.triggerColorTint(collectible.fragmentType);
 
     // Speed bonus: 2 fragments within 15 seconds = +500 pts
-    const timeSinceLastFragment = this.gameTime - this.lastFragmentTime;
-    if (timeSinceLastFragment <= this.SPEED_BONUS_WINDOW && this.fragmentsCollected > 1) {
-      this.speedBonusCount++;
-      this.totalPoints += this.SPEED_BONUS_POINTS;
-      this.showBonusPopup('SPEED BONUS +500');
+    if (speedBonus) {
+      this.showBonusPopup(`SPEED BONUS +${ScoreCalculator.SPEED_BONUS_POINTS}`);
     }
-    this.lastFragmentTime = this.gameTime;
 
     // Play milestone chime at certain thresholds
-    const milestones = [3, 5, Math.floor(this.totalFragments * 0.75)];
-    if (milestones.includes(this.fragmentsCollected)) {
+    const collected = this.simulation.getFragmentsCollected();
+    const total = this.simulation.getTotalFragments();
+    const milestones = [3, 5, Math.floor(total * 0.75)];
+    if (milestones.includes(collected)) {
       setTimeout(() => {
-        this.audioManager.playMilestoneChime(this.fragmentsCollected);
+        this.audioManager.playMilestoneChime(collected);
       }, 300); // Delay to not overlap with collect sound
     }
 
-    console.log(`${collectible.fragmentType} fragment collected! (+${collectible.points} pts) ${this.fragmentsCollected}/${this.totalFragments}`);
+    console.log(`${collectible.fragmentType} fragment collected! (+${collectible.points} pts) ${collected}/${total}`);
+  }
+
+  private onCaughtByGuard(): void {
+    this.triggerScreenShake(1.0, 0.3);
+
+    const consequence = this.settings.guards?.onCaught ?? 'drainStamina';
+    this.simulation.catchPlayer(consequence);
+    if (consequence === 'returnToPark') {
+      this.breadcrumbTrail.reset();
+      this.triggerFadeIn();
+      this.showBonusPopup('CAUGHT! Back to the park');
+    } else {
+      this.showBonusPopup('CAUGHT! Stamina drained');
+    }
+  }
+
+  private updateGuardAlert(): void {
+    const alertEl = document.getElementById('guard-alert');
+    if (!alertEl || !this.guards) return;
+
+    const chasing = this.guards.isChasing();
+    const suspicious = this.guards.getAlertLevel() > 0;
+    alertEl.textContent = chasing ? 'SPOTTED' : suspicious ? 'SUSPICIOUS' : '';
+    alertEl.classList.toggle('visible', chasing || suspicious);
+    alertEl.classList.toggle('chasing', chasing);
   }
 
   private triggerWinSequence(playerPos: THREE.Vector3): void {
+    this.cityMap.close();
+
     // Screen shake on final fragment
     this.triggerScreenShake(1.5, 0.5);
 
@@ -1021,57 +1156,92 @@ export class Game {
     const fragmentPositions = this.collectibles.map(c => c.getPosition());
     this.winSequence.setFragmentPositions(fragmentPositions);
 
-    // Start the win sequence animation
+    // Start the win sequence animation (and the music's victory arrangement)
+    this.audioManager.setVictory(true);
     this.winSequence.play(playerPos, () => {
       this.onWin();
     });
   }
 
+  hasPendingSubmission(): boolean {
+    return this.pendingSubmission !== null;
+  }
+
+  /**
+   * Submit the finished run to the global leaderboard under the given name.
+   * Returns an error message if the name is rejected (the run stays held then).
+   */
+  submitPendingScore(playerName: string): string | null {
+    if (!this.pendingSubmission) return null;
+
+    const name = PlayerProfile.sanitizeName(playerName);
+    const error = PlayerProfile.validateName(name);
+    if (error) return error;
+
+    PlayerProfile.setName(name);
+    this.pendingSubmission = { ...this.pendingSubmission, playerName: name || undefined };
+    this.releasePendingSubmission();
+    return null;
+  }
+
+  // Upload the held run (under the name it has by now) - it's already in the outbox
+  private releasePendingSubmission(): void {
+    if (!this.pendingSubmission) return;
+    const { runId, playerName } = this.pendingSubmission;
+    this.pendingSubmission = null;
+    GlobalLeaderboardManager.releaseScore(runId!, { playerName });
+  }
+
   private onWin(): void {
     // Don't stop game loop - let fireworks and effects continue!
     // this.isRunning = false;
     this.controls.unlock();
 
-    const explored = this.fogOfWar.getExploredPercent();
-
-    // Perfect exploration bonus (+2000 for 90%+ exploration)
-    const perfectExplorationBonus = explored >= 90 ? 2000 : 0;
-
-    // No-pause bonus (+1000 for completing without pausing)
-    const noPauseBonus = !this.hasPaused ? 1000 : 0;
+    // The run is over - nothing left to continue
+    RunSave.clear();
 
-    // Time trial bonus (under 3 minutes on normal = +1500)
-    const timeTrialBonus = this.gameTime < 180 ? 1500 : 0;
+    const explored = this.fogOfWar.getExploredPercent();
+    const time = this.simulation.getTime();
 
-    const score = Math.floor(
-      this.totalPoints +
-      perfectExplorationBonus +
-      noPauseBonus +
-      timeTrialBonus +
-      explored * 10 -
-      this.gameTime * 2
-    );
+    // Same formula the score API uses to re-check the run
+    const { score, perfectExplorationBonus, noPauseBonus, timeTrialBonus } = this.simulation.getScore();
 
     // Save high score locally
-    const scoreData = {
-      score: Math.max(0, score),
-      time: this.gameTime,
+    const scoreData: HighScore = {
+      score,
+      time,
       explored,
-      fragments: this.fragmentsCollected,
+      fragments: this.simulation.getFragmentsCollected(),
       difficulty: this.difficulty,
       date: new Date().toISOString(),
+      seed: this.seed,
+      challengeId: this.settings.challengeId,
+      runId: HighScoreManager.createRunId(),
+      playerId: PlayerProfile.getPlayerId(),
+      playerName: PlayerProfile.getName() || undefined,
     };
 
-    HighScoreManager.saveScore(scoreData);
+    // The recording is kept if this was the fastest run on the seed
+    const ghost = this.ghostRecorder.finish(this.seed, this.difficulty, time, this.settings.challengeId);
+    HighScoreManager.saveScore(scoreData, ghost);
+
+    // Into the outbox right away so the run survives a reload; the upload waits for the
+    // name prompt (see submitPendingScore)
+    const runLog = this.simulation.finishRunLog(this.difficulty, this.settings.challengeId);
+    GlobalLeaderboardManager.holdScore(scoreData, runLog);
+    this.pendingSubmission = scoreData;
+    const nameInput = document.getElementById('player-name-input') as HTMLInputElement | null;
+    if (nameInput) {
+      nameInput.value = PlayerProfile.getName();
+    }
 
-    // Submit to global leaderboard (async, don't wait)
-    GlobalLeaderboardManager.submitScore(scoreData)
-      .then(success => {
-        if (success) {
-          console.log('Score submitted to global leaderboard!');
-        }
-      })
-      .catch(err => console.error('Global submit failed:', err));
+    // Show the seed so the run can be shared and replayed
+    const seedEl = document.getElementById('final-seed');
+    if (seedEl) {
+      seedEl.textContent = this.settings.challengeId
+        ? `Daily challenge ${DailyChallenge.getDateLabel(this.settings.challengeId)} • Seed: ${this.seed}`
+        : `Seed: ${this.seed}`;
+    }
 
     // Update win screen with animated stat values
     const timeEl = document.querySelector('#final-time .stat-value') as HTMLElement;
@@ -1083,8 +1253,7 @@ export class Game {
     document.getElementById('win-screen')!.style.display = 'flex';
 
     // Animate counters with staggered timing
-    const finalScore = Math.max(0, score);
-    this.animateCounter(timeEl, 0, this.gameTime, 1500, (v) => this.formatTime(v));
+    this.animateCounter(timeEl, 0, time, 1500, (v) => this.formatTime(v));
     setTimeout(() => {
       this.animateCounter(exploredEl, 0, explored, 1200, (v) => `${v.toFixed(1)}%`);
     }, 400);
@@ -1098,7 +1267,7 @@ export class Game {
       }
     }, 1200);
     setTimeout(() => {
-      this.animateCounter(scoreEl, 0, finalScore, 2000, (v) => String(Math.floor(v)));
+      this.animateCounter(scoreEl, 0, score, 2000, (v) => String(Math.floor(v)));
     }, 800);
   }
 
@@ -1132,11 +1301,11 @@ export class Game {
   private updateUI(): void {
     // Fragments
     document.getElementById('fragment-counter')!.textContent = 
-      `Fragments: ${this.fragmentsCollected} / ${this.totalFragments}`;
+      `Fragments: ${this.simulation.getFragmentsCollected()} / ${this.simulation.getTotalFragments()}`;
 
     // Timer
     document.getElementById('timer')!.textContent = 
-      `Time: ${this.formatTime(this.gameTime)}`;
+      `Time: ${this.formatTime(this.simulation.getTime())}`;
 
     // Explored
     const explored = this.fogOfWar.getExploredPercent();
@@ -1144,8 +1313,19 @@ export class Game {
       `Explored: ${explored.toFixed(1)}%`;
 
     // Stamina
-    const staminaPercent = this.player.getStaminaPercent();
+    const staminaPercent = this.simulation.player.getStaminaPercent();
     document.getElementById('stamina-fill')!.style.width = `${staminaPercent}%`;
+
+    // Ghost progress and the split at the last pickup
+    const ghostEl = document.getElementById('ghost-status');
+    if (ghostEl && this.ghost) {
+      const split = this.ghostSplit === null
+        ? ''
+        : ` (${this.ghostSplit <= 0 ? '-' : '+'}${Math.abs(this.ghostSplit).toFixed(1)}s)`;
+      ghostEl.textContent = `Ghost: ${this.ghost.getCollected()} / ${this.simulation.getTotalFragments()}${split}`;
+      ghostEl.classList.toggle('ahead', this.ghostSplit !== null && this.ghostSplit <= 0);
+      ghostEl.classList.toggle('behind', this.ghostSplit !== null && this.ghostSplit > 0);
+    }
   }
 
   private formatTime(seconds: number): string {
@@ -1167,9 +1347,9 @@ export class Game {
     let nearestZ = 0;
     let found = false;
 
-    this.collectibles.forEach((collectible) => {
-      if (collectible.isCollected) return;
-      const pos = collectible.getPosition();
+    this.simulation.getFragments().forEach((fragment, index) => {
+      if (this.simulation.isCollected(index)) return;
+      const pos = fragment.position;
       const dist = new THREE.Vector2(
         pos.x - playerPos.x,
         pos.z - playerPos.z
@@ -1211,9 +1391,116 @@ export class Game {
     return nearestDist;
   }
 
+  // Waypoint markers around the compass ring, pointing the way to each waypoint
+  private updateCompassWaypoints(playerPos: THREE.Vector3): void {
+    const compassEl = document.getElementById('compass');
+    if (!compassEl) return;
+
+    const markers = Array.from(compassEl.querySelectorAll<HTMLElement>('.compass-waypoint'));
+    const positions = this.waypoints.getPositions();
+    while (markers.length < positions.length) {
+      const marker = document.createElement('div');
+      marker.className = 'compass-waypoint';
+      compassEl.appendChild(marker);
+      markers.push(marker);
+    }
+
+    const cameraDirection = new THREE.Vector3();
+    this.camera.getWorldDirection(cameraDirection);
+    const cameraAngle = Math.atan2(cameraDirection.x, cameraDirection.z);
+    markers.forEach((marker, index) => {
+      const position = positions[index];
+      marker.classList.toggle('hidden', !position);
+      if (!position) return;
+
+      const waypointAngle = Math.atan2(position.x - playerPos.x, position.z - playerPos.z);
+      const relativeAngle = -(waypointAngle - cameraAngle);
+      marker.style.transform = `translate(-50%, -50%) rotate(${relativeAngle}rad) translateY(-40px)`;
+      marker.textContent = String(index + 1);
+    });
+  }
+
+  /**
+   * Autosave the current run (only while one is in progress)
+   */
+  private saveRun(): void {
+    if (!this.isRunning || this.previewMode || this.simulation.hasWon()) return;
+
+    const state = this.simulation.getState();
+    const rotation = this.camera.quaternion;
+
+    RunSave.save({
+      ...state,
+      version: RunSave.VERSION,
+      savedAt: new Date().toISOString(),
+      seed: this.seed,
+      difficulty: this.difficulty,
+      challengeId: this.settings.challengeId,
+      player: {
+        ...state.player,
+        rotation: [rotation.x, rotation.y, rotation.z, rotation.w],
+      },
+      themeIndex: this.currentThemeIndex,
+      ghost: this.ghostRecorder.getState(),
+      waypoints: this.waypoints.getPositions().map((position): [number, number] => [position.x, position.z]),
+      weather: {
+        isRaining: this.isRaining,
+        intensity: this.rain.getIntensity(),
+        timer: this.weatherTimer,
+      },
+    });
+  }
+
+  private restoreSnapshot(snapshot: RunSnapshot): void {
+    // Position, pickups, fog and run log (leaving and coming back counts as a pause)
+    this.simulation.restore(snapshot);
+    if (snapshot.ghost) {
+      this.ghostRecorder.restore(snapshot.ghost);
+    } else {
+      this.ghostRecorder.reset();
+      this.ghostRecorder.recordTheme(0, this.themeNames[snapshot.themeIndex]);
+    }
+
+    // Fragments already picked up stay hidden
+    snapshot.collected.forEach(index => this.collectibles[index]?.markCollected());
+
+    // View and map waypoints
+    this.camera.quaternion.set(...snapshot.player.rotation);
+    this.breadcrumbTrail.reset();
+    this.waypoints.clear();
+    snapshot.waypoints?.forEach(([x, z]) => this.waypoints.add(x, z));
+
+    // Time of day and weather
+    this.currentThemeIndex = snapshot.themeIndex;
+    this.themeManager.setTheme(this.themeNames[this.currentThemeIndex]);
+    const themeName = this.themeNames[this.currentThemeIndex];
+    this.birds.setNightMode(themeName === 'night' || themeName === 'neon');
+    this.isRaining = snapshot.weather.isRaining;
+    this.weatherTimer = snapshot.weather.timer;
+    this.rain.setActive(this.isRaining);
+    this.rain.setIntensity(snapshot.weather.intensity);
+
+    this.updateUI();
+  }
+
+  /**
+   * Pick up changed audio settings (volumes, reduce sudden sounds)
+   */
+  applyAudioSettings(): void {
+    this.audioManager.applySettings();
+  }
+
+  /**
+   * Get the layout seed of the current city
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
   dispose(): void {
     // Stop the game loop
     this.isRunning = false;
+    this.releasePendingSubmission();
 
     // Remove canvas from DOM
     if (this.renderer.domElement.parentNode) {
@@ -1230,5 +1517,11 @@ export class Game {
     if (this.winSequence) {
       this.winSequence.dispose();
     }
+
+    this.ghost?.dispose();
+    this.input.dispose();
+    this.minimap.dispose();
+    this.cityMap.dispose();
+    this.waypoints.dispose();
   }
 }
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { BreadcrumbTrail } from './BreadcrumbTrail';
+import { GhostRecorder, GhostRecording } from './GhostRecorder';
+
+/**
+ * A recorded run replayed next to the current one: a translucent figure that follows the
+ * recording by game time, pulses where it picked up fragments and leaves its own trail
+ */
+export class Ghost {
+  private static readonly COLOR = 0x60a5fa;
+  private static readonly EYE_HEIGHT = 5; // Recorded positions are the camera's
+  private static readonly BODY_RADIUS = 0.8;
+  private static readonly BODY_LENGTH = 2.6;
+  private static readonly OPACITY = 0.35;
+  private static readonly NIGHT_OPACITY = 0.55; // Easier to spot in the dark
+  private static readonly PULSE_DURATION = 0.6;
+
+  private scene: THREE.Scene;
+  private recording: GhostRecording;
+  private group: THREE.Group;
+  private bodyMaterial: THREE.MeshBasicMaterial;
+  private visorMaterial: THREE.MeshBasicMaterial;
+  private trail: BreadcrumbTrail;
+
+  private position = new THREE.Vector3();
+  private collected = 0; // Recorded pickups replayed so far
+  private pulseTimer = 0;
+
+  constructor(scene: THREE.Scene, recording: GhostRecording) {
+    this.scene = scene;
+    this.recording = recording;
+
+    this.bodyMaterial = new THREE.MeshBasicMaterial({
+      color: Ghost.COLOR,
+      transparent: true,
+      opacity: Ghost.OPACITY,
+      depthWrite: false,
+    });
+    this.visorMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: Ghost.OPACITY,
+      depthWrite: false,
+    });
+
+    this.group = new THREE.Group();
+    const body = new THREE.Mesh(new THREE.CapsuleGeometry(Ghost.BODY_RADIUS, Ghost.BODY_LENGTH, 4, 12), this.bodyMaterial);
+    this.group.add(body);
+
+    // Visor near the top, facing the way the run was looking (-z, like the camera)
+    const visor = new THREE.Mesh(new THREE.BoxGeometry(1, 0.25, 0.3), this.visorMaterial);
+    visor.position.set(0, Ghost.BODY_LENGTH / 2, -Ghost.BODY_RADIUS);
+    this.group.add(visor);
+
+    this.scene.add(this.group);
+    this.trail = new BreadcrumbTrail(scene, Ghost.COLOR);
+    this.update(0, 0);
+  }
+
+  /**
+   * Move the ghost to where the recording was at this game time
+   */
+  update(time: number, delta: number): void {
+    const frames = this.recording.frames;
+    const frameCount = frames.length / GhostRecorder.FRAME_SIZE;
+    if (frameCount === 0) return;
+
+    // Between the two frames around `time` (the ghost waits at the end once it's done)
+    const t = Math.min(time, this.recording.time) / this.recording.interval;
+    const from = Math.min(Math.floor(t), frameCount - 1);
+    const to = Math.min(from + 1, frameCount - 1);
+    const alpha = Math.min(1, t - from);
+    const a = from * GhostRecorder.FRAME_SIZE;
+    const b = to * GhostRecorder.FRAME_SIZE;
+    this.position.set(
+      THREE.MathUtils.lerp(frames[a], frames[b], alpha),
+      THREE.MathUtils.lerp(frames[a + 1], frames[b + 1], alpha),
+      THREE.MathUtils.lerp(frames[a + 2], frames[b + 2], alpha)
+    );
+    const turn = Math.atan2(Math.sin(frames[b + 3] - frames[a + 3]), Math.cos(frames[b + 3] - frames[a + 3]));
+    this.group.position.set(this.position.x, this.position.y - Ghost.EYE_HEIGHT + this.getBodyCenter(), this.position.z);
+    this.group.rotation.y = frames[a + 3] + turn * alpha;
+
+    // Recorded pickups (continuing a saved run catches up on the ones already passed)
+    while (this.collected < this.recording.collections.length && this.recording.collections[this.collected].time <= time) {
+      this.collected++;
+      this.pulseTimer = Ghost.PULSE_DURATION;
+    }
+    this.pulseTimer = Math.max(0, this.pulseTimer - delta);
+    this.group.scale.setScalar(1 + (this.pulseTimer / Ghost.PULSE_DURATION) * 0.5);
+
+    // Brighter during the recording's night and neon themes
+    const theme = this.getThemeAt(time);
+    const opacity = theme === 'night' || theme === 'neon' ? Ghost.NIGHT_OPACITY : Ghost.OPACITY;
+    this.bodyMaterial.opacity = opacity;
+    this.visorMaterial.opacity = opacity;
+
+    if (time <= this.recording.time) {
+      this.trail.update(this.position, delta);
+    }
+  }
+
+  /**
+   * Fragments the ghost had picked up by the last update
+   */
+  getCollected(): number {
+    return this.collected;
+  }
+
+  /**
+   * Game time of the ghost's nth pickup (1 = first), or null if it never got that far
+   */
+  getCollectionTime(count: number): number | null {
+    return this.recording.collections[count - 1]?.time ?? null;
+  }
+
+  getFinishTime(): number {
+    return this.recording.time;
+  }
+
+  dispose(): void {
+    this.scene.remove(this.group);
+    this.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) object.geometry.dispose();
+    });
+    this.bodyMaterial.dispose();
+    this.visorMaterial.dispose();
+    this.trail.dispose();
+  }
+
+  // Capsule center above the feet
+  private getBodyCenter(): number {
+    return Ghost.BODY_LENGTH / 2 + Ghost.BODY_RADIUS;
+  }
+
+  private getThemeAt(time: number): string | null {
+    let theme: string | null = null;
+    for (const change of this.recording.themes) {
+      if (change.time > time) break;
+      theme = change.theme;
+    }
+    return theme;
+  }
+}
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { RunCollection } from './RunRecorder';
+
+export interface GhostThemeChange {
+  time: number; // Game time (seconds)
+  theme: string; // Key into THEMES
+}
+
+/**
+ * A finished run, recorded for replaying as a ghost on the same seed
+ */
+export interface GhostRecording {
+  version: number;
+  seed: number;
+  difficulty: string;
+  challengeId?: string;
+  time: number; // Final game time (seconds)
+  interval: number; // Seconds between frames
+  frames: number[]; // Flat [x, y, z, yaw, x, y, z, yaw, ...], frame i at time i * interval
+  collections: RunCollection[];
+  themes: GhostThemeChange[];
+}
+
+/**
+ * Recorder progress, saved with an unfinished run so the continued run keeps its ghost
+ */
+export interface GhostRecorderState {
+  frames: number[];
+  collections: RunCollection[];
+  themes: GhostThemeChange[];
+}
+
+/**
+ * Records the player's transform at a fixed rate, plus fragment pickups and theme
+ * changes, so the run can be raced as a ghost later (see Ghost)
+ */
+export class GhostRecorder {
+  static readonly VERSION = 1;
+  static readonly INTERVAL = 0.1; // seconds between frames
+  static readonly FRAME_SIZE = 4;
+
+  private frames: number[] = [];
+  private collections: RunCollection[] = [];
+  private themes: GhostThemeChange[] = [];
+
+  reset(): void {
+    this.frames = [];
+    this.collections = [];
+    this.themes = [];
+  }
+
+  /**
+   * Add the frames due by `time` (a long step repeats the latest transform)
+   */
+  update(time: number, position: THREE.Vector3, yaw: number): void {
+    while (this.getFrameCount() * GhostRecorder.INTERVAL <= time) {
+      this.frames.push(
+        GhostRecorder.round(position.x, 100),
+        GhostRecorder.round(position.y, 100),
+        GhostRecorder.round(position.z, 100),
+        GhostRecorder.round(yaw, 1000)
+      );
+    }
+  }
+
+  recordCollection(time: number, fragment: number): void {
+    this.collections.push({ time, fragment });
+  }
+
+  recordTheme(time: number, theme: string): void {
+    if (this.themes[this.themes.length - 1]?.theme === theme) return;
+    this.themes.push({ time, theme });
+  }
+
+  finish(seed: number, difficulty: string, time: number, challengeId?: string): GhostRecording {
+    return {
+      version: GhostRecorder.VERSION,
+      seed,
+      difficulty,
+      challengeId,
+      time,
+      interval: GhostRecorder.INTERVAL,
+      frames: [...this.frames],
+      collections: [...this.collections],
+      themes: [...this.themes],
+    };
+  }
+
+  getState(): GhostRecorderState {
+    return {
+      frames: [...this.frames],
+      collections: [...this.collections],
+      themes: [...this.themes],
+    };
+  }
+
+  restore(state: GhostRecorderState): void {
+    this.frames = [...state.frames];
+    this.collections = [...state.collections];
+    this.themes = [...state.themes];
+  }
+
+  private getFrameCount(): number {
+    return this.frames.length / GhostRecorder.FRAME_SIZE;
+  }
+
+  private static round(value: number, precision: number): number {
+    return Math.round(value * precision) / precision;
+  }
+}
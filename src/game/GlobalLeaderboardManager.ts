@@ -1,93 +1,216 @@
 import { HighScore } from './HighScoreManager';
+import { RunLog } from './RunRecorder';
+import { SubmissionQueue } from './SubmissionQueue';
+
+// Public entries never include player ids - isYou marks the caller's own
+export interface RankedScore extends Omit<HighScore, 'playerId'> {
+  rank: number;
+  isYou: boolean;
+}
+
+export interface LeaderboardPage {
+  difficulty: string;
+  challengeId?: string;
+  total: number; // Scores on this difficulty's board
+  offset: number;
+  limit: number;
+  scores: RankedScore[];
+  player: RankedScore | null; // The requested run, if it's on the board
+}
+
+export interface LeaderboardQuery {
+  challengeId?: string;
+  offset?: number;
+  limit?: number;
+  runId?: string;
+  playerId?: string; // Falls back to this player's best entry when runId isn't on the board
+}
+
+export interface PlayerBest extends RankedScore {
+  total: number; // Scores on that difficulty's board
+}
+
+export interface PlayerBests {
+  playerId: string;
+  challengeId: string; // Today's daily challenge, used for the "daily" entry
+  best: Record<string, PlayerBest | null>; // Per difficulty, null = not on the board
+}
+
+// 'rejected' = the server refused the run for good, 'failed' = worth retrying later
+type SubmitResult = 'submitted' | 'rejected' | 'failed';
 
 export class GlobalLeaderboardManager {
-  // You'll need to create a public gist and put its ID here
-  private static readonly GIST_ID = '31a13bcc5f6460710249fc2e88094252'; // TODO: Replace with actual gist ID
-  private static readonly GIST_FILENAME = 'unmask-city-scores.json';
+  // Serverless functions (see api/)
+  private static readonly API_BASE = 'https://unmask-the-city.vercel.app/api';
+  private static readonly API_ENDPOINT = `${GlobalLeaderboardManager.API_BASE}/submit-score`;
+  private static readonly LEADERBOARD_ENDPOINT = `${GlobalLeaderboardManager.API_BASE}/leaderboard`;
+  private static readonly PLAYER_BEST_ENDPOINT = `${GlobalLeaderboardManager.API_BASE}/player-best`;
 
-  // For writes, we'll use a serverless function
-  private static readonly API_ENDPOINT = 'https://unmask-the-city.vercel.app/api/submit-score';
+  // Offline outbox retries (see SubmissionQueue)
+  private static readonly HOLD_TIME = 60 * 60 * 1000; // Longest a finished run waits for its name (ms)
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static isFlushing = false;
+  private static onSubmitted: (() => void) | null = null;
 
   /**
-   * Fetch global leaderboard from public gist
+   * Fetch one ranked page of a difficulty's global leaderboard (plus our rank if runId is given).
+   * Throws on network or server errors so callers can fall back to local scores.
    */
-  static async fetchGlobalScores(): Promise<HighScore[]> {
-    try {
-      const url = `https://gist.githubusercontent.com/raw/${this.GIST_ID}/${this.GIST_FILENAME}`;
-      const response = await fetch(url, {
-        cache: 'no-cache',
-      });
+  static async fetchLeaderboardPage(difficulty: string, query: LeaderboardQuery = {}): Promise<LeaderboardPage> {
+    const params = new URLSearchParams({ difficulty });
+    if (query.challengeId) params.set('challengeId', query.challengeId);
+    if (query.offset !== undefined) params.set('offset', String(query.offset));
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+    if (query.runId) params.set('runId', query.runId);
+    if (query.playerId) params.set('playerId', query.playerId);
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status}`);
-      }
+    const response = await fetch(`${this.LEADERBOARD_ENDPOINT}?${params}`, {
+      cache: 'no-cache',
+    });
 
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
-    } catch (error) {
-      console.error('Failed to fetch global leaderboard:', error);
-      return [];
+    if (!response.ok) {
+      throw new Error(`Failed to fetch leaderboard: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * A player's best global entry on each difficulty
+   */
+  static async fetchPlayerBests(playerId: string): Promise<PlayerBests> {
+    const params = new URLSearchParams({ playerId });
+    const response = await fetch(`${this.PLAYER_BEST_ENDPOINT}?${params}`, {
+      cache: 'no-cache',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch player bests: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Submit score to global leaderboard via serverless function.
+   * The run log lets the server replay the run and reject impossible scores.
+   * The run goes into the offline outbox first and stays there until the server
+   * accepts (or definitively rejects) it.
+   */
+  static async submitScore(score: HighScore, runLog?: RunLog): Promise<boolean> {
+    if (!score.runId) {
+      return (await this.postScore(score, runLog)) === 'submitted';
+    }
+
+    SubmissionQueue.add(score, runLog);
+    const result = await this.postScore(score, runLog);
+    this.handleResult(score.runId, result);
+    this.scheduleRetry();
+    if (result === 'submitted') {
+      this.onSubmitted?.();
+    }
+    return result === 'submitted';
+  }
+
+  /**
+   * Put a finished run in the outbox without uploading it yet, while the player picks a
+   * name. `releaseScore` uploads it; if the page is closed first, the next visit does.
+   */
+  static holdScore(score: HighScore, runLog?: RunLog): void {
+    SubmissionQueue.add(score, runLog, this.HOLD_TIME);
+  }
+
+  /**
+   * Upload a held run now, with any last changes (the name)
+   */
+  static releaseScore(runId: string, changes: Partial<HighScore> = {}): void {
+    if (SubmissionQueue.update(runId, changes)) {
+      this.flushQueue(false);
     }
   }
 
   /**
-   * Submit score to global leaderboard via serverless function
+   * Retry queued submissions now and whenever the browser comes back online.
+   * `onSubmitted` runs after queued scores were uploaded (e.g. to refresh the leaderboard).
    */
-  static async submitScore(score: HighScore): Promise<boolean> {
+  static startRetrying(onSubmitted?: () => void): void {
+    this.onSubmitted = onSubmitted ?? null;
+    window.addEventListener('online', () => this.flushQueue(true));
+    this.flushQueue(true);
+  }
+
+  /**
+   * Post queued submissions (only those due for a retry unless forced)
+   */
+  private static async flushQueue(force: boolean): Promise<void> {
+    if (this.isFlushing || !navigator.onLine) return;
+    this.isFlushing = true;
+
+    let submitted = 0;
     try {
-      // First check if API endpoint exists (for local dev)
-      if (!this.API_ENDPOINT.startsWith('http') && window.location.hostname === 'localhost') {
-        console.log('Skipping global submit on localhost');
-        return false;
+      for (const entry of SubmissionQueue.getDue(force)) {
+        const result = await this.postScore(entry.score, entry.runLog);
+        this.handleResult(entry.score.runId!, result);
+        if (result === 'submitted') submitted++;
       }
+    } finally {
+      this.isFlushing = false;
+      this.scheduleRetry();
+    }
+
+    if (submitted > 0) {
+      console.log(`Uploaded ${submitted} queued score(s) to global leaderboard`);
+      this.onSubmitted?.();
+    }
+  }
 
+  private static handleResult(runId: string, result: SubmitResult): void {
+    if (result === 'failed') {
+      SubmissionQueue.markFailed(runId);
+    } else {
+      SubmissionQueue.remove(runId);
+    }
+  }
+
+  // One timer for the earliest queued retry
+  private static scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const delay = SubmissionQueue.getNextDelay();
+    if (delay !== null) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.flushQueue(false);
+      }, delay);
+    }
+  }
+
+  private static async postScore(score: HighScore, runLog?: RunLog): Promise<SubmitResult> {
+    try {
       const response = await fetch(this.API_ENDPOINT, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(score),
+        body: JSON.stringify({ ...score, run: runLog }),
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to submit: ${response.status}`);
+      if (response.ok) {
+        return 'submitted';
       }
 
-      return true;
+      // Verification failures come back with a specific code (see RunVerifier)
+      const data = await response.json().catch(() => null);
+      console.error(`Failed to submit score: ${response.status}${data?.code ? ` (${data.code})` : ''}`);
+
+      // Server trouble or rate limits are worth retrying, other client errors never succeed
+      return response.status >= 500 || response.status === 408 || response.status === 429 ? 'failed' : 'rejected';
     } catch (error) {
       console.error('Failed to submit score to global leaderboard:', error);
-      return false;
+      return 'failed';
     }
   }
-
-  /**
-   * Get top N scores from global leaderboard
-   */
-  static async getTopGlobalScores(count: number = 10): Promise<HighScore[]> {
-    const scores = await this.fetchGlobalScores();
-    return scores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, count);
-  }
-
-  /**
-   * Merge local and global scores, return top N
-   */
-  static async getMergedLeaderboard(localScores: HighScore[], count: number = 10): Promise<HighScore[]> {
-    const globalScores = await this.fetchGlobalScores();
-    const allScores = [...localScores, ...globalScores];
-
-    // Remove duplicates (same score + time + difficulty)
-    const uniqueScores = allScores.filter((score, index, self) =>
-      index === self.findIndex(s =>
-        s.score === score.score &&
-        s.time === score.time &&
-        s.difficulty === score.difficulty
-      )
-    );
-
-    return uniqueScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, count);
-  }
 }
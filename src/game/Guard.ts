@@ -1,222 +1,429 @@
 import * as THREE from 'three';
+import { City } from './City';
+import { GuardSettings } from './Difficulties';
+import { SeededRandom } from './SeededRandom';
+
+export type GuardState = 'patrol' | 'suspicious' | 'chase' | 'return';
+
+// Something the game should react to this frame ('caught' wins if both happen)
+export type GuardEvent = 'spotted' | 'caught';
 
 interface GuardData {
   position: THREE.Vector3;
   rotation: number; // Direction they're facing
-  visionAngle: number; // Half-angle of vision cone
-  visionDistance: number;
+  route: number[]; // Street grid nodes, walked back and forth
+  routeIndex: number;
+  routeStep: number; // +1 or -1
+  path: THREE.Vector3[]; // Streets back to the route (return state)
+  state: GuardState;
+  suspicion: number; // 0-1, chase at 1
+  target: THREE.Vector3; // Where the player was last seen or heard
+  lostTimer: number; // Time since the player was last seen during a chase
+  cooldown: number; // Ignores the player for a while after catching them
+  group: THREE.Group;
+  coneMaterial: THREE.MeshBasicMaterial;
 }
 
+/**
+ * Guards patrolling the street grid. They see the player in a vision cone (blocked by
+ * buildings), hear sprinting and splashing, grow suspicious and investigate, chase when
+ * sure, and walk back to their route when they lose the player or catch them.
+ */
 export class Guard {
+  private readonly PATROL_SPEED = 5;
+  private readonly SUSPICIOUS_SPEED = 3;
+  private readonly CHASE_SPEED = 24; // Faster than walking, slower than sprinting
+  private readonly RETURN_SPEED = 8;
+  private readonly TURN_SPEED = 4; // radians per second
+  private readonly VISION_ANGLE = Math.PI / 6; // Half-angle (60 degree cone)
+  private readonly CHASE_VISION_ANGLE = Math.PI / 3; // Wider once locked on
+  private readonly EYE_HEIGHT = 3.3;
+  private readonly SIGHT_RATE = 1.5; // Suspicion per second at the edge of sight (x2 up close)
+  private readonly NOISE_RATE = 0.5; // Suspicion per second while hearing the player
+  private readonly NOISE_SUSPICION_CAP = 0.8; // Noise alone never starts a chase
+  private readonly SUSPICION_DECAY = 0.15; // per second
+  private readonly LOSE_TIME = 4; // seconds without sight before a chase turns into a search
+  private readonly CATCH_RADIUS = 3;
+  private readonly CATCH_HEIGHT = 7; // Players on roofs are out of reach
+  private readonly CATCH_COOLDOWN = 8; // seconds
+  private readonly RADIUS = 1;
+  private readonly SPAWN_CLEAR_RADIUS = 80; // Keep patrols away from spawn
+  private readonly MIN_ROUTE_LENGTH = 4;
+  private readonly MAX_ROUTE_LENGTH = 8;
+
   private scene: THREE.Scene;
+  private city: City;
+  private settings: GuardSettings;
   private guards: GuardData[] = [];
-  private guardMeshes: THREE.Mesh[] = [];
-  private visionConeMeshes: THREE.Mesh[] = [];
-  private alertLevel = 0; // 0-1, how alerted guards are
 
-  constructor(scene: THREE.Scene, worldSize: number, count = 5) {
+  constructor(scene: THREE.Scene, city: City, settings: GuardSettings, seed = SeededRandom.randomSeed()) {
     this.scene = scene;
-    this.generateGuards(worldSize, count);
-    this.createMeshes();
+    this.city = city;
+    this.settings = settings;
+    this.generateGuards(new SeededRandom(seed));
   }
 
-  private generateGuards(worldSize: number, count: number): void {
-    const spawnClearRadius = 80; // Keep guards away from spawn
-
-    for (let i = 0; i < count; i++) {
-      let x: number, z: number;
-      let attempts = 0;
-
-      // Find valid position away from spawn
-      do {
-        x = (Math.random() - 0.5) * worldSize * 0.8;
-        z = (Math.random() - 0.5) * worldSize * 0.8;
-        attempts++;
-      } while (Math.abs(x) < spawnClearRadius && Math.abs(z) < spawnClearRadius && attempts < 50);
-
-      // Random facing direction
-      const rotation = Math.random() * Math.PI * 2;
+  /**
+   * Rebuild the patrols for a new city (call after City.regenerate)
+   */
+  regenerate(seed?: number): void {
+    this.dispose();
+    this.generateGuards(new SeededRandom(seed ?? SeededRandom.randomSeed()));
+  }
 
-      this.guards.push({
-        position: new THREE.Vector3(x, 0, z),
-        rotation,
-        visionAngle: Math.PI / 6, // 30 degrees half-angle (60 degree total cone)
-        visionDistance: 25,
-      });
+  private generateGuards(rng: SeededRandom): void {
+    const grid = this.city.getStreetGrid();
+    const candidates = grid.nodes
+      .map((_, index) => index)
+      .filter(index =>
+        grid.neighbors[index].length > 0 &&
+        Math.hypot(grid.nodes[index].x, grid.nodes[index].z) > this.SPAWN_CLEAR_RADIUS
+      );
+    if (candidates.length === 0) return;
+
+    for (let i = 0; i < this.settings.count; i++) {
+      const start = candidates[Math.floor(rng.next() * candidates.length)];
+      const route = this.generateRoute(start, rng);
+      const position = grid.nodes[start].clone();
+      const next = grid.nodes[route[1]];
+
+      const guard: GuardData = {
+        position,
+        rotation: Math.atan2(next.x - position.x, next.z - position.z),
+        route,
+        routeIndex: 1,
+        routeStep: 1,
+        path: [],
+        state: 'patrol',
+        suspicion: 0,
+        target: new THREE.Vector3(),
+        lostTimer: 0,
+        cooldown: 0,
+        ...this.createMesh(),
+      };
+      this.updateMesh(guard);
+      this.guards.push(guard);
     }
   }
 
-  private createMeshes(): void {
-    this.guards.forEach((guard) => {
-      // Guard body (simple cylinder + cone head)
-      const bodyGroup = new THREE.Group();
-
-      // Body
-      const bodyGeometry = new THREE.CylinderGeometry(0.8, 0.8, 3, 8);
-      const bodyMaterial = new THREE.MeshStandardMaterial({
-        color: 0x333344,
-        roughness: 0.7,
-        metalness: 0.3,
-      });
-      const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-      body.position.y = 1.5;
-      body.castShadow = true;
-      bodyGroup.add(body);
-
-      // Head
-      const headGeometry = new THREE.SphereGeometry(0.6, 8, 8);
-      const headMaterial = new THREE.MeshStandardMaterial({
-        color: 0x445566,
-        roughness: 0.5,
-        metalness: 0.2,
-      });
-      const head = new THREE.Mesh(headGeometry, headMaterial);
-      head.position.y = 3.3;
-      head.castShadow = true;
-      bodyGroup.add(head);
-
-      // Eye glow (indicates facing direction)
-      const eyeGeometry = new THREE.SphereGeometry(0.15, 8, 8);
-      const eyeMaterial = new THREE.MeshBasicMaterial({ color: 0xff3333 });
-      const eye1 = new THREE.Mesh(eyeGeometry, eyeMaterial);
-      const eye2 = new THREE.Mesh(eyeGeometry, eyeMaterial);
-      eye1.position.set(-0.25, 3.4, 0.45);
-      eye2.position.set(0.25, 3.4, 0.45);
-      bodyGroup.add(eye1);
-      bodyGroup.add(eye2);
-
-      // Vision cone (transparent red) - add to bodyGroup so they move together
-      const coneLength = guard.visionDistance;
-      const coneRadius = Math.tan(guard.visionAngle) * coneLength;
-      const coneGeometry = new THREE.ConeGeometry(coneRadius, coneLength, 16, 1, true);
-      const coneMaterial = new THREE.MeshBasicMaterial({
-        color: 0xff0000,
-        transparent: true,
-        opacity: 0.15,
-        side: THREE.DoubleSide,
-        depthWrite: false,
-      });
-      const cone = new THREE.Mesh(coneGeometry, coneMaterial);
-
-      // Rotate cone to point forward (along local +Z of the group)
-      cone.rotation.x = Math.PI / 2;
-
-      // Position cone so tip is near guard body, extending forward
-      cone.position.set(0, 1.5, coneLength / 2); // Y at body center, Z extending forward
+  /**
+   * Random walk along the street grid, not doubling back where it can be helped
+   */
+  private generateRoute(start: number, rng: SeededRandom): number[] {
+    const { neighbors } = this.city.getStreetGrid();
+    const length = this.MIN_ROUTE_LENGTH + Math.floor(rng.next() * (this.MAX_ROUTE_LENGTH - this.MIN_ROUTE_LENGTH + 1));
+    const route = [start];
+
+    while (route.length < length) {
+      const current = route[route.length - 1];
+      const fresh = neighbors[current].filter(n => !route.includes(n));
+      const options = fresh.length > 0 ? fresh : neighbors[current];
+      route.push(options[Math.floor(rng.next() * options.length)]);
+      if (fresh.length === 0) break; // Dead end - patrol what we have
+    }
 
-      // Add cone to the bodyGroup so they rotate together
-      bodyGroup.add(cone);
-      this.visionConeMeshes.push(cone);
+    return route;
+  }
 
-      // Position and orient the entire guard (body + cone) together
-      bodyGroup.position.copy(guard.position);
-      bodyGroup.rotation.y = guard.rotation;
+  private createMesh(): { group: THREE.Group; coneMaterial: THREE.MeshBasicMaterial } {
+    // Guard body (simple cylinder + sphere head)
+    const group = new THREE.Group();
 
-      this.guardMeshes.push(bodyGroup as unknown as THREE.Mesh);
-      this.scene.add(bodyGroup);
+    // Body
+    const bodyGeometry = new THREE.CylinderGeometry(0.8, 0.8, 3, 8);
+    const bodyMaterial = new THREE.MeshStandardMaterial({
+      color: 0x333344,
+      roughness: 0.7,
+      metalness: 0.3,
+    });
+    const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
+    body.position.y = 1.5;
+    body.castShadow = true;
+    group.add(body);
+
+    // Head
+    const headGeometry = new THREE.SphereGeometry(0.6, 8, 8);
+    const headMaterial = new THREE.MeshStandardMaterial({
+      color: 0x445566,
+      roughness: 0.5,
+      metalness: 0.2,
     });
+    const head = new THREE.Mesh(headGeometry, headMaterial);
+    head.position.y = this.EYE_HEIGHT;
+    head.castShadow = true;
+    group.add(head);
+
+    // Eye glow (indicates facing direction)
+    const eyeGeometry = new THREE.SphereGeometry(0.15, 8, 8);
+    const eyeMaterial = new THREE.MeshBasicMaterial({ color: 0xff3333 });
+    const eye1 = new THREE.Mesh(eyeGeometry, eyeMaterial);
+    const eye2 = new THREE.Mesh(eyeGeometry, eyeMaterial);
+    eye1.position.set(-0.25, 3.4, 0.45);
+    eye2.position.set(0.25, 3.4, 0.45);
+    group.add(eye1);
+    group.add(eye2);
+
+    // Vision cone (transparent), tip at the guard and opening along local +Z
+    const coneLength = this.settings.visionDistance;
+    const coneRadius = Math.tan(this.VISION_ANGLE) * coneLength;
+    const coneGeometry = new THREE.ConeGeometry(coneRadius, coneLength, 16, 1, true);
+    const coneMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff3333,
+      transparent: true,
+      opacity: 0.12,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    const cone = new THREE.Mesh(coneGeometry, coneMaterial);
+    cone.rotation.x = -Math.PI / 2;
+    cone.position.set(0, 1.5, coneLength / 2);
+    group.add(cone);
+
+    this.scene.add(group);
+    return { group, coneMaterial };
   }
 
-  // Check if player is spotted by any guard
-  checkPlayerSpotted(playerPos: THREE.Vector3): boolean {
+  /**
+   * Advance all guards. `noiseRadius` is how far the player can be heard this frame.
+   */
+  update(delta: number, playerPos: THREE.Vector3, noiseRadius: number): GuardEvent | null {
+    let event: GuardEvent | null = null;
+
     for (const guard of this.guards) {
-      if (this.isInVisionCone(guard, playerPos)) {
-        return true;
+      guard.cooldown = Math.max(0, guard.cooldown - delta);
+
+      const distance = Math.hypot(playerPos.x - guard.position.x, playerPos.z - guard.position.z);
+      const sees = guard.cooldown <= 0 && this.canSee(guard, playerPos, distance);
+      const hears = !sees && guard.cooldown <= 0 && distance < noiseRadius;
+
+      // Perception feeds suspicion (closer = faster)
+      if (sees) {
+        guard.target.copy(playerPos);
+        guard.lostTimer = 0;
+        const closeness = 1 - distance / this.settings.visionDistance;
+        guard.suspicion = Math.min(1, guard.suspicion + delta * this.SIGHT_RATE * (1 + closeness));
+      } else if (hears) {
+        guard.target.copy(playerPos);
+        guard.suspicion = Math.max(
+          guard.suspicion,
+          Math.min(this.NOISE_SUSPICION_CAP, guard.suspicion + delta * this.NOISE_RATE)
+        );
+      } else if (guard.state !== 'chase') {
+        guard.suspicion = Math.max(0, guard.suspicion - delta * this.SUSPICION_DECAY);
       }
+
+      switch (guard.state) {
+        case 'patrol':
+        case 'return':
+          if (guard.suspicion >= 1) {
+            this.startChase(guard);
+            event = event ?? 'spotted';
+          } else if (sees || hears) {
+            guard.state = 'suspicious';
+          } else if (guard.state === 'patrol') {
+            this.followRoute(guard, delta);
+          } else {
+            this.followPath(guard, delta);
+          }
+          break;
+
+        case 'suspicious':
+          if (guard.suspicion >= 1) {
+            this.startChase(guard);
+            event = event ?? 'spotted';
+          } else if (guard.suspicion <= 0) {
+            this.startReturn(guard);
+          } else {
+            // Investigate where the player was seen or heard
+            this.moveTowards(guard, guard.target, this.SUSPICIOUS_SPEED, delta, 2);
+          }
+          break;
+
+        case 'chase':
+          if (!sees) guard.lostTimer += delta;
+          if (guard.lostTimer > this.LOSE_TIME) {
+            // Lost them - search around the last known position
+            guard.state = 'suspicious';
+            guard.suspicion = this.NOISE_SUSPICION_CAP / 2;
+          } else {
+            this.moveTowards(guard, guard.target, this.CHASE_SPEED, delta, 0);
+            if (distance < this.CATCH_RADIUS && playerPos.y < this.CATCH_HEIGHT) {
+              guard.cooldown = this.CATCH_COOLDOWN;
+              guard.suspicion = 0;
+              this.startReturn(guard);
+              event = 'caught';
+            }
+          }
+          break;
+      }
+
+      this.updateMesh(guard);
     }
-    return false;
+
+    return event;
   }
 
-  // Get the detection level (0-1) based on how "seen" the player is
-  getDetectionLevel(playerPos: THREE.Vector3): number {
-    let maxDetection = 0;
+  private canSee(guard: GuardData, playerPos: THREE.Vector3, distance: number): boolean {
+    const range = guard.state === 'chase' ? this.settings.visionDistance * 1.5 : this.settings.visionDistance;
+    if (distance > range) return false;
 
-    for (const guard of this.guards) {
-      if (this.isInVisionCone(guard, playerPos)) {
-        const distance = guard.position.distanceTo(playerPos);
-        // Closer = more detected
-        const distFactor = 1 - (distance / guard.visionDistance);
-        maxDetection = Math.max(maxDetection, distFactor);
+    // Angle to player
+    const angleToPlayer = Math.atan2(playerPos.x - guard.position.x, playerPos.z - guard.position.z);
+    const halfAngle = guard.state === 'chase' ? this.CHASE_VISION_ANGLE : this.VISION_ANGLE;
+    if (Math.abs(Guard.angleDifference(angleToPlayer, guard.rotation)) > halfAngle) return false;
+
+    // Buildings block the view
+    const eye = guard.position.clone();
+    eye.y += this.EYE_HEIGHT;
+    return this.city.hasLineOfSight(eye, playerPos);
+  }
+
+  private startChase(guard: GuardData): void {
+    guard.state = 'chase';
+    guard.lostTimer = 0;
+    guard.path = [];
+  }
+
+  /**
+   * Head back to the route along the streets (nearest intersection first)
+   */
+  private startReturn(guard: GuardData): void {
+    const { nodes, neighbors } = this.city.getStreetGrid();
+    const goal = guard.route[guard.routeIndex];
+
+    let start = goal;
+    let nearest = Infinity;
+    nodes.forEach((node, index) => {
+      const distance = node.distanceToSquared(guard.position);
+      if (distance < nearest && neighbors[index].length > 0) {
+        nearest = distance;
+        start = index;
+      }
+    });
+
+    // Breadth-first search over the street grid
+    const previous = new Map<number, number>([[start, -1]]);
+    const queue = [start];
+    while (queue.length > 0 && !previous.has(goal)) {
+      const current = queue.shift()!;
+      for (const next of neighbors[current]) {
+        if (!previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
       }
     }
 
-    return maxDetection;
+    const path: THREE.Vector3[] = [];
+    if (previous.has(goal)) {
+      for (let node = goal; node !== -1; node = previous.get(node)!) {
+        path.unshift(nodes[node]);
+      }
+    } else {
+      path.push(nodes[goal]); // Not connected - walk straight there
+    }
+
+    guard.state = 'return';
+    guard.path = path;
   }
 
-  private isInVisionCone(guard: GuardData, playerPos: THREE.Vector3): boolean {
-    // Vector from guard to player
-    const dx = playerPos.x - guard.position.x;
-    const dz = playerPos.z - guard.position.z;
-    const distance = Math.sqrt(dx * dx + dz * dz);
+  private followRoute(guard: GuardData, delta: number): void {
+    const { nodes } = this.city.getStreetGrid();
+    if (!this.moveTowards(guard, nodes[guard.route[guard.routeIndex]], this.PATROL_SPEED, delta, 0.5)) return;
 
-    // Too far
-    if (distance > guard.visionDistance) return false;
+    // Walk the route back and forth
+    if (guard.routeIndex + guard.routeStep < 0 || guard.routeIndex + guard.routeStep >= guard.route.length) {
+      guard.routeStep = -guard.routeStep;
+    }
+    guard.routeIndex += guard.routeStep;
+  }
 
-    // Angle to player
-    const angleToPlayer = Math.atan2(dx, dz);
+  private followPath(guard: GuardData, delta: number): void {
+    if (guard.path.length === 0) {
+      guard.state = 'patrol';
+      return;
+    }
+    if (this.moveTowards(guard, guard.path[0], this.RETURN_SPEED, delta, 0.5)) {
+      guard.path.shift();
+    }
+  }
 
-    // Normalize angle difference
-    let angleDiff = angleToPlayer - guard.rotation;
-    while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
-    while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+  /**
+   * Turn and walk towards a point, sliding along buildings. Returns true once within `arriveDistance`.
+   */
+  private moveTowards(
+    guard: GuardData,
+    point: THREE.Vector3,
+    speed: number,
+    delta: number,
+    arriveDistance: number
+  ): boolean {
+    const dx = point.x - guard.position.x;
+    const dz = point.z - guard.position.z;
+    const distance = Math.hypot(dx, dz);
+    if (distance <= arriveDistance) return true;
+
+    // Turn towards the point
+    const difference = Guard.angleDifference(Math.atan2(dx, dz), guard.rotation);
+    const maxTurn = this.TURN_SPEED * delta;
+    guard.rotation += Math.max(-maxTurn, Math.min(maxTurn, difference));
+
+    // Move (without overshooting)
+    const step = Math.min(speed * delta, distance - arriveDistance);
+    guard.position.x += (dx / distance) * step;
+    guard.position.z += (dz / distance) * step;
+
+    const pushOut = this.city.checkCollision(guard.position, this.RADIUS);
+    if (pushOut) {
+      guard.position.add(pushOut);
+    }
 
-    // Check if within vision cone
-    return Math.abs(angleDiff) < guard.visionAngle;
+    return distance - step <= arriveDistance;
   }
 
-  update(delta: number, playerPos: THREE.Vector3): void {
-    // Update alert level based on player detection
-    const detection = this.getDetectionLevel(playerPos);
-
-    if (detection > 0) {
-      this.alertLevel = Math.min(1, this.alertLevel + delta * 2);
+  private updateMesh(guard: GuardData): void {
+    guard.group.position.copy(guard.position);
+    guard.group.rotation.y = guard.rotation;
+
+    // Vision cone shows the guard's state
+    if (guard.state === 'chase') {
+      guard.coneMaterial.color.setHex(0xff0000);
+      guard.coneMaterial.opacity = 0.35;
+    } else if (guard.state === 'suspicious') {
+      guard.coneMaterial.color.setHex(0xffaa00);
+      guard.coneMaterial.opacity = 0.15 + guard.suspicion * 0.2;
     } else {
-      this.alertLevel = Math.max(0, this.alertLevel - delta * 0.5);
+      guard.coneMaterial.color.setHex(0xff3333);
+      guard.coneMaterial.opacity = 0.12;
     }
+  }
 
-    // Update vision cone colors based on alert level
-    this.visionConeMeshes.forEach((coneGroup) => {
-      // Get the cone mesh from the group (it's the first child)
-      const cone = (coneGroup as unknown as THREE.Group).children[0] as THREE.Mesh;
-      if (cone && cone.material) {
-        const mat = cone.material as THREE.MeshBasicMaterial;
-        // Interpolate from red (calm) to bright red (alert)
-        mat.opacity = 0.15 + this.alertLevel * 0.25;
-        if (this.alertLevel > 0.5) {
-          mat.color.setHex(0xff0000);
-        } else {
-          mat.color.setHex(0xff3333);
-        }
-      }
-    });
+  /**
+   * How alerted the most alerted guard is (0-1, 1 = chasing)
+   */
+  getAlertLevel(): number {
+    return this.guards.reduce(
+      (level, guard) => Math.max(level, guard.state === 'chase' ? 1 : guard.suspicion),
+      0
+    );
+  }
 
-    // Slowly rotate guards (patrol behavior)
-    this.guards.forEach((guard, i) => {
-      guard.rotation += Math.sin(Date.now() * 0.001 + i) * delta * 0.3;
-
-      // Update mesh rotation
-      const mesh = this.guardMeshes[i];
-      mesh.rotation.y = guard.rotation;
-
-      // Update cone position and rotation
-      const cone = this.visionConeMeshes[i];
-      cone.rotation.z = guard.rotation + Math.PI / 2;
-      const coneLength = guard.visionDistance;
-      const forwardX = Math.sin(guard.rotation) * (coneLength / 2);
-      const forwardZ = Math.cos(guard.rotation) * (coneLength / 2);
-      cone.position.x = guard.position.x + forwardX;
-      cone.position.z = guard.position.z + forwardZ;
-    });
+  isChasing(): boolean {
+    return this.guards.some(guard => guard.state === 'chase');
   }
 
-  getAlertLevel(): number {
-    return this.alertLevel;
+  // Signed difference between two angles, in -PI..PI
+  private static angleDifference(a: number, b: number): number {
+    let difference = a - b;
+    while (difference > Math.PI) difference -= Math.PI * 2;
+    while (difference < -Math.PI) difference += Math.PI * 2;
+    return difference;
   }
 
   dispose(): void {
-    this.guardMeshes.forEach((mesh) => {
-      this.scene.remove(mesh);
-      mesh.traverse((child) => {
+    this.guards.forEach((guard) => {
+      this.scene.remove(guard.group);
+      guard.group.traverse((child) => {
         if (child instanceof THREE.Mesh) {
           child.geometry.dispose();
           if (child.material instanceof THREE.Material) {
@@ -226,14 +433,6 @@ export class Guard {
       });
     });
 
-    this.visionConeMeshes.forEach((mesh) => {
-      this.scene.remove(mesh);
-      mesh.geometry.dispose();
-      (mesh.material as THREE.Material).dispose();
-    });
-
-    this.guardMeshes = [];
-    this.visionConeMeshes = [];
     this.guards = [];
   }
 }
@@ -1,3 +1,6 @@
+import { DailyChallenge } from './DailyChallenge';
+import { GhostRecorder, GhostRecording } from './GhostRecorder';
+
 export interface HighScore {
   score: number;
   time: number; // seconds
@@ -5,24 +8,141 @@ export interface HighScore {
   fragments: number;
   difficulty: string;
   date: string; // ISO string
+  seed?: number; // City layout seed
+  challengeId?: string; // Daily challenge id (e.g. "daily-2026-02-01")
+  runId?: string; // Unique per finished run, used to look up its global rank
+  playerId?: string; // Anonymous per-browser id (see PlayerProfile)
+  playerName?: string; // Display name chosen on the win screen (sanitized)
+}
+
+// A saved score and the recording of its run
+export interface PersonalBest {
+  score: HighScore;
+  ghost: GhostRecording;
 }
 
 export class HighScoreManager {
   private static readonly STORAGE_KEY = 'unmask-the-city-highscores';
-  private static readonly MAX_SCORES = 10;
+  private static readonly GHOST_STORAGE_KEY = 'unmask-the-city-ghosts'; // Recordings by runId
+  private static readonly MAX_SCORES = 10; // Per leaderboard bucket
+  private static readonly MAX_GHOSTS = 20; // Recordings are large; the oldest go first
+
+  /**
+   * Leaderboard bucket a score belongs to - daily runs are ranked per challenge,
+   * everything else per difficulty
+   */
+  static getBucket(score: HighScore): string {
+    return score.challengeId ? score.challengeId : score.difficulty;
+  }
 
-  static saveScore(score: HighScore): void {
+  /**
+   * Random id for a finished run (also used for anonymous player ids)
+   */
+  static createRunId(): string {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  }
+
+  static matchesBucket(score: HighScore, difficulty: string, challengeId?: string): boolean {
+    if (score.difficulty !== difficulty) return false;
+    return (score.challengeId || undefined) === challengeId;
+  }
+
+  /**
+   * Save a finished run locally. Its recording is kept too if it's the fastest run on
+   * its seed, for later runs there to race as a ghost.
+   */
+  static saveScore(score: HighScore, ghost?: GhostRecording): void {
     const scores = this.getScores();
     scores.push(score);
 
     // Sort by score (descending)
     scores.sort((a, b) => b.score - a.score);
 
-    // Keep only top MAX_SCORES
-    const topScores = scores.slice(0, this.MAX_SCORES);
+    // Keep only top MAX_SCORES per bucket, and drop expired daily challenges
+    const bucketCounts = new Map<string, number>();
+    const topScores = scores.filter((s) => {
+      if (s.challengeId && !DailyChallenge.isRecent(s.challengeId)) return false;
+      const bucket = this.getBucket(s);
+      const count = bucketCounts.get(bucket) || 0;
+      bucketCounts.set(bucket, count + 1);
+      return count < this.MAX_SCORES;
+    });
 
     // Save to localStorage
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(topScores));
+    this.saveGhost(topScores, score, ghost);
+  }
+
+  /**
+   * The fastest saved run on a seed that has a recording, or null if there is none
+   */
+  static getPersonalBest(difficulty: string, seed: number, challengeId?: string): PersonalBest | null {
+    const ghosts = this.loadGhosts();
+    const best = this.findFastest(this.getScoresFor(difficulty, challengeId), ghosts, seed);
+    return best?.runId ? { score: best, ghost: ghosts[best.runId] } : null;
+  }
+
+  // Keep the new run's recording if it beats the seed's previous best (replacing it), and
+  // drop recordings of runs that fell off the local leaderboard
+  private static saveGhost(scores: HighScore[], score: HighScore, ghost?: GhostRecording): void {
+    const ghosts = this.loadGhosts();
+    const kept = scores.find(s => s.runId === score.runId);
+
+    if (ghost && kept?.runId && score.seed !== undefined) {
+      const bucket = scores.filter(s => this.matchesBucket(s, score.difficulty, score.challengeId));
+      const previous = this.findFastest(bucket, ghosts, score.seed);
+      if (!previous || score.time < previous.time) {
+        if (previous?.runId) delete ghosts[previous.runId];
+        ghosts[kept.runId] = ghost;
+      }
+    }
+
+    // Newest first, so the oldest recordings go when there are too many
+    const runIds = [...scores]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(s => s.runId)
+      .filter((runId): runId is string => runId !== undefined && runId in ghosts)
+      .slice(0, this.MAX_GHOSTS);
+    const pruned: Record<string, GhostRecording> = {};
+    runIds.forEach(runId => { pruned[runId] = ghosts[runId]; });
+
+    try {
+      localStorage.setItem(this.GHOST_STORAGE_KEY, JSON.stringify(pruned));
+    } catch (error) {
+      console.error('Failed to save ghost:', error);
+    }
+  }
+
+  private static findFastest(
+    scores: HighScore[],
+    ghosts: Record<string, GhostRecording>,
+    seed: number
+  ): HighScore | null {
+    let fastest: HighScore | null = null;
+    for (const score of scores) {
+      if (score.seed !== seed || !score.runId || !ghosts[score.runId]) continue;
+      if (!fastest || score.time < fastest.time) fastest = score;
+    }
+    return fastest;
+  }
+
+  private static loadGhosts(): Record<string, GhostRecording> {
+    try {
+      const stored = localStorage.getItem(this.GHOST_STORAGE_KEY);
+      if (!stored) return {};
+      const ghosts = JSON.parse(stored) as Record<string, GhostRecording>;
+      // Recordings from an older format can't be replayed
+      Object.keys(ghosts).forEach((runId) => {
+        if (ghosts[runId].version !== GhostRecorder.VERSION) delete ghosts[runId];
+      });
+      return ghosts;
+    } catch (error) {
+      console.error('Failed to load ghosts:', error);
+      return {};
+    }
   }
 
   static getScores(): HighScore[] {
@@ -36,12 +156,27 @@ export class HighScoreManager {
     }
   }
 
+  /**
+   * Scores for one difficulty (or one daily challenge), best first
+   */
+  static getScoresFor(difficulty: string, challengeId?: string): HighScore[] {
+    return this.getScores().filter(s => this.matchesBucket(s, difficulty, challengeId));
+  }
+
+  /**
+   * Run id of the best local score in a bucket, to ask the server for our rank
+   */
+  static getBestRunId(difficulty: string, challengeId?: string): string | undefined {
+    return this.getScoresFor(difficulty, challengeId).find(s => s.runId)?.runId;
+  }
+
   static getTopScores(count: number = 5): HighScore[] {
     return this.getScores().slice(0, count);
   }
 
   static clearScores(): void {
     localStorage.removeItem(this.STORAGE_KEY);
+    localStorage.removeItem(this.GHOST_STORAGE_KEY);
   }
 
   static isHighScore(score: number): boolean {
@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { TouchControls } from './TouchControls';
+import { Keymap } from './Keymap';
+
+// Held/pressed controls the player reads every frame
+export type Control = 'forward' | 'backward' | 'left' | 'right' | 'sprint' | 'jump' | 'slide';
+
+// One-off actions handled by Game ('pause' and 'map' toggle)
+export type InputAction = 'pause' | 'mute' | 'screenshot' | 'map';
+
+// Right-stick look settings, kept in localStorage
+export interface GamepadSettings {
+  lookSensitivity: number; // 0.25 - 3
+  invertY: boolean;
+}
+
+const CONTROLS: Control[] = ['forward', 'backward', 'left', 'right', 'sprint', 'jump', 'slide'];
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const BUTTON = {
+  A: 0,
+  X: 2,
+  Y: 3,
+  LEFT_TRIGGER: 6,
+  RIGHT_TRIGGER: 7,
+  BACK: 8,
+  START: 9,
+};
+const BUTTON_ACTIONS: Record<number, InputAction> = {
+  [BUTTON.START]: 'pause',
+  [BUTTON.BACK]: 'mute',
+  [BUTTON.Y]: 'screenshot',
+  [BUTTON.X]: 'map',
+};
+
+/**
+ * Merges keyboard (through the rebindable Keymap), standard-mapping gamepads and (on touch devices) on-screen controls into
+ * one set of controls: analog movement, stick/drag look, held controls (sprint, slide, jump)
+ * and one-off actions. Mouse look stays with PointerLockControls. Call poll() once per frame
+ * before reading.
+ */
+export class InputManager {
+  private static readonly SETTINGS_KEY = 'unmask-the-city-gamepad-settings';
+  private static readonly DEFAULT_SETTINGS: GamepadSettings = { lookSensitivity: 1, invertY: false };
+  private static readonly DEADZONE = 0.15;
+  private static readonly TRIGGER_THRESHOLD = 0.3;
+  private static readonly LOOK_SPEED = 2.5; // radians per second at full tilt (sensitivity 1)
+
+  private static settings: GamepadSettings | null = null;
+
+  // Keyboard
+  private keys = new Set<string>();
+  private keyPresses = new Set<string>(); // Since the last poll
+
+  // Gamepad (refreshed by poll)
+  private stickMove = new THREE.Vector2(); // x = right, y = forward
+  private stickLook = new THREE.Vector2(); // x = right, y = up
+  private padHeld = new Set<Control>();
+  private padPressed = new Set<Control>();
+  private previousButtons: boolean[] = [];
+  private usingGamepad = false;
+
+  // Touch (only on touch-only devices, see enableTouch)
+  private touch: TouchControls | null = null;
+  private touchLook = new THREE.Vector2();
+
+  // Per-frame results
+  private pressed = new Set<Control>();
+  private actionListeners: ((action: InputAction) => void)[] = [];
+
+  private listenerScope = new AbortController(); // Aborted on dispose
+
+  constructor() {
+    const { signal } = this.listenerScope;
+    document.addEventListener('keydown', (e) => this.onKeyDown(e), { signal });
+    document.addEventListener('keyup', (e) => this.keys.delete(e.code), { signal });
+    document.addEventListener('mousemove', () => {
+      this.usingGamepad = false;
+    }, { signal });
+    // Don't keep keys held when the window loses focus (keyup never arrives)
+    window.addEventListener('blur', () => this.keys.clear(), { signal });
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    // Don't react to typing (e.g. the seed or leaderboard name)
+    if (event.target instanceof HTMLInputElement) return;
+
+    this.usingGamepad = false;
+    if (!event.repeat) {
+      this.keyPresses.add(event.code);
+      // Esc pauses by releasing pointer lock, so it never reaches the keymap
+      const action = Keymap.getAction(event.code);
+      if (action === 'mute' || action === 'screenshot' || action === 'map') this.emit(action);
+      if (action === 'map') event.preventDefault(); // Tab would move focus
+    }
+    this.keys.add(event.code);
+  }
+
+  /**
+   * Add the on-screen joystick, look drag and buttons
+   */
+  enableTouch(): void {
+    if (!this.touch) {
+      this.touch = new TouchControls((action) => this.emit(action));
+    }
+  }
+
+  /**
+   * Read the gamepad and touch controls and latch this frame's presses
+   */
+  poll(): void {
+    this.pollGamepad();
+
+    const touchPresses = this.touch?.takePresses() ?? [];
+    this.touchLook.copy(this.touch?.takeLook() ?? new THREE.Vector2());
+
+    this.pressed.clear();
+    CONTROLS.forEach((control) => {
+      if (
+        Keymap.getKeys(control).some(code => this.keyPresses.has(code)) ||
+        this.padPressed.has(control) ||
+        touchPresses.includes(control)
+      ) {
+        this.pressed.add(control);
+      }
+    });
+    this.keyPresses.clear();
+    this.padPressed.clear();
+  }
+
+  private pollGamepad(): void {
+    const gamepad = InputManager.getGamepad();
+    if (!gamepad) {
+      this.stickMove.set(0, 0);
+      this.stickLook.set(0, 0);
+      this.padHeld.clear();
+      this.previousButtons = [];
+      return;
+    }
+
+    const axis = (index: number): number => InputManager.applyDeadzone(gamepad.axes[index] ?? 0);
+    this.stickMove.set(axis(0), -axis(1));
+    this.stickLook.set(axis(2), -axis(3));
+    if (this.stickMove.lengthSq() > 1) this.stickMove.normalize();
+
+    const buttons = gamepad.buttons.map((button, index) =>
+      index === BUTTON.LEFT_TRIGGER || index === BUTTON.RIGHT_TRIGGER
+        ? button.value > InputManager.TRIGGER_THRESHOLD
+        : button.pressed
+    );
+    const justPressed = (index: number): boolean => !!buttons[index] && !this.previousButtons[index];
+
+    this.padHeld.clear();
+    if (buttons[BUTTON.A]) this.padHeld.add('jump');
+    if (buttons[BUTTON.RIGHT_TRIGGER]) this.padHeld.add('sprint');
+    if (buttons[BUTTON.LEFT_TRIGGER]) this.padHeld.add('slide');
+    if (justPressed(BUTTON.A)) this.padPressed.add('jump');
+    if (justPressed(BUTTON.LEFT_TRIGGER)) this.padPressed.add('slide');
+
+    Object.entries(BUTTON_ACTIONS).forEach(([index, action]) => {
+      if (justPressed(Number(index))) this.emit(action);
+    });
+
+    if (buttons.some(Boolean) || this.stickMove.lengthSq() > 0 || this.stickLook.lengthSq() > 0) {
+      this.usingGamepad = true;
+    }
+    this.previousButtons = buttons;
+  }
+
+  /**
+   * Movement as x = right, y = forward, each -1..1 (length at most 1).
+   * Keys give full deflection, the left stick and touch joystick are proportional.
+   */
+  getMove(): THREE.Vector2 {
+    const move = new THREE.Vector2(
+      Number(this.isKeyHeld('right')) - Number(this.isKeyHeld('left')),
+      Number(this.isKeyHeld('forward')) - Number(this.isKeyHeld('backward'))
+    );
+    if (move.lengthSq() > 0) return move.normalize();
+    if (this.stickMove.lengthSq() > 0 || !this.touch) return this.stickMove.clone();
+    return this.touch.getMove();
+  }
+
+  /**
+   * Right-stick and touch-drag look for this frame in radians (x = yaw to the right, y = pitch up)
+   */
+  getLook(delta: number): THREE.Vector2 {
+    const settings = InputManager.getGamepadSettings();
+    const speed = InputManager.LOOK_SPEED * settings.lookSensitivity * delta;
+    return new THREE.Vector2(
+      this.stickLook.x * speed,
+      this.stickLook.y * speed * (settings.invertY ? -1 : 1)
+    ).add(this.touchLook);
+  }
+
+  isHeld(control: Control): boolean {
+    return this.isKeyHeld(control) || this.padHeld.has(control) || !!this.touch?.isHeld(control);
+  }
+
+  /**
+   * Whether a control went down since the previous poll
+   */
+  wasPressed(control: Control): boolean {
+    return this.pressed.has(control);
+  }
+
+  /**
+   * True when the last input came from a gamepad (it plays without pointer lock)
+   */
+  isUsingGamepad(): boolean {
+    return this.usingGamepad;
+  }
+
+  onAction(listener: (action: InputAction) => void): void {
+    this.actionListeners.push(listener);
+  }
+
+  /**
+   * Forget held keys and touches (e.g. on restart, so nothing stays stuck down)
+   */
+  reset(): void {
+    this.keys.clear();
+    this.keyPresses.clear();
+    this.pressed.clear();
+    this.touch?.reset();
+    this.touchLook.set(0, 0);
+  }
+
+  /**
+   * Stop listening (the game is being replaced)
+   */
+  dispose(): void {
+    this.listenerScope.abort();
+    this.actionListeners = [];
+    this.touch?.dispose();
+    this.touch = null;
+  }
+
+  private isKeyHeld(control: Control): boolean {
+    return Keymap.getKeys(control).some(code => this.keys.has(code));
+  }
+
+  private emit(action: InputAction): void {
+    this.actionListeners.forEach(listener => listener(action));
+  }
+
+  static getGamepadSettings(): GamepadSettings {
+    if (!this.settings) {
+      try {
+        const stored = localStorage.getItem(this.SETTINGS_KEY);
+        this.settings = { ...this.DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+      } catch (error) {
+        console.error('Failed to load gamepad settings:', error);
+        this.settings = { ...this.DEFAULT_SETTINGS };
+      }
+    }
+    return this.settings!;
+  }
+
+  static setGamepadSettings(changes: Partial<GamepadSettings>): void {
+    this.settings = { ...this.getGamepadSettings(), ...changes };
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save gamepad settings:', error);
+    }
+  }
+
+  // First connected gamepad, preferring ones with the standard layout
+  private static getGamepad(): Gamepad | null {
+    if (!navigator.getGamepads) return null;
+    const gamepads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected);
+    return gamepads.find(pad => pad.mapping === 'standard') ?? gamepads[0] ?? null;
+  }
+
+  // Rescale so the stick reads 0 inside the deadzone and still reaches 1 at the edge
+  private static applyDeadzone(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < this.DEADZONE) return 0;
+    return Math.sign(value) * Math.min(1, (magnitude - this.DEADZONE) / (1 - this.DEADZONE));
+  }
+}
@@ -0,0 +1,195 @@
+import type { Control, InputAction } from './InputManager';
+
+// Everything that can be bound to a key (pause stays on Esc, which releases pointer lock)
+export type KeyAction = Control | Exclude<InputAction, 'pause'>;
+
+// Key codes (KeyboardEvent.code) per action: a primary and an optional secondary key
+export type KeyBindings = Record<KeyAction, string[]>;
+
+/**
+ * Result of binding a key: the action that already used it (if any) lost it,
+ * getting the rebound action's old key instead when there was one
+ */
+export interface BindResult {
+  swappedWith: KeyAction | null;
+}
+
+/**
+ * The keyboard keymap, kept in localStorage. Bindings use physical key codes,
+ * so they stay in the same place on any layout.
+ */
+export class Keymap {
+  static readonly SLOTS = 2;
+
+  // Order and labels of the rebinding UI
+  static readonly ACTIONS: { action: KeyAction; label: string }[] = [
+    { action: 'forward', label: 'Move forward' },
+    { action: 'backward', label: 'Move back' },
+    { action: 'left', label: 'Move left' },
+    { action: 'right', label: 'Move right' },
+    { action: 'sprint', label: 'Sprint' },
+    { action: 'jump', label: 'Jump / climb' },
+    { action: 'slide', label: 'Slide' },
+    { action: 'mute', label: 'Mute audio' },
+    { action: 'screenshot', label: 'Screenshot' },
+    { action: 'map', label: 'City map' },
+  ];
+
+  // Can't be bound: Esc is how the browser releases pointer lock
+  static readonly RESERVED_CODES = ['Escape'];
+
+  private static readonly STORAGE_KEY = 'unmask-the-city-keymap';
+  private static readonly DEFAULTS: KeyBindings = {
+    forward: ['KeyW', 'ArrowUp'],
+    backward: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    sprint: ['ShiftLeft', 'ShiftRight'],
+    jump: ['Space'],
+    slide: ['ControlLeft', 'ControlRight'],
+    mute: ['KeyM'],
+    screenshot: ['KeyP'],
+    map: ['Tab'],
+  };
+
+  private static bindings: KeyBindings | null = null;
+  private static listeners: (() => void)[] = [];
+
+  static getBindings(): KeyBindings {
+    if (!this.bindings) {
+      this.bindings = this.load();
+    }
+    return this.bindings;
+  }
+
+  static getKeys(action: KeyAction): string[] {
+    return this.getBindings()[action];
+  }
+
+  /**
+   * The action a key is bound to, if any
+   */
+  static getAction(code: string): KeyAction | null {
+    const bindings = this.getBindings();
+    return this.ACTIONS.find(({ action }) => bindings[action].includes(code))?.action ?? null;
+  }
+
+  /**
+   * Bind a key to one of an action's slots. A key can only do one thing: if another
+   * action already had it, the two swap keys.
+   */
+  static bind(action: KeyAction, slot: number, code: string): BindResult {
+    if (!this.isBindable(code)) {
+      throw new Error(code ? `${this.getKeyLabel(code)} can't be bound` : `That key can't be bound`);
+    }
+    const bindings = this.copy(this.getBindings());
+    const previous = bindings[action][slot] as string | undefined;
+    if (previous === code) return { swappedWith: null };
+
+    // Conflict: take the key off whatever had it
+    const other = this.getAction(code);
+    if (other && other !== action) {
+      const otherKeys = bindings[other];
+      if (previous && !otherKeys.includes(previous)) {
+        otherKeys[otherKeys.indexOf(code)] = previous;
+      } else if (otherKeys.length > 1) {
+        otherKeys.splice(otherKeys.indexOf(code), 1);
+      } else {
+        const label = this.ACTIONS.find(entry => entry.action === other)!.label;
+        throw new Error(`${this.getKeyLabel(code)} is the only key for ${label}`);
+      }
+    } else if (other === action) {
+      // Moving a key between this action's own slots
+      const keys = bindings[action];
+      if (previous) {
+        keys[keys.indexOf(code)] = previous;
+      } else {
+        keys.splice(keys.indexOf(code), 1);
+      }
+    }
+
+    const keys = bindings[action];
+    keys[Math.min(slot, keys.length)] = code;
+    this.save(bindings);
+    return { swappedWith: other && other !== action ? other : null };
+  }
+
+  /**
+   * Remove a secondary key. Every action keeps at least one key.
+   */
+  static unbind(action: KeyAction, slot: number): void {
+    const bindings = this.copy(this.getBindings());
+    if (bindings[action].length <= 1) return;
+    bindings[action].splice(slot, 1);
+    this.save(bindings);
+  }
+
+  static resetToDefaults(): void {
+    this.save(this.copy(this.DEFAULTS));
+  }
+
+  static onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Short display name for a key code (e.g. KeyW -> W, ShiftLeft -> L-Shift)
+   */
+  static getKeyLabel(code: string): string {
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+    const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+    if (arrows[code]) return arrows[code];
+    const side = code.match(/^(Shift|Control|Alt|Meta)(Left|Right)$/);
+    if (side) {
+      const name = side[1] === 'Control' ? 'Ctrl' : side[1];
+      return `${side[2] === 'Left' ? 'L' : 'R'}-${name}`;
+    }
+    return code;
+  }
+
+  private static load(): KeyBindings {
+    const bindings = this.copy(this.DEFAULTS);
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) as Partial<Record<KeyAction, unknown>> : {};
+      this.ACTIONS.forEach(({ action }) => {
+        const keys = parsed[action];
+        // Ignore anything malformed (e.g. hand-edited storage) and keep the default for that action
+        if (
+          Array.isArray(keys) && keys.length >= 1 && keys.length <= this.SLOTS &&
+          keys.every(key => typeof key === 'string' && this.isBindable(key))
+        ) {
+          bindings[action] = keys;
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load keymap:', error);
+    }
+    return bindings;
+  }
+
+  // Real key codes only (some virtual keyboards report an empty code)
+  private static isBindable(code: string): boolean {
+    return /^[A-Za-z0-9]+$/.test(code) && !this.RESERVED_CODES.includes(code);
+  }
+
+  private static save(bindings: KeyBindings): void {
+    this.bindings = bindings;
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      console.error('Failed to save keymap:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static copy(bindings: KeyBindings): KeyBindings {
+    const copy = {} as KeyBindings;
+    this.ACTIONS.forEach(({ action }) => {
+      copy[action] = [...bindings[action]];
+    });
+    return copy;
+  }
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { Building, CityLayout, Park } from './CityLayout';
+import { WaterBody } from './WaterLayout';
+
+/**
+ * Draws the city's ground plan onto a 2D canvas in world units: the caller sets a transform
+ * from world x/z to canvas pixels first, so the same drawing serves any map view.
+ */
+export class MapDrawing {
+  static readonly GROUND_COLOR = '#2a2a33';
+  static readonly WATER_COLOR = '#1e3a5f';
+  static readonly PARK_COLOR = '#1f4d2e';
+  static readonly BUILDING_COLOR = '#6b7280';
+  static readonly LANDMARK_COLOR = '#e5e7eb';
+  static readonly TRAIL_COLOR = '#4ade80';
+  private static readonly SHORE_POINTS = 48;
+  private static readonly RIVER_POINTS = 24;
+  private static readonly LANDMARK_COUNT = 5; // Tallest buildings, the ones you can see from afar
+
+  /**
+   * The whole ground plan: ground, water, parks, buildings and landmarks
+   */
+  static drawCity(ctx: CanvasRenderingContext2D, layout: CityLayout, bodies: WaterBody[]): void {
+    const half = layout.size / 2;
+    ctx.fillStyle = this.GROUND_COLOR;
+    ctx.fillRect(-half, -half, layout.size, layout.size);
+    this.drawWater(ctx, bodies);
+    this.drawParks(ctx, layout.parks);
+    this.drawBuildings(ctx, layout.buildings);
+    this.drawLandmarks(ctx, layout.buildings);
+  }
+
+  static drawWater(ctx: CanvasRenderingContext2D, bodies: WaterBody[]): void {
+    ctx.fillStyle = this.WATER_COLOR;
+    bodies.forEach((body) => {
+      ctx.beginPath();
+      if (body.type === 'lake') {
+        this.traceLake(ctx, body);
+      } else {
+        this.traceRiver(ctx, body);
+      }
+      ctx.closePath();
+      ctx.fill();
+    });
+  }
+
+  static drawParks(ctx: CanvasRenderingContext2D, parks: Park[]): void {
+    ctx.fillStyle = this.PARK_COLOR;
+    parks.forEach((park) => {
+      ctx.beginPath();
+      ctx.arc(park.position.x, park.position.z, park.radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+
+  static drawBuildings(ctx: CanvasRenderingContext2D, buildings: Building[], color = this.BUILDING_COLOR): void {
+    ctx.fillStyle = color;
+    buildings.forEach((building) => {
+      const { x, z } = building.position;
+      if (building.type === 'cylinder') {
+        ctx.beginPath();
+        ctx.arc(x, z, Math.min(building.width, building.depth) / 2, 0, Math.PI * 2);
+        ctx.fill();
+        return;
+      }
+      ctx.fillRect(x - building.width / 2, z - building.depth / 2, building.width, building.depth);
+
+      const wing = CityLayout.getWingFootprint(building);
+      if (wing) {
+        ctx.fillRect(wing.x - wing.width / 2, wing.z - wing.depth / 2, wing.width, wing.depth);
+      }
+    });
+  }
+
+  static drawLandmarks(ctx: CanvasRenderingContext2D, buildings: Building[]): void {
+    const tallest = [...buildings].sort((a, b) => b.height - a.height).slice(0, this.LANDMARK_COUNT);
+    this.drawBuildings(ctx, tallest, this.LANDMARK_COLOR);
+  }
+
+  /**
+   * A path as a line `width` pixels wide (scale = pixels per world unit of the transform)
+   */
+  static drawPath(ctx: CanvasRenderingContext2D, points: THREE.Vector3[], width: number, scale: number): void {
+    if (points.length < 2) return;
+    ctx.strokeStyle = this.TRAIL_COLOR;
+    ctx.lineWidth = width / scale;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].z);
+    for (let i = 1; i < points.length; i++) {
+      ctx.lineTo(points[i].x, points[i].z);
+    }
+    ctx.stroke();
+  }
+
+  // Same shoreline WaterLayout.isInWater() tests against
+  private static traceLake(ctx: CanvasRenderingContext2D, body: WaterBody): void {
+    const shape = body.shorelineShape ?? [];
+    for (let i = 0; i < this.SHORE_POINTS; i++) {
+      const angle = (i / this.SHORE_POINTS) * Math.PI * 2;
+      let variation = 1;
+      if (shape.length > 0) {
+        const shapeIndex = (angle / (Math.PI * 2)) * shape.length;
+        const idx1 = Math.floor(shapeIndex) % shape.length;
+        const t = shapeIndex - Math.floor(shapeIndex);
+        variation = shape[idx1] * (1 - t) + shape[(idx1 + 1) % shape.length] * t;
+      }
+      const radius = body.radius * variation;
+      ctx.lineTo(body.position.x + Math.cos(angle) * radius, body.position.z + Math.sin(angle) * radius);
+    }
+  }
+
+  // Both banks along the river's length, with its stepped width variation
+  private static traceRiver(ctx: CanvasRenderingContext2D, body: WaterBody): void {
+    const angle = body.riverAngle || 0;
+    const length = body.riverLength || 80;
+    const shape = body.shorelineShape ?? [];
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const bank = (side: number, i: number) => {
+      const t = i / this.RIVER_POINTS;
+      const width = shape.length > 0
+        ? body.radius * shape[Math.min(shape.length - 1, Math.floor(t * shape.length))]
+        : body.radius;
+      const localX = side * width;
+      const localZ = (t - 0.5) * length;
+      ctx.lineTo(body.position.x + localX * cos - localZ * sin, body.position.z + localX * sin + localZ * cos);
+    };
+    for (let i = 0; i <= this.RIVER_POINTS; i++) bank(1, i);
+    for (let i = this.RIVER_POINTS; i >= 0; i--) bank(-1, i);
+  }
+}
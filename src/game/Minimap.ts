@@ -1,41 +1,68 @@
 import * as THREE from 'three';
-import { FogOfWar } from './FogOfWar';
+import { City } from './City';
+import { CityLayout } from './CityLayout';
+import { FogChange, FogOfWar } from './FogOfWar';
+import { MapDrawing } from './MapDrawing';
+import { Water } from './Water';
+
+// Minimap view settings, kept in localStorage
+export interface MinimapSettings {
+  rotate: boolean; // Turn the map with the player (false = north up)
+  zoom: number; // 1 = whole city
+}
 
+/**
+ * Corner map: the city's ground plan (rasterized once per city) under the fog of war
+ * (repainted only where the fog changed), plus fragments and the player
+ */
 export class Minimap {
+  static readonly MAX_ZOOM = 4;
+  private static readonly SETTINGS_KEY = 'unmask-the-city-minimap-settings';
+  private static readonly DEFAULT_SETTINGS: MinimapSettings = { rotate: false, zoom: 1 };
+  private static settings: MinimapSettings | null = null;
+
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private fogOfWar: FogOfWar;
-  private worldSize: number;
-  private resolution: number;
+  private city: City;
+  private water: Water;
+
+  // City layer for the current layout
+  private baseCanvas: HTMLCanvasElement;
+  private baseLayout: CityLayout | null = null;
+  // Fog layer at fog texture resolution: unexplored texels opaque, explored ones clear
+  private fogCanvas: HTMLCanvasElement;
+  private fogCtx: CanvasRenderingContext2D;
+  private fogImage: ImageData | null = null;
+  private fogDirty: FogChange | null = null;
 
   private readonly SIZE = 150;
+  private readonly BASE_SIZE = this.SIZE * Minimap.MAX_ZOOM; // Sharp at the closest zoom
   private readonly PLAYER_MARKER_SIZE = 6;
   private readonly FRAGMENT_MARKER_SIZE = 4;
+  private readonly UNEXPLORED_COLOR = [30, 30, 36];
 
-  constructor(fogOfWar: FogOfWar, worldSize: number) {
+  constructor(fogOfWar: FogOfWar, city: City, water: Water) {
     this.fogOfWar = fogOfWar;
-    this.worldSize = worldSize;
-    this.resolution = 512; // Match fog texture resolution
+    this.city = city;
+    this.water = water;
 
     // Create canvas element
     this.canvas = document.createElement('canvas');
     this.canvas.width = this.SIZE;
     this.canvas.height = this.SIZE;
-    this.canvas.id = 'minimap';
-    this.canvas.style.cssText = `
-      position: absolute;
-      top: 20px;
-      right: 20px;
-      width: ${this.SIZE}px;
-      height: ${this.SIZE}px;
-      border: 2px solid rgba(255, 255, 255, 0.3);
-      border-radius: 8px;
-      background: rgba(0, 0, 0, 0.6);
-      pointer-events: none;
-    `;
+    this.canvas.id = 'minimap'; // Styled in index.html (position moves on touch devices)
 
     this.ctx = this.canvas.getContext('2d')!;
 
+    this.baseCanvas = document.createElement('canvas');
+    this.baseCanvas.width = this.BASE_SIZE;
+    this.baseCanvas.height = this.BASE_SIZE;
+    this.fogCanvas = document.createElement('canvas');
+    this.fogCtx = this.fogCanvas.getContext('2d')!;
+
+    this.fogOfWar.onChange((change) => this.markFogDirty(change));
+
     // Add to HUD
     const hud = document.getElementById('hud');
     if (hud) {
@@ -49,57 +76,52 @@ export class Minimap {
     collectibles: { getPosition: () => THREE.Vector3; isCollected: boolean }[]
   ): void {
     const ctx = this.ctx;
-    const halfWorld = this.worldSize / 2;
+    const layout = this.city.getLayout();
+    const worldSize = layout.size;
+    const halfWorld = worldSize / 2;
+    const settings = Minimap.getSettings();
+
+    // New city (restart with another seed): rasterize its ground plan
+    if (layout !== this.baseLayout) {
+      this.drawBase(layout);
+    }
+    this.updateFogLayer();
+
+    // View: the whole city when north up and zoomed out, otherwise around the player
+    const zoom = THREE.MathUtils.clamp(settings.zoom, 1, Minimap.MAX_ZOOM);
+    const followPlayer = settings.rotate || zoom > 1;
+    const centerX = followPlayer ? playerPos.x : 0;
+    const centerZ = followPlayer ? playerPos.z : 0;
+    const scale = (this.SIZE / worldSize) * zoom; // Pixels per meter
+    const rotation = settings.rotate ? playerRotation : 0; // Player's view points up when rotating
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    // Convert world position to minimap position (both axes flipped to match world orientation)
+    const worldToMinimap = (worldX: number, worldZ: number): [number, number] => {
+      const dx = (centerX - worldX) * scale;
+      const dy = (centerZ - worldZ) * scale;
+      return [this.SIZE / 2 + dx * cos - dy * sin, this.SIZE / 2 + dx * sin + dy * cos];
+    };
 
     // Clear canvas
     ctx.clearRect(0, 0, this.SIZE, this.SIZE);
 
-    // Draw fog of war (explored areas)
-    const fogTexture = this.fogOfWar.getTexture();
-    const fogData = fogTexture.image.data as Uint8Array;
-
-    // Create image data for the minimap
-    const imageData = ctx.createImageData(this.SIZE, this.SIZE);
-    const data = imageData.data;
-
-    // Scale factor from fog texture to minimap
-    const scale = this.resolution / this.SIZE;
-
-    for (let y = 0; y < this.SIZE; y++) {
-      for (let x = 0; x < this.SIZE; x++) {
-        // Sample fog texture (flip both X and Y to match world orientation)
-        const fogX = Math.floor((this.SIZE - 1 - x) * scale); // Flip X
-        const fogY = Math.floor((this.SIZE - 1 - y) * scale); // Flip Y
-        const fogIndex = fogY * this.resolution + fogX;
-        const fogValue = fogData[fogIndex];
-
-        const pixelIndex = (y * this.SIZE + x) * 4;
-
-        // Fog color (darker = explored)
-        const explored = 1 - fogValue / 255;
-
-        // Background (unexplored) is dark gray, explored is lighter
-        const baseColor = 30; // Dark background
-        const exploredColor = 80; // Lighter for explored areas
-        const color = baseColor + explored * (exploredColor - baseColor);
-
-        data[pixelIndex] = color;     // R
-        data[pixelIndex + 1] = color; // G
-        data[pixelIndex + 2] = color + explored * 20; // B (slight blue tint for explored)
-        data[pixelIndex + 3] = 200;   // A
-      }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-
-    // Convert world position to minimap position
-    const worldToMinimap = (worldX: number, worldZ: number): [number, number] => {
-      const x = ((halfWorld - worldX) / this.worldSize) * this.SIZE; // Flip X for correct orientation
-      const y = ((halfWorld - worldZ) / this.worldSize) * this.SIZE; // Flip Z
-      return [x, y];
-    };
+    // City under the fog, with the same transform as worldToMinimap
+    ctx.save();
+    ctx.translate(this.SIZE / 2, this.SIZE / 2);
+    ctx.rotate(rotation);
+    ctx.scale(-scale, -scale);
+    ctx.translate(-centerX, -centerZ);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(this.baseCanvas, -halfWorld, -halfWorld, worldSize, worldSize);
+    ctx.drawImage(this.fogCanvas, -halfWorld, -halfWorld, worldSize, worldSize);
+    ctx.restore();
 
     // Draw uncollected fragments
+    const fogTexture = this.fogOfWar.getTexture();
+    const fogData = fogTexture.image.data as Uint8Array;
+    const resolution = fogTexture.image.width;
     ctx.fillStyle = '#00ffaa';
     collectibles.forEach((collectible) => {
       if (collectible.isCollected) return;
@@ -107,9 +129,9 @@ export class Minimap {
       const [mx, my] = worldToMinimap(pos.x, pos.z);
 
       // Only draw if in explored area
-      const fogX = Math.floor(((pos.x + halfWorld) / this.worldSize) * this.resolution);
-      const fogZ = Math.floor(((pos.z + halfWorld) / this.worldSize) * this.resolution);
-      const fogIndex = fogZ * this.resolution + fogX;
+      const fogX = Math.floor(((pos.x + halfWorld) / worldSize) * resolution);
+      const fogZ = Math.floor(((pos.z + halfWorld) / worldSize) * resolution);
+      const fogIndex = fogZ * resolution + fogX;
       if (fogIndex >= 0 && fogIndex < fogData.length && fogData[fogIndex] < 200) {
         ctx.beginPath();
         ctx.arc(mx, my, this.FRAGMENT_MARKER_SIZE, 0, Math.PI * 2);
@@ -122,7 +144,7 @@ export class Minimap {
 
     ctx.save();
     ctx.translate(px, py);
-    ctx.rotate(-playerRotation); // Match player facing direction
+    ctx.rotate(rotation - playerRotation); // Match player facing direction
 
     // Draw player arrow
     ctx.fillStyle = '#ffffff';
@@ -135,6 +157,16 @@ export class Minimap {
 
     ctx.restore();
 
+    // North marker on the edge while the map turns
+    if (settings.rotate) {
+      const radius = this.SIZE / 2 - 10;
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 11px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('N', this.SIZE / 2 + sin * radius, this.SIZE / 2 - cos * radius);
+    }
+
     // Draw border
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
     ctx.lineWidth = 1;
@@ -144,4 +176,77 @@ export class Minimap {
   dispose(): void {
     this.canvas.remove();
   }
+
+  static getSettings(): MinimapSettings {
+    if (!this.settings) {
+      try {
+        const stored = localStorage.getItem(this.SETTINGS_KEY);
+        this.settings = { ...this.DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+      } catch (error) {
+        console.error('Failed to load minimap settings:', error);
+        this.settings = { ...this.DEFAULT_SETTINGS };
+      }
+    }
+    return this.settings!;
+  }
+
+  static setSettings(changes: Partial<MinimapSettings>): void {
+    this.settings = { ...this.getSettings(), ...changes };
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save minimap settings:', error);
+    }
+  }
+
+  private drawBase(layout: CityLayout): void {
+    const ctx = this.baseCanvas.getContext('2d')!;
+    const scale = this.BASE_SIZE / layout.size;
+    ctx.setTransform(scale, 0, 0, scale, this.BASE_SIZE / 2, this.BASE_SIZE / 2);
+    ctx.clearRect(-layout.size / 2, -layout.size / 2, layout.size, layout.size);
+    MapDrawing.drawCity(ctx, layout, this.water.getWaterBodies());
+    this.baseLayout = layout;
+  }
+
+  private markFogDirty(change: FogChange): void {
+    if (!this.fogDirty) {
+      this.fogDirty = { ...change };
+      return;
+    }
+    this.fogDirty.minX = Math.min(this.fogDirty.minX, change.minX);
+    this.fogDirty.minZ = Math.min(this.fogDirty.minZ, change.minZ);
+    this.fogDirty.maxX = Math.max(this.fogDirty.maxX, change.maxX);
+    this.fogDirty.maxZ = Math.max(this.fogDirty.maxZ, change.maxZ);
+  }
+
+  // Copy the fog texels that changed since the last frame into the fog layer
+  private updateFogLayer(): void {
+    const texture = this.fogOfWar.getTexture();
+    const fogData = texture.image.data as Uint8Array;
+    const resolution = texture.image.width;
+    if (!this.fogImage || this.fogImage.width !== resolution) {
+      this.fogCanvas.width = resolution;
+      this.fogCanvas.height = resolution;
+      this.fogImage = this.fogCtx.createImageData(resolution, resolution);
+      const [r, g, b] = this.UNEXPLORED_COLOR;
+      for (let i = 0; i < resolution * resolution; i++) {
+        this.fogImage.data[i * 4] = r;
+        this.fogImage.data[i * 4 + 1] = g;
+        this.fogImage.data[i * 4 + 2] = b;
+      }
+      this.fogDirty = { minX: 0, minZ: 0, maxX: resolution - 1, maxZ: resolution - 1 };
+    }
+    if (!this.fogDirty) return;
+
+    const { minX, minZ, maxX, maxZ } = this.fogDirty;
+    const pixels = this.fogImage.data;
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        const index = z * resolution + x;
+        pixels[index * 4 + 3] = fogData[index];
+      }
+    }
+    this.fogCtx.putImageData(this.fogImage, 0, 0, minX, minZ, maxX - minX + 1, maxZ - minZ + 1);
+    this.fogDirty = null;
+  }
 }
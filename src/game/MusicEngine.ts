@@ -0,0 +1,243 @@
+/**
+ * What the music follows, updated every frame by AudioManager
+ */
+export interface MusicState {
+  nightAmount: number; // 0 = day, 1 = night
+  corruption: number; // Corruption under the player (0-1)
+  proximity: number; // 0 = no fragment nearby, 1 = right next to one
+  progress: number; // Share of the fragments collected (0-1)
+  victory: boolean; // Win sequence and win screen
+}
+
+type Stem = 'pad' | 'pulse' | 'bass' | 'corruption' | 'bells' | 'victory';
+
+/**
+ * Procedural layered music. A looping chord progression is sequenced a little ahead of
+ * the audio clock, and each stem (pad, fragment pulse, bass, corruption drone, night bells,
+ * victory arpeggio) has its own gain that fades toward a level picked from the game state.
+ */
+export class MusicEngine {
+  private static readonly TEMPO = 80; // Beats per minute
+  private static readonly STEPS_PER_BAR = 8; // Eighth notes in 4/4
+  private static readonly LOOK_AHEAD = 0.2; // Seconds of notes scheduled ahead of the clock
+  private static readonly FADE_TIME = 1.2; // Time constant of stem fades (seconds)
+  private static readonly SILENT = 0.01; // Stems below this level don't schedule notes
+
+  // A minor while exploring (Am, F, C, G), resolving to C major on a win (C, F, G, C)
+  private static readonly PROGRESSION = [
+    [220, 261.63, 329.63],
+    [174.61, 220, 261.63],
+    [130.81, 164.81, 196],
+    [196, 246.94, 293.66],
+  ];
+  private static readonly VICTORY_PROGRESSION = [
+    [130.81, 164.81, 196],
+    [174.61, 220, 261.63],
+    [196, 246.94, 293.66],
+    [261.63, 329.63, 392],
+  ];
+  private static readonly PULSE_PATTERN = [0, 1, 2, 1, 0, 2, 1, 2]; // Chord tone per step
+  private static readonly VICTORY_PATTERN = [0, 1, 2, 3, 2, 1, 2, 3]; // 3 = root an octave up
+
+  private audioContext: AudioContext;
+  private stems: Record<Stem, GainNode>;
+  private levels: Record<Stem, number>;
+
+  // Sustained layers
+  private padOscillators: OscillatorNode[] = [];
+  private padFilter: BiquadFilterNode;
+  private droneOscillators: OscillatorNode[] = [];
+
+  private padCutoff = 900;
+  private step = 0;
+  private nextStepTime = 0;
+  private victory = false;
+
+  constructor(audioContext: AudioContext, output: AudioNode) {
+    this.audioContext = audioContext;
+
+    const createStem = (): GainNode => {
+      const gain = audioContext.createGain();
+      gain.gain.value = 0;
+      gain.connect(output);
+      return gain;
+    };
+    this.stems = {
+      pad: createStem(),
+      pulse: createStem(),
+      bass: createStem(),
+      corruption: createStem(),
+      bells: createStem(),
+      victory: createStem(),
+    };
+    this.levels = { pad: 0, pulse: 0, bass: 0, corruption: 0, bells: 0, victory: 0 };
+
+    // Pad: one oscillator per chord tone, gliding to the next chord each bar
+    this.padFilter = audioContext.createBiquadFilter();
+    this.padFilter.type = 'lowpass';
+    this.padFilter.frequency.value = 900;
+    this.padFilter.connect(this.stems.pad);
+    MusicEngine.PROGRESSION[0].forEach((freq) => {
+      const osc = audioContext.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.value = freq;
+      osc.connect(this.padFilter);
+      osc.start();
+      this.padOscillators.push(osc);
+    });
+
+    // Corruption: a detuned tritone drone, its filter swept slowly for unease
+    const droneFilter = audioContext.createBiquadFilter();
+    droneFilter.type = 'bandpass';
+    droneFilter.frequency.value = 400;
+    droneFilter.Q.value = 4;
+    droneFilter.connect(this.stems.corruption);
+    [110, 155.56, 111.5].forEach((freq) => {
+      const osc = audioContext.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = freq;
+      osc.connect(droneFilter);
+      osc.start();
+      this.droneOscillators.push(osc);
+    });
+    const sweep = audioContext.createOscillator();
+    sweep.frequency.value = 0.15;
+    const sweepDepth = audioContext.createGain();
+    sweepDepth.gain.value = 250;
+    sweep.connect(sweepDepth);
+    sweepDepth.connect(droneFilter.frequency);
+    sweep.start();
+    this.droneOscillators.push(sweep);
+  }
+
+  /**
+   * Fade the stems toward the state and schedule the notes coming up
+   */
+  update(state: MusicState): void {
+    const now = this.audioContext.currentTime;
+    this.victory = state.victory;
+
+    // While exploring: the pad is always there, the rest follows the game. On a win
+    // everything tense drops out for the victory arpeggio.
+    const exploring = state.victory ? 0 : 1;
+    this.setLevel('pad', 0.35, now);
+    this.setLevel('pulse', exploring * state.proximity * 0.5, now);
+    this.setLevel('bass', exploring * (0.08 + state.progress * 0.32), now);
+    this.setLevel('corruption', exploring * state.corruption * 0.12, now);
+    this.setLevel('bells', exploring * state.nightAmount * 0.4, now);
+    this.setLevel('victory', state.victory ? 0.45 : 0, now);
+
+    // Darker pad at night
+    const padCutoff = 1200 - state.nightAmount * 700;
+    if (Math.abs(padCutoff - this.padCutoff) > 1) {
+      this.padCutoff = padCutoff;
+      this.padFilter.frequency.setTargetAtTime(padCutoff, now, MusicEngine.FADE_TIME);
+    }
+
+    // Catch up after a stall (hidden tab, pause) instead of playing every missed note at once
+    if (this.nextStepTime < now) {
+      this.nextStepTime = now + 0.05;
+    }
+    while (this.nextStepTime < now + MusicEngine.LOOK_AHEAD) {
+      this.scheduleStep(this.step, this.nextStepTime);
+      this.step = (this.step + 1) % (MusicEngine.STEPS_PER_BAR * MusicEngine.PROGRESSION.length);
+      this.nextStepTime += this.getStepDuration();
+    }
+  }
+
+  dispose(): void {
+    [...this.padOscillators, ...this.droneOscillators].forEach((osc) => {
+      try {
+        osc.stop();
+      } catch (e) {
+        // Ignore if already stopped
+      }
+    });
+    Object.values(this.stems).forEach(stem => stem.disconnect());
+  }
+
+  // Only re-targets on a real change, so per-frame updates don't pile up automation events
+  private setLevel(stem: Stem, level: number, now: number): void {
+    if (Math.abs(level - this.levels[stem]) < 0.001) return;
+    this.levels[stem] = level;
+    this.stems[stem].gain.setTargetAtTime(level, now, MusicEngine.FADE_TIME);
+  }
+
+  private getStepDuration(): number {
+    return 60 / MusicEngine.TEMPO / 2;
+  }
+
+  private scheduleStep(step: number, time: number): void {
+    const bar = Math.floor(step / MusicEngine.STEPS_PER_BAR);
+    const beatStep = step % MusicEngine.STEPS_PER_BAR;
+    const progression = this.victory ? MusicEngine.VICTORY_PROGRESSION : MusicEngine.PROGRESSION;
+    const chord = progression[bar % progression.length];
+    const stepDuration = this.getStepDuration();
+
+    // New bar: the pad glides to the chord
+    if (beatStep === 0) {
+      this.padOscillators.forEach((osc, i) => {
+        osc.frequency.setTargetAtTime(chord[i], time, 0.15);
+      });
+    }
+
+    // Pulse: soft plucks an octave up, louder as a fragment gets closer
+    if (this.levels.pulse > MusicEngine.SILENT) {
+      const tone = MusicEngine.PULSE_PATTERN[beatStep];
+      this.playNote('pulse', chord[tone] * 2, time, stepDuration * 0.9, 'sine', 0.3);
+    }
+
+    // Bass: root on beats 1 and 3
+    if (this.levels.bass > MusicEngine.SILENT && beatStep % 4 === 0) {
+      this.playNote('bass', chord[0] / 2, time, stepDuration * 3, 'sawtooth', 0.25, 300);
+    }
+
+    // Bells: a sparse high chord tone every other bar at night
+    if (this.levels.bells > MusicEngine.SILENT && beatStep === 0 && bar % 2 === 1) {
+      const tone = chord[Math.floor(Math.random() * chord.length)];
+      this.playNote('bells', tone * 4, time, 2.5, 'sine', 0.2);
+      this.playNote('bells', tone * 4 * 2.76, time, 1.2, 'sine', 0.05); // Inharmonic partial
+    }
+
+    // Victory: bright arpeggio over the major progression
+    if (this.levels.victory > MusicEngine.SILENT) {
+      const tone = MusicEngine.VICTORY_PATTERN[beatStep];
+      const freq = tone === 3 ? chord[0] * 2 : chord[tone];
+      this.playNote('victory', freq * 2, time, stepDuration * 1.5, 'triangle', 0.3);
+    }
+  }
+
+  // One enveloped note into a stem (optionally low-passed)
+  private playNote(
+    stem: Stem,
+    freq: number,
+    time: number,
+    duration: number,
+    type: OscillatorType,
+    volume: number,
+    cutoff?: number
+  ): void {
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(volume, time + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+    if (cutoff) {
+      const filter = this.audioContext.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = cutoff;
+      osc.connect(filter);
+      filter.connect(gain);
+    } else {
+      osc.connect(gain);
+    }
+    gain.connect(this.stems[stem]);
+
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+}
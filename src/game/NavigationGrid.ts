@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+import { CityLayout, WaterQuery } from './CityLayout';
+import { PlayerPhysics } from './PlayerPhysics';
+
+/**
+ * Where the player can walk, as a grid over the ground plane: a cell is walkable if the
+ * player fits there without touching a building. Water is walkable but slow (the player
+ * wades at half speed). Shortest walks from the origin (where runs start) are worked out
+ * once, so checking whether a spot can be reached is a lookup.
+ */
+export class NavigationGrid {
+  static readonly CELL_SIZE = 2;
+  private static readonly MARGIN = 20; // Open ground outside the city that walks may go through
+
+  private readonly minX: number;
+  private readonly minZ: number;
+  private readonly columns: number;
+  private readonly rows: number;
+  private readonly costs: Float32Array; // Per cell: 0 = blocked, otherwise how slow it is to cross
+  private readonly fromOrigin: Float64Array;
+
+  constructor(city: CityLayout, water: WaterQuery, citySize: number, origin: THREE.Vector3) {
+    const halfSize = citySize / 2 + NavigationGrid.MARGIN;
+    this.minX = -halfSize;
+    this.minZ = -halfSize;
+    this.columns = Math.ceil((halfSize * 2) / NavigationGrid.CELL_SIZE);
+    this.rows = this.columns;
+
+    this.costs = new Float32Array(this.columns * this.rows);
+    const point = new THREE.Vector3();
+    for (let row = 0; row < this.rows; row++) {
+      for (let column = 0; column < this.columns; column++) {
+        this.getCellCenter(row * this.columns + column, point);
+        if (city.checkCollision(point, PlayerPhysics.COLLISION_RADIUS)) continue;
+        this.costs[row * this.columns + column] = water.isInWater(point) ? 1 / PlayerPhysics.WATER_SPEED_MULTIPLIER : 1;
+      }
+    }
+
+    this.fromOrigin = this.search(origin);
+  }
+
+  /**
+   * Whether a point can be walked to from the origin (to within `reach` of it)
+   */
+  isReachable(point: THREE.Vector3, reach = 0): boolean {
+    return this.getDistance(point, reach) < Infinity;
+  }
+
+  /**
+   * Length of the shortest walk from the origin to within `reach` of a point, with water
+   * counted at the time it takes to wade (Infinity if it can't be reached)
+   */
+  getDistance(point: THREE.Vector3, reach = 0): number {
+    return this.getNearest(this.fromOrigin, point, reach);
+  }
+
+  /**
+   * Length of the shortest walk between two points, like getDistance() but from anywhere
+   * (searches the grid again, so it costs more than getDistance)
+   */
+  getPathDistance(from: THREE.Vector3, to: THREE.Vector3, reach = 0): number {
+    return this.getNearest(this.search(from), to, reach);
+  }
+
+  isWalkable(point: THREE.Vector3): boolean {
+    const cell = this.toCell(point.x, point.z);
+    return cell >= 0 && this.costs[cell] > 0;
+  }
+
+  // Shortest walk to every cell (Dijkstra, 8 neighbours, no cutting corners past buildings)
+  private search(from: THREE.Vector3): Float64Array {
+    const distances = new Float64Array(this.costs.length).fill(Infinity);
+    const queue = new CellQueue();
+
+    // Start from the nearest walkable cell (the point itself may be hugging a wall)
+    const start = this.findWalkableCell(from);
+    if (start < 0) return distances;
+    distances[start] = 0;
+    queue.push(start, 0);
+
+    while (queue.size > 0) {
+      const distance = queue.peekPriority();
+      const cell = queue.pop();
+      if (distance > distances[cell]) continue; // Already reached a shorter way
+
+      const row = Math.floor(cell / this.columns);
+      const column = cell - row * this.columns;
+      for (let dz = -1; dz <= 1; dz++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dz === 0) continue;
+          const nextRow = row + dz;
+          const nextColumn = column + dx;
+          if (nextRow < 0 || nextRow >= this.rows || nextColumn < 0 || nextColumn >= this.columns) continue;
+
+          const next = nextRow * this.columns + nextColumn;
+          if (this.costs[next] === 0) continue;
+          if (dx !== 0 && dz !== 0 && (this.costs[cell + dx] === 0 || this.costs[cell + dz * this.columns] === 0)) continue;
+
+          const step = (dx !== 0 && dz !== 0 ? Math.SQRT2 : 1) * NavigationGrid.CELL_SIZE;
+          const nextDistance = distance + step * (this.costs[cell] + this.costs[next]) / 2;
+          if (nextDistance < distances[next]) {
+            distances[next] = nextDistance;
+            queue.push(next, nextDistance);
+          }
+        }
+      }
+    }
+
+    return distances;
+  }
+
+  // Smallest distance among the cells within `reach` of a point (always including its own cell)
+  private getNearest(distances: Float64Array, point: THREE.Vector3, reach: number): number {
+    let nearest = Infinity;
+    const own = this.toCell(point.x, point.z);
+    if (own >= 0) nearest = distances[own];
+
+    const center = new THREE.Vector3();
+    this.forEachCellAround(point, reach, (cell) => {
+      this.getCellCenter(cell, center);
+      if (distances[cell] < nearest && Math.hypot(center.x - point.x, center.z - point.z) <= reach) {
+        nearest = distances[cell];
+      }
+    });
+    return nearest;
+  }
+
+  // The walkable cell closest to a point, looking a few cells out (-1 if there is none)
+  private findWalkableCell(point: THREE.Vector3): number {
+    let best = -1;
+    let bestDistance = Infinity;
+    const center = new THREE.Vector3();
+    this.forEachCellAround(point, PlayerPhysics.COLLISION_RADIUS + NavigationGrid.CELL_SIZE * 2, (cell) => {
+      if (this.costs[cell] === 0) return;
+      this.getCellCenter(cell, center);
+      const distance = Math.hypot(center.x - point.x, center.z - point.z);
+      if (distance < bestDistance) {
+        best = cell;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  // Cells overlapping the square around a point, clipped to the grid
+  private forEachCellAround(point: THREE.Vector3, radius: number, callback: (cell: number) => void): void {
+    const size = NavigationGrid.CELL_SIZE;
+    const firstColumn = Math.max(0, Math.floor((point.x - radius - this.minX) / size));
+    const lastColumn = Math.min(this.columns - 1, Math.floor((point.x + radius - this.minX) / size));
+    const firstRow = Math.max(0, Math.floor((point.z - radius - this.minZ) / size));
+    const lastRow = Math.min(this.rows - 1, Math.floor((point.z + radius - this.minZ) / size));
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        callback(row * this.columns + column);
+      }
+    }
+  }
+
+  // Cell index of a point, or -1 outside the grid
+  private toCell(x: number, z: number): number {
+    const column = Math.floor((x - this.minX) / NavigationGrid.CELL_SIZE);
+    const row = Math.floor((z - this.minZ) / NavigationGrid.CELL_SIZE);
+    if (column < 0 || column >= this.columns || row < 0 || row >= this.rows) return -1;
+    return row * this.columns + column;
+  }
+
+  private getCellCenter(cell: number, target: THREE.Vector3): THREE.Vector3 {
+    const row = Math.floor(cell / this.columns);
+    const column = cell - row * this.columns;
+    return target.set(
+      this.minX + (column + 0.5) * NavigationGrid.CELL_SIZE,
+      0,
+      this.minZ + (row + 0.5) * NavigationGrid.CELL_SIZE
+    );
+  }
+}
+
+// Binary min-heap of cells by distance (cells may be pushed again with a shorter distance)
+class CellQueue {
+  private cells: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, priority: number): void {
+    let index = this.cells.length;
+    this.cells.push(cell);
+    this.priorities.push(priority);
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.cells[index] = this.cells[parent];
+      this.priorities[index] = this.priorities[parent];
+      index = parent;
+    }
+    this.cells[index] = cell;
+    this.priorities[index] = priority;
+  }
+
+  peekPriority(): number {
+    return this.priorities[0];
+  }
+
+  pop(): number {
+    const top = this.cells[0];
+    const lastCell = this.cells.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    const length = this.cells.length;
+    if (length === 0) return top;
+
+    let index = 0;
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && this.priorities[right] < this.priorities[left] ? right : left;
+      if (this.priorities[child] >= lastPriority) break;
+      this.cells[index] = this.cells[child];
+      this.priorities[index] = this.priorities[child];
+      index = child;
+    }
+    this.cells[index] = lastCell;
+    this.priorities[index] = lastPriority;
+    return top;
+  }
+}
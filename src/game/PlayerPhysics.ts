@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+import { CityLayout } from './CityLayout';
+
+/**
+ * One step of player input, whatever produced it (keyboard, gamepad and touch through Player, or a bot)
+ */
+export interface PlayerInput {
+  move: THREE.Vector2; // x = right, y = forward, length at most 1
+  yaw: number; // Facing in radians, like a camera's rotation.y (0 = looking along -z)
+  sprint: boolean;
+  jump: boolean; // Held (climbing)
+  jumpPressed: boolean; // Went down this step
+  slide: boolean;
+}
+
+/**
+ * Scene-independent player movement: walking, sprinting, sliding, jumping, climbing,
+ * stamina and collision with the city. Runs the same in the browser and in Node.
+ */
+export class PlayerPhysics {
+  private velocity = new THREE.Vector3();
+
+  // Position after the last two steps (Player draws the camera between them)
+  private position: THREE.Vector3;
+  private previousPosition: THREE.Vector3;
+
+  // Settings (movement speeds are public so the score API can bound how fast a run can go)
+  static readonly WALK_SPEED = 20;
+  static readonly SPRINT_SPEED = 35;
+  private readonly ACCELERATION = 80;
+  private readonly DECELERATION = 60;
+  private readonly PLAYER_HEIGHT = 5;
+  static readonly COLLISION_RADIUS = 1.5; // Also how much room NavigationGrid needs to count a spot walkable
+
+  // Jump settings
+  private readonly JUMP_FORCE = 12;
+  private readonly GRAVITY = -30;
+  private readonly JUMP_STAMINA_COST = 10;
+  private verticalVelocity = 0;
+  private isGrounded = true;
+  private feetHeight = 0; // Street (0) or the roof being stood on
+
+  // Climbing (hold jump + forward against a low building) and mantling onto roofs
+  private readonly CLIMB_SPEED = 8;
+  private readonly CLIMB_STAMINA_DRAIN = 10; // per second
+  private readonly MANTLE_REACH = 1.5; // How far below the feet a roof edge can be grabbed
+  private readonly MANTLE_DISTANCE = 1.5; // How far onto the roof a mantle lands
+  private isClimbing = false;
+
+  // Stamina
+  private stamina = 100;
+  private readonly MAX_STAMINA = 100;
+  private readonly STAMINA_DRAIN = 25; // per second
+  private readonly STAMINA_REGEN = 15; // per second
+  private readonly STAMINA_REGEN_PARK_MULTIPLIER = 2; // 2x regen in parks
+  private readonly STAMINA_SPRINT_THRESHOLD = 10;
+  private isInPark = false;
+
+  // Water
+  private inWater = false;
+  static readonly WATER_SPEED_MULTIPLIER = 0.5;
+
+  // How far away guards hear the player
+  private readonly SPRINT_NOISE_RADIUS = 30;
+  private readonly SPLASH_NOISE_RADIUS = 20; // Footsteps in water
+
+  // Dash (currently using sprint instead - dash vars kept for cooldown mechanics)
+  private readonly DASH_SPEED = 60;
+  private readonly DASH_COOLDOWN = 1.0;
+  private isDashing = false;
+  private dashTimer = 0;
+  private dashCooldownTimer = 0;
+  private dashDirection = new THREE.Vector3();
+
+  // Head bob
+  private headBobTime = 0;
+  private readonly HEAD_BOB_FREQUENCY = 12;
+  private readonly HEAD_BOB_AMPLITUDE = 0.08;
+
+  // Slide
+  private isSliding = false;
+  private slideTimer = 0;
+  private slideCooldownTimer = 0;
+  private slideDirection = new THREE.Vector3();
+  private readonly SLIDE_DURATION = 0.6;
+  private readonly SLIDE_COOLDOWN = 1.2;
+  static readonly SLIDE_SPEED = 50;
+  private readonly SLIDE_HEIGHT = 2.5; // Crouched height during slide
+
+  // Movement during the last step (footsteps and guards read it)
+  private isMoving = false;
+  private isSprinting = false;
+
+  constructor(position: THREE.Vector3) {
+    this.position = position.clone();
+    this.previousPosition = position.clone();
+  }
+
+  /**
+   * Advance the player by one fixed simulation step
+   */
+  step(delta: number, input: PlayerInput, city: CityLayout): THREE.Vector3 {
+    this.previousPosition.copy(this.position);
+
+    const move = input.move;
+    const moveAmount = move.length(); // Analog sticks move slower when barely pushed
+    const isSprinting = input.sprint;
+
+    // Update dash cooldown
+    if (this.dashCooldownTimer > 0) {
+      this.dashCooldownTimer -= delta;
+    }
+
+    // Update dash state
+    if (this.isDashing) {
+      this.dashTimer -= delta;
+      if (this.dashTimer <= 0) {
+        this.isDashing = false;
+        this.dashCooldownTimer = this.DASH_COOLDOWN;
+      }
+    }
+
+    // Update slide cooldown
+    if (this.slideCooldownTimer > 0) {
+      this.slideCooldownTimer -= delta;
+    }
+
+    // Forward and right vectors of where the player faces (horizontal only)
+    const forward = new THREE.Vector3(-Math.sin(input.yaw), 0, -Math.cos(input.yaw));
+    const right = new THREE.Vector3().crossVectors(forward, new THREE.Vector3(0, 1, 0));
+
+    // Trigger slide (Ctrl while sprinting and moving)
+    const isMoving = moveAmount > 0;
+    const canSprint = isSprinting && this.stamina > this.STAMINA_SPRINT_THRESHOLD;
+    this.isMoving = isMoving;
+    this.isSprinting = isMoving && canSprint;
+    if (input.slide && canSprint && isMoving && !this.isSliding && this.slideCooldownTimer <= 0 && this.isGrounded) {
+      this.isSliding = true;
+      this.slideTimer = this.SLIDE_DURATION;
+
+      // Capture current movement direction for slide
+      this.slideDirection.set(0, 0, 0);
+      this.slideDirection.addScaledVector(forward, move.y);
+      this.slideDirection.addScaledVector(right, move.x);
+      this.slideDirection.normalize();
+
+      // Drain some stamina for slide
+      this.stamina = Math.max(0, this.stamina - 15);
+    }
+
+    // Update slide state
+    if (this.isSliding) {
+      this.slideTimer -= delta;
+      if (this.slideTimer <= 0) {
+        this.isSliding = false;
+        this.slideCooldownTimer = this.SLIDE_COOLDOWN;
+      }
+    }
+
+    // Determine target speed (isMoving and canSprint already defined above for slide)
+    let targetSpeed = isMoving ? (canSprint ? PlayerPhysics.SPRINT_SPEED : PlayerPhysics.WALK_SPEED) * moveAmount : 0;
+
+    // Apply water slowdown
+    if (this.inWater) {
+      targetSpeed *= PlayerPhysics.WATER_SPEED_MULTIPLIER;
+    }
+
+    // Check if player is in a park (for stamina bonus)
+    this.isInPark = city.isInPark(this.position);
+
+    // Update stamina (regenerates 2x faster in parks, not at all while climbing)
+    const regenMultiplier = this.isInPark ? this.STAMINA_REGEN_PARK_MULTIPLIER : 1;
+    if (isMoving && canSprint) {
+      this.stamina = Math.max(0, this.stamina - this.STAMINA_DRAIN * delta);
+    } else if ((!isSprinting || !isMoving) && !this.isClimbing) {
+      this.stamina = Math.min(this.MAX_STAMINA, this.stamina + this.STAMINA_REGEN * regenMultiplier * delta);
+    }
+
+    // Calculate desired velocity
+    const desiredVelocity = new THREE.Vector3();
+    if (this.isDashing) {
+      // During dash, use dash direction at high speed
+      desiredVelocity.copy(this.dashDirection).multiplyScalar(this.DASH_SPEED);
+    } else if (this.isSliding) {
+      // During slide, use captured slide direction with decaying speed
+      const slideProgress = 1 - (this.slideTimer / this.SLIDE_DURATION);
+      const slideSpeed = PlayerPhysics.SLIDE_SPEED * (1 - slideProgress * 0.5); // Decay to 50% speed
+      desiredVelocity.copy(this.slideDirection).multiplyScalar(slideSpeed);
+    } else {
+      desiredVelocity.addScaledVector(forward, move.y);
+      desiredVelocity.addScaledVector(right, move.x);
+      if (isMoving) desiredVelocity.divideScalar(moveAmount).multiplyScalar(targetSpeed);
+    }
+
+    // Smooth acceleration/deceleration (faster during dash)
+    const accel = this.isDashing ? 200 : (isMoving ? this.ACCELERATION : this.DECELERATION);
+    this.velocity.lerp(desiredVelocity, 1 - Math.exp(-accel * delta));
+
+    // Handle jumping (can't jump in water or while dashing)
+    if (input.jumpPressed && this.isGrounded && this.stamina >= this.JUMP_STAMINA_COST && !this.inWater && !this.isDashing) {
+      this.verticalVelocity = this.JUMP_FORCE;
+      this.isGrounded = false;
+      this.stamina -= this.JUMP_STAMINA_COST;
+    }
+
+    // Wall in front of the player, for climbing and mantling
+    const wall = move.y > 0.5 && !this.isGrounded ? this.getWallAhead(city, forward) : null;
+    this.isClimbing = wall !== null &&
+      wall.climbable &&
+      input.jump &&
+      this.stamina > 0 &&
+      !this.inWater;
+
+    if (this.isClimbing) {
+      // Stick to the wall and go up
+      this.velocity.set(0, 0, 0);
+      this.verticalVelocity = this.CLIMB_SPEED;
+      this.stamina = Math.max(0, this.stamina - this.CLIMB_STAMINA_DRAIN * delta);
+    } else {
+      // Apply gravity
+      this.verticalVelocity += this.GRAVITY * delta;
+    }
+
+    // Apply movement
+    const movement = this.velocity.clone().multiplyScalar(delta);
+    const newPosition = this.position.clone().add(movement);
+
+    // Apply vertical movement
+    newPosition.y += this.verticalVelocity * delta;
+
+    // Ground/water height check (lower during slide)
+    let currentHeight = this.PLAYER_HEIGHT;
+    if (this.isSliding) {
+      currentHeight = this.SLIDE_HEIGHT;
+    } else if (this.inWater) {
+      currentHeight = this.PLAYER_HEIGHT - 1;
+    }
+
+    // Mantle: pull up onto a roof whose edge is within reach
+    if (wall && wall.flatRoof && newPosition.y - currentHeight >= wall.roofHeight - this.MANTLE_REACH) {
+      newPosition.addScaledVector(wall.inward, wall.distance + this.MANTLE_DISTANCE);
+      newPosition.y = wall.roofHeight + currentHeight;
+      this.feetHeight = wall.roofHeight;
+      this.isClimbing = false;
+    }
+
+    // Roofs count as ground once the feet are on (or above) them
+    const groundHeight = city.getGroundHeight(newPosition, this.feetHeight);
+    if (newPosition.y <= groundHeight + currentHeight) {
+      newPosition.y = groundHeight + currentHeight;
+      this.verticalVelocity = 0;
+      this.isGrounded = true;
+    } else {
+      // Walked off a roof edge (or jumping/climbing)
+      this.isGrounded = false;
+    }
+    this.feetHeight = newPosition.y - currentHeight;
+
+    // Head bob effect when moving on ground (not during slide or dash)
+    if (isMoving && this.isGrounded && !this.isDashing && !this.isSliding) {
+      this.headBobTime += delta * this.HEAD_BOB_FREQUENCY * (canSprint ? 1.3 : 1);
+      const bobOffset = Math.sin(this.headBobTime) * this.HEAD_BOB_AMPLITUDE;
+      newPosition.y += bobOffset;
+    } else {
+      // Smoothly return to base height
+      this.headBobTime = 0;
+    }
+
+    // Check collision with buildings
+    const collision = city.checkCollision(newPosition, PlayerPhysics.COLLISION_RADIUS, this.feetHeight);
+    if (collision) {
+      newPosition.add(collision);
+    }
+
+    // Apply position
+    this.position.copy(newPosition);
+
+    return this.position;
+  }
+
+  /**
+   * Building wall the player is pressed against and facing, if any
+   */
+  private getWallAhead(city: CityLayout, forward: THREE.Vector3): {
+    roofHeight: number;
+    climbable: boolean;
+    flatRoof: boolean;
+    inward: THREE.Vector3; // Horizontal direction into the building
+    distance: number; // To the wall
+  } | null {
+    const position = this.position;
+    const building = city.getBuildingAt(position, PlayerPhysics.COLLISION_RADIUS + 0.5, this.feetHeight + CityLayout.STEP_HEIGHT);
+    if (!building) return null;
+
+    // Nearest point of the building's footprint
+    const halfW = building.width / 2;
+    const halfD = building.depth / 2;
+    const inward = new THREE.Vector3(
+      THREE.MathUtils.clamp(position.x, building.position.x - halfW, building.position.x + halfW) - position.x,
+      0,
+      THREE.MathUtils.clamp(position.z, building.position.z - halfD, building.position.z + halfD) - position.z
+    );
+    const distance = inward.length();
+    if (distance < 0.001) return null;
+    inward.divideScalar(distance);
+
+    // Must be facing the wall
+    if (forward.dot(inward) < 0.5) return null;
+
+    const flatRoof = building.type !== 'pyramid';
+    return {
+      roofHeight: building.roofHeight,
+      climbable: flatRoof && building.type !== 'cylinder' && building.roofHeight <= CityLayout.MAX_CLIMB_HEIGHT,
+      flatRoof,
+      inward,
+      distance,
+    };
+  }
+
+  setInWater(inWater: boolean): void {
+    this.inWater = inWater;
+  }
+
+  getStaminaPercent(): number {
+    return (this.stamina / this.MAX_STAMINA) * 100;
+  }
+
+  drainStamina(amount: number): void {
+    this.stamina = Math.max(0, this.stamina - amount);
+  }
+
+  /**
+   * How far away guards can hear the player this step (0 = silent)
+   */
+  getNoiseRadius(): number {
+    if (!this.isMoving || !this.isGrounded) return 0;
+
+    let radius = 0;
+    if (this.isSprinting) radius = this.SPRINT_NOISE_RADIUS;
+    if (this.inWater) radius = Math.max(radius, this.SPLASH_NOISE_RADIUS);
+    return radius;
+  }
+
+  getMovementState(): { isMoving: boolean; isSprinting: boolean; inPark: boolean } {
+    return {
+      isMoving: this.isMoving,
+      isSprinting: this.isSprinting,
+      inPark: this.isInPark,
+    };
+  }
+
+  reset(): void {
+    this.velocity.set(0, 0, 0);
+    this.verticalVelocity = 0;
+    this.isGrounded = true;
+    this.stamina = this.MAX_STAMINA;
+    this.isClimbing = false;
+    this.feetHeight = 0;
+    this.isDashing = false;
+    this.dashTimer = 0;
+    this.dashCooldownTimer = 0;
+    this.isSliding = false;
+    this.slideTimer = 0;
+    this.slideCooldownTimer = 0;
+    this.inWater = false;
+    this.isInPark = false;
+    this.isMoving = false;
+    this.isSprinting = false;
+    this.headBobTime = 0;
+  }
+
+  /**
+   * Put the player back where a saved run left off
+   */
+  restore(position: THREE.Vector3, stamina: number): void {
+    this.reset();
+    this.teleport(position);
+    this.stamina = Math.max(0, Math.min(this.MAX_STAMINA, stamina));
+  }
+
+  /**
+   * Move the player somewhere instantly, dropping any momentum
+   */
+  teleport(position: THREE.Vector3): void {
+    this.velocity.set(0, 0, 0);
+    this.verticalVelocity = 0;
+    this.isClimbing = false;
+    this.isDashing = false;
+    this.isSliding = false;
+    this.position.copy(position);
+    this.previousPosition.copy(position);
+    this.feetHeight = position.y - this.PLAYER_HEIGHT;
+  }
+
+  getStamina(): number {
+    return this.stamina;
+  }
+
+  getPosition(): THREE.Vector3 {
+    return this.position;
+  }
+
+  /**
+   * Position before the last step
+   */
+  getPreviousPosition(): THREE.Vector3 {
+    return this.previousPosition;
+  }
+}
@@ -0,0 +1,124 @@
+import { HighScoreManager } from './HighScoreManager';
+
+/**
+ * Anonymous player id + display name, kept in localStorage.
+ * Name sanitizing/validation is shared with the score API.
+ */
+export class PlayerProfile {
+  static readonly NAME_MIN_LENGTH = 2;
+  static readonly NAME_MAX_LENGTH = 16;
+  static readonly ANONYMOUS_NAME = 'Anonymous';
+
+  private static readonly ID_KEY = 'unmask-the-city-player-id';
+  private static readonly NAME_KEY = 'unmask-the-city-player-name';
+
+  // Matched against each word of the name with common substitutions undone (see containsBlockedWord)
+  private static readonly BLOCKED_WORDS = [
+    'fuck', 'shit', 'cunt', 'bitch', 'whore', 'slut', 'bastard', 'asshole', 'dickhead',
+    'nigger', 'nigga', 'faggot', 'retard', 'rapist', 'nazi', 'hitler', 'pussy', 'wanker',
+  ];
+  // Also blocked inside longer words ("motherfucker") - only ones no real word or place contains
+  private static readonly BLOCKED_ANYWHERE = [
+    'fuck', 'shithead', 'dickhead', 'nigger', 'nigga', 'faggot', 'wanker',
+  ];
+  private static readonly SUBSTITUTIONS: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+  };
+  // A whole word: letters may repeat ("fuuuck") and a few endings are allowed ("bitches"),
+  // but it can't be part of a longer word ("Scunthorpe", "pussycat") or lose a letter ("Niger").
+  // BLOCKED_ANYWHERE words match anywhere in a word.
+  private static readonly BLOCKED_PATTERNS = PlayerProfile.BLOCKED_WORDS.map(word =>
+    new RegExp(`^${word.split('').map(c => `${c}+`).join('')}(s|es|er|ers|ed|ing|y)?$`)
+  ).concat(PlayerProfile.BLOCKED_ANYWHERE.map(word =>
+    new RegExp(word.split('').map(c => `${c}+`).join(''))
+  ));
+
+  /**
+   * Stable anonymous id for this browser (created on first use)
+   */
+  static getPlayerId(): string {
+    let id = localStorage.getItem(this.ID_KEY);
+    if (!id) {
+      id = HighScoreManager.createRunId();
+      localStorage.setItem(this.ID_KEY, id);
+    }
+    return id;
+  }
+
+  static getName(): string {
+    return localStorage.getItem(this.NAME_KEY) || '';
+  }
+
+  static setName(name: string): void {
+    const sanitized = this.sanitizeName(name);
+    if (sanitized) {
+      localStorage.setItem(this.NAME_KEY, sanitized);
+    } else {
+      localStorage.removeItem(this.NAME_KEY);
+    }
+  }
+
+  /**
+   * Normalize user input: no control or markup characters, single spaces, max length
+   */
+  static sanitizeName(raw: unknown): string {
+    if (typeof raw !== 'string') return '';
+    return raw
+      .normalize('NFKC')
+      .replace(/[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e\u2060-\u206f\ufeff]/g, '') // Control + invisible/bidi characters
+      .replace(/<[^>]*>/g, '') // Whole tags, not just their brackets
+      .replace(/[<>&"'`\\/=]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, this.NAME_MAX_LENGTH)
+      .trim();
+  }
+
+  /**
+   * Error message for an (already sanitized) name, or null if it's fine.
+   * An empty name is allowed - the player shows up as Anonymous.
+   */
+  static validateName(name: string): string | null {
+    if (name === '') return null;
+    if (name.length < this.NAME_MIN_LENGTH || name.length > this.NAME_MAX_LENGTH) {
+      return `Name must be ${this.NAME_MIN_LENGTH}-${this.NAME_MAX_LENGTH} characters`;
+    }
+    if (!/^[\p{L}\p{N} ._-]+$/u.test(name)) {
+      return 'Name can only use letters, numbers, spaces, dots, dashes and underscores';
+    }
+    if (this.containsBlockedWord(name)) {
+      return 'Please choose a different name';
+    }
+    return null;
+  }
+
+  static getDisplayName(playerName: string | undefined): string {
+    return playerName || this.ANONYMOUS_NAME;
+  }
+
+  /**
+   * Escape text for use inside innerHTML
+   */
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static containsBlockedWord(name: string): boolean {
+    const words = name
+      .toLowerCase()
+      .split('')
+      .map(c => this.SUBSTITUTIONS[c] || c)
+      .join('')
+      .split(/[^\p{L}]+/u)
+      .filter(word => word !== '');
+
+    // Spelled out letter by letter ("f u c k") counts as one word too
+    const spelled = words.filter(word => word.length === 1).join('');
+    return [...words, spelled].some(word => this.BLOCKED_PATTERNS.some(pattern => pattern.test(word)));
+  }
+}
@@ -81,6 +81,14 @@ export class Rain {
     this.particles.visible = active;
   }
 
+  getIsActive(): boolean {
+    return this.isActive;
+  }
+
+  getIntensity(): number {
+    return this.intensity;
+  }
+
   setIntensity(intensity: number): void {
     this.intensity = Math.max(0, Math.min(1, intensity));
     (this.particles.material as THREE.ShaderMaterial).uniforms.intensity.value = this.intensity;
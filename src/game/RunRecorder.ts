@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+
+export interface RunCollection {
+  time: number; // Game time (seconds)
+  fragment: number; // Index into the seed's fragment spawn list
+}
+
+/**
+ * Compact description of a finished run, uploaded with the score so the server can replay it
+ */
+export interface RunLog {
+  version: number;
+  seed: number;
+  difficulty: string;
+  challengeId?: string;
+  time: number; // Final game time (seconds)
+  paused: boolean;
+  samples: number[]; // Flat [time, x, z, time, x, z, ...] player positions
+  collections: RunCollection[];
+  teleports?: number[]; // Sample times where a guard sent the player back to a park
+}
+
+/**
+ * Recorder progress, saved with an unfinished run so the continued run stays verifiable
+ */
+export interface RunRecorderState {
+  samples: number[];
+  collections: RunCollection[];
+  teleports?: number[]; // Missing in saves from before guards
+  nextSampleTime: number;
+  paused: boolean;
+}
+
+/**
+ * Samples the player's position during a run and records fragment pickups
+ */
+export class RunRecorder {
+  static readonly VERSION = 1;
+  static readonly SAMPLE_INTERVAL = 0.5; // seconds between position samples
+  static readonly TELEPORT_GAP = 0.01; // seconds between the samples either side of a teleport
+
+  private samples: number[] = [];
+  private collections: RunCollection[] = [];
+  private teleports: number[] = [];
+  private nextSampleTime = 0;
+  private paused = false;
+
+  reset(): void {
+    this.samples = [];
+    this.collections = [];
+    this.teleports = [];
+    this.nextSampleTime = 0;
+    this.paused = false;
+  }
+
+  update(time: number, position: THREE.Vector3): void {
+    if (time < this.nextSampleTime) return;
+    this.addSample(time, position);
+    this.nextSampleTime = time + RunRecorder.SAMPLE_INTERVAL;
+  }
+
+  /**
+   * Record a pickup - also samples the position so the server sees the player at the fragment
+   */
+  recordCollection(time: number, fragment: number, position: THREE.Vector3): void {
+    this.collections.push({ time, fragment });
+    this.addSample(time, position);
+  }
+
+  /**
+   * Record the player being moved instantly (caught by a guard). Both ends are sampled
+   * and the arrival is marked, so the server doesn't mistake the jump for impossible movement.
+   */
+  recordTeleport(time: number, from: THREE.Vector3, to: THREE.Vector3): void {
+    this.addSample(time, from);
+    const arrival = RunRecorder.round(time + RunRecorder.TELEPORT_GAP, 100);
+    this.teleports.push(arrival);
+    this.addSample(arrival, to);
+    this.nextSampleTime = arrival + RunRecorder.SAMPLE_INTERVAL;
+  }
+
+  markPaused(): void {
+    this.paused = true;
+  }
+
+  finish(seed: number, difficulty: string, time: number, challengeId?: string): RunLog {
+    return {
+      version: RunRecorder.VERSION,
+      seed,
+      difficulty,
+      challengeId,
+      time,
+      paused: this.paused,
+      samples: [...this.samples],
+      collections: [...this.collections],
+      teleports: [...this.teleports],
+    };
+  }
+
+  getState(): RunRecorderState {
+    return {
+      samples: [...this.samples],
+      collections: [...this.collections],
+      teleports: [...this.teleports],
+      nextSampleTime: this.nextSampleTime,
+      paused: this.paused,
+    };
+  }
+
+  restore(state: RunRecorderState): void {
+    this.samples = [...state.samples];
+    this.collections = [...state.collections];
+    this.teleports = [...(state.teleports ?? [])];
+    this.nextSampleTime = state.nextSampleTime;
+    this.paused = state.paused;
+  }
+
+  private addSample(time: number, position: THREE.Vector3): void {
+    const count = this.samples.length;
+    // Skip duplicates (e.g. a pickup on the same frame as a regular sample), and frames
+    // that fall inside a teleport's gap
+    if (count >= 3 && this.samples[count - 3] >= RunRecorder.round(time, 100)) return;
+
+    this.samples.push(
+      RunRecorder.round(time, 100),
+      RunRecorder.round(position.x, 10),
+      RunRecorder.round(position.z, 10)
+    );
+  }
+
+  private static round(value: number, precision: number): number {
+    return Math.round(value * precision) / precision;
+  }
+}
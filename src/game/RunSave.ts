@@ -0,0 +1,71 @@
+import { FogSnapshot } from './FogOfWar';
+import { GhostRecorderState } from './GhostRecorder';
+import { RunRecorderState } from './RunRecorder';
+import { FragmentCollection } from './ScoreCalculator';
+
+/**
+ * Everything needed to pick an unfinished run back up after the tab was closed
+ */
+export interface RunSnapshot {
+  version: number;
+  savedAt: string; // ISO string
+  seed: number;
+  difficulty: string;
+  challengeId?: string;
+  gameTime: number;
+  player: {
+    position: [number, number, number];
+    rotation: [number, number, number, number]; // Camera quaternion
+    stamina: number;
+  };
+  collected: number[]; // Indices into the seed's fragment spawn list
+  collections: FragmentCollection[];
+  lastFragmentTime: number;
+  speedBonusCount: number;
+  lastParkPosition?: [number, number, number] | null; // Where 'returnToPark' catches send the player (missing in older saves)
+  themeIndex: number;
+  ghost?: GhostRecorderState; // Missing in saves from before ghost racing
+  waypoints?: [number, number][]; // x, z of each map waypoint
+  weather: {
+    isRaining: boolean;
+    intensity: number;
+    timer: number;
+  };
+  fog: FogSnapshot;
+  runLog: RunRecorderState;
+}
+
+/**
+ * The single autosaved run, kept in localStorage
+ */
+export class RunSave {
+  static readonly VERSION = 1;
+  private static readonly STORAGE_KEY = 'unmask-the-city-run-save';
+
+  static save(snapshot: RunSnapshot): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Failed to save run:', error);
+    }
+  }
+
+  /**
+   * The saved run, or null if there is none (or it's from an older version)
+   */
+  static load(): RunSnapshot | null {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return null;
+      const snapshot = JSON.parse(stored) as RunSnapshot;
+      return snapshot.version === this.VERSION ? snapshot : null;
+    } catch (error) {
+      console.error('Failed to load saved run:', error);
+      return null;
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
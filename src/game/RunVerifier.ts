@@ -0,0 +1,256 @@
+import * as THREE from 'three';
+import { CityLayout } from './CityLayout';
+import { DIFFICULTIES, isRankedDifficulty } from './Difficulties';
+import { FogOfWar } from './FogOfWar';
+import { HighScore } from './HighScoreManager';
+import { PlayerPhysics } from './PlayerPhysics';
+import { RunLog, RunRecorder } from './RunRecorder';
+import { ScoreCalculator } from './ScoreCalculator';
+import { Simulation } from './Simulation';
+
+export type RunVerificationCode =
+  | 'MISSING_RUN_LOG'
+  | 'MALFORMED_RUN_LOG'
+  | 'RUN_MISMATCH'
+  | 'UNRANKED_DIFFICULTY'
+  | 'IMPOSSIBLE_MOVEMENT'
+  | 'FRAGMENTS_INCOMPLETE'
+  | 'FRAGMENT_NOT_REACHED'
+  | 'EXPLORATION_MISMATCH'
+  | 'SCORE_MISMATCH';
+
+export type RunVerificationResult =
+  | { valid: true; score: number }
+  | { valid: false; code: RunVerificationCode; message: string };
+
+/**
+ * Replays an uploaded run log against the city its seed generates and checks that the
+ * submitted score could actually have been played: every fragment reached, no movement
+ * faster than the player can go, and the score matching Game's own formula.
+ */
+export class RunVerifier {
+  private static readonly SPEED_TOLERANCE = 1.1; // Headroom for frame timing jitter
+  private static readonly POSITION_SLACK = 1; // World units, covers sample rounding
+  private static readonly START_RADIUS = 10; // Runs start at the city center
+  private static readonly EXPLORATION_TOLERANCE = 1.15; // Samples miss some of the path's width
+  private static readonly EXPLORATION_SLACK = 2; // percent
+  private static readonly SCORE_SLACK = 1; // Rounding differences
+  private static readonly MAX_RUN_TIME = 3600; // seconds, matches the API's time range check
+
+  static verify(score: HighScore, log: RunLog | undefined): RunVerificationResult {
+    if (!log || typeof log !== 'object') {
+      return this.fail('MISSING_RUN_LOG', 'Run log is required');
+    }
+    if (!this.isWellFormed(log)) {
+      return this.fail('MALFORMED_RUN_LOG', 'Run log is malformed');
+    }
+    if (![score.score, score.time, score.explored, score.fragments].every(Number.isFinite)) {
+      return this.fail('RUN_MISMATCH', 'Score data is malformed');
+    }
+
+    if (
+      log.seed !== score.seed ||
+      log.difficulty !== score.difficulty ||
+      (log.challengeId || undefined) !== (score.challengeId || undefined) ||
+      Math.abs(log.time - score.time) > 0.01
+    ) {
+      return this.fail('RUN_MISMATCH', 'Run log does not match the submitted score');
+    }
+
+    if (!isRankedDifficulty(log.difficulty)) {
+      return this.fail('UNRANKED_DIFFICULTY', `Difficulty "${log.difficulty}" is not ranked`);
+    }
+    const settings = DIFFICULTIES[log.difficulty];
+
+    // Movement: start at the center, never faster than a slide, on average no faster than a sprint
+    const samples = log.samples;
+    if (samples.length === 0 || Math.hypot(samples[1], samples[2]) > this.START_RADIUS) {
+      return this.fail('IMPOSSIBLE_MOVEMENT', 'Run does not start at the city center');
+    }
+    // Teleports (caught by a guard) are only possible where guards send players back to a park
+    const teleports = new Set(log.teleports ?? []);
+    if (teleports.size > 0 && settings.guards?.onCaught !== 'returnToPark') {
+      return this.fail('IMPOSSIBLE_MOVEMENT', 'Run contains teleports');
+    }
+    const teleportSamples: number[] = [];
+    const maxSpeed = PlayerPhysics.SLIDE_SPEED * this.SPEED_TOLERANCE;
+    let pathLength = 0;
+    for (let i = 3; i < samples.length; i += 3) {
+      const dt = samples[i] - samples[i - 3];
+      if (teleports.has(samples[i]) && dt > 0) {
+        teleportSamples.push(i);
+        continue;
+      }
+      const distance = Math.hypot(samples[i + 1] - samples[i - 2], samples[i + 2] - samples[i - 1]);
+      if (dt <= 0 || distance > maxSpeed * dt + this.POSITION_SLACK) {
+        return this.fail('IMPOSSIBLE_MOVEMENT', `Player moved too fast at ${samples[i].toFixed(1)}s`);
+      }
+      pathLength += distance;
+    }
+    // Slides are short bursts with a cooldown, so over a whole run sprinting is the ceiling
+    if (pathLength > PlayerPhysics.SPRINT_SPEED * this.SPEED_TOLERANCE * log.time + PlayerPhysics.SLIDE_SPEED) {
+      return this.fail('IMPOSSIBLE_MOVEMENT', 'Average speed is higher than sprinting');
+    }
+
+    // Re-derive the run's city and fragments exactly as the game does
+    const { city, fragments } = Simulation.createWorld(settings, log.seed);
+    if (teleportSamples.length !== teleports.size) {
+      return this.fail('IMPOSSIBLE_MOVEMENT', 'Teleports do not match the sampled path');
+    }
+    for (const i of teleportSamples) {
+      if (!this.isParkReturn(city, samples, teleports, i)) {
+        return this.fail('IMPOSSIBLE_MOVEMENT', `Teleport at ${samples[i].toFixed(1)}s does not return to the last park`);
+      }
+    }
+
+    const collected = new Set(log.collections.map(c => c.fragment));
+    if (
+      log.collections.length !== fragments.length ||
+      collected.size !== fragments.length ||
+      score.fragments !== fragments.length
+    ) {
+      return this.fail('FRAGMENTS_INCOMPLETE', `Expected ${fragments.length} fragments`);
+    }
+
+    let lastCollectionTime = 0;
+    for (const collection of log.collections) {
+      const fragment = fragments[collection.fragment];
+      if (!fragment || collection.time < lastCollectionTime || collection.time > log.time) {
+        return this.fail('FRAGMENTS_INCOMPLETE', 'Fragment pickups are out of order');
+      }
+      lastCollectionTime = collection.time;
+
+      const position = this.getPositionAt(samples, collection.time);
+      const distance = Math.hypot(position.x - fragment.position.x, position.y - fragment.position.z);
+      if (distance > Simulation.COLLECTION_RADIUS + this.POSITION_SLACK) {
+        return this.fail('FRAGMENT_NOT_REACHED', `Fragment ${collection.fragment} was never reached`);
+      }
+    }
+
+    // Exploration: replaying the path can only reveal so much fog
+    const replayedExplored = this.replayExploration(samples, teleports, settings.citySize, settings.fogClearRadius);
+    if (score.explored > replayedExplored * this.EXPLORATION_TOLERANCE + this.EXPLORATION_SLACK) {
+      return this.fail(
+        'EXPLORATION_MISMATCH',
+        `Explored ${score.explored.toFixed(1)}% but the path only covers ${replayedExplored.toFixed(1)}%`
+      );
+    }
+
+    // Score: same formula as Simulation.getScore()
+    const expected = ScoreCalculator.calculate(
+      log.collections.map(c => ({ time: c.time, type: fragments[c.fragment].type })),
+      score.explored,
+      log.time,
+      log.paused
+    ).score;
+    if (!Number.isFinite(expected) || Math.abs(expected - score.score) > this.SCORE_SLACK) {
+      return this.fail('SCORE_MISMATCH', `Score should be ${expected}`);
+    }
+
+    return { valid: true, score: expected };
+  }
+
+  private static isWellFormed(log: RunLog): boolean {
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+    if (log.version !== RunRecorder.VERSION) return false;
+    if (!isNumber(log.seed) || typeof log.difficulty !== 'string' || typeof log.paused !== 'boolean') return false;
+    if (!isNumber(log.time) || log.time <= 0 || log.time > this.MAX_RUN_TIME) return false;
+    if (!Array.isArray(log.samples) || !Array.isArray(log.collections)) return false;
+    if (log.collections.length > 100) return false;
+    const teleports = log.teleports ?? [];
+    if (!Array.isArray(teleports) || teleports.length > 100 || !teleports.every(isNumber)) return false;
+
+    // One sample per interval plus one per pickup and two per teleport (and a little slack)
+    const maxSamples = Math.ceil(log.time / RunRecorder.SAMPLE_INTERVAL) +
+      log.collections.length + teleports.length * 2 + 2;
+    if (log.samples.length % 3 !== 0 || log.samples.length / 3 > maxSamples) return false;
+    if (!log.samples.every(isNumber)) return false;
+
+    return log.collections.every(c =>
+      c && typeof c === 'object' && isNumber(c.time) && Number.isInteger(c.fragment)
+    );
+  }
+
+  /**
+   * A caught player goes back to the last park they stood in (see Simulation.catchPlayer),
+   * or the start. That spot is on the path walked since the last sample taken in a park
+   * (it can be a step past the park's edge), so a teleport can't pick which park it lands in.
+   */
+  private static isParkReturn(city: CityLayout, samples: number[], teleports: Set<number>, arrival: number): boolean {
+    const x = samples[arrival + 1];
+    const z = samples[arrival + 2];
+    if (Math.hypot(x, z) <= this.POSITION_SLACK) return true;
+
+    const maxSpeed = PlayerPhysics.SLIDE_SPEED * this.SPEED_TOLERANCE;
+    for (let i = arrival - 3; i >= 0; i -= 3) {
+      const toSample = Math.hypot(x - samples[i + 1], z - samples[i + 2]);
+      if (toSample <= this.POSITION_SLACK) return true;
+
+      // Between sample i and the next (unless the player jumped there), the path can bend
+      // but not get further than the player could travel in that time
+      const next = i + 3;
+      if (next !== arrival && !teleports.has(samples[next])) {
+        const toNext = Math.hypot(x - samples[next + 1], z - samples[next + 2]);
+        const reach = maxSpeed * (samples[next] - samples[i]) + this.POSITION_SLACK * 2;
+        if (toSample + toNext <= reach) return true;
+      }
+
+      // Anything before the last sample in a park is older than the last park visit
+      if (city.isInPark(new THREE.Vector3(samples[i + 1], 0, samples[i + 2]))) return false;
+    }
+    return false;
+  }
+
+  /**
+   * Player position (x, z) at a given time, interpolated between samples
+   */
+  private static getPositionAt(samples: number[], time: number): THREE.Vector2 {
+    for (let i = 3; i < samples.length; i += 3) {
+      if (samples[i] >= time) {
+        const t = (time - samples[i - 3]) / (samples[i] - samples[i - 3]);
+        return new THREE.Vector2(
+          THREE.MathUtils.lerp(samples[i - 2], samples[i + 1], Math.max(0, t)),
+          THREE.MathUtils.lerp(samples[i - 1], samples[i + 2], Math.max(0, t))
+        );
+      }
+    }
+    const last = samples.length - 3;
+    return new THREE.Vector2(samples[last + 1], samples[last + 2]);
+  }
+
+  /**
+   * Explored percentage from clearing fog along the sampled path (teleports clear nothing in between)
+   */
+  private static replayExploration(
+    samples: number[],
+    teleports: Set<number>,
+    citySize: number,
+    fogClearRadius: number
+  ): number {
+    const fog = new FogOfWar(Simulation.FOG_RESOLUTION, citySize);
+    const step = fogClearRadius / 8; // Overlapping clears, like consecutive frames
+
+    fog.clearAt(samples[1], samples[2], fogClearRadius);
+    for (let i = 3; i < samples.length; i += 3) {
+      if (teleports.has(samples[i])) {
+        fog.clearAt(samples[i + 1], samples[i + 2], fogClearRadius);
+        continue;
+      }
+      const x0 = samples[i - 2];
+      const z0 = samples[i - 1];
+      const dx = samples[i + 1] - x0;
+      const dz = samples[i + 2] - z0;
+      const steps = Math.max(1, Math.ceil(Math.hypot(dx, dz) / step));
+      for (let s = 1; s <= steps; s++) {
+        fog.clearAt(x0 + (dx * s) / steps, z0 + (dz * s) / steps, fogClearRadius);
+      }
+    }
+
+    return fog.getExploredPercent();
+  }
+
+  private static fail(code: RunVerificationCode, message: string): RunVerificationResult {
+    return { valid: false, code, message };
+  }
+}
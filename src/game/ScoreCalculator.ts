@@ -0,0 +1,81 @@
+import { FRAGMENT_CONFIGS, FragmentType } from './Collectible';
+
+export interface FragmentCollection {
+  time: number; // Game time (seconds) when the fragment was picked up
+  type: FragmentType;
+}
+
+export interface ScoreBreakdown {
+  fragmentPoints: number;
+  speedBonusCount: number;
+  perfectExplorationBonus: number;
+  noPauseBonus: number;
+  timeTrialBonus: number;
+  score: number;
+}
+
+/**
+ * Scoring rules, shared by Game and the score verification API
+ */
+export class ScoreCalculator {
+  static readonly SPEED_BONUS_WINDOW = 15; // seconds
+  static readonly SPEED_BONUS_POINTS = 500;
+  static readonly PERFECT_EXPLORATION_THRESHOLD = 90; // percent
+  static readonly PERFECT_EXPLORATION_BONUS = 2000;
+  static readonly NO_PAUSE_BONUS = 1000;
+  static readonly TIME_TRIAL_LIMIT = 180; // seconds
+  static readonly TIME_TRIAL_BONUS = 1500;
+
+  /**
+   * Speed bonus: 2 fragments within SPEED_BONUS_WINDOW seconds
+   * (collectedCount includes the fragment just picked up)
+   */
+  static isSpeedBonus(timeSinceLastFragment: number, collectedCount: number): boolean {
+    return timeSinceLastFragment <= this.SPEED_BONUS_WINDOW && collectedCount > 1;
+  }
+
+  /**
+   * Final score for a finished run. Collections must be in pickup order.
+   */
+  static calculate(collections: FragmentCollection[], explored: number, time: number, hasPaused: boolean): ScoreBreakdown {
+    let fragmentPoints = 0;
+    let speedBonusCount = 0;
+    let lastFragmentTime = 0;
+
+    collections.forEach((collection, i) => {
+      fragmentPoints += FRAGMENT_CONFIGS[collection.type].points;
+      if (this.isSpeedBonus(collection.time - lastFragmentTime, i + 1)) {
+        speedBonusCount++;
+        fragmentPoints += this.SPEED_BONUS_POINTS;
+      }
+      lastFragmentTime = collection.time;
+    });
+
+    // Perfect exploration bonus (+2000 for 90%+ exploration)
+    const perfectExplorationBonus = explored >= this.PERFECT_EXPLORATION_THRESHOLD ? this.PERFECT_EXPLORATION_BONUS : 0;
+
+    // No-pause bonus (+1000 for completing without pausing)
+    const noPauseBonus = !hasPaused ? this.NO_PAUSE_BONUS : 0;
+
+    // Time trial bonus (under 3 minutes on normal = +1500)
+    const timeTrialBonus = time < this.TIME_TRIAL_LIMIT ? this.TIME_TRIAL_BONUS : 0;
+
+    const score = Math.floor(
+      fragmentPoints +
+      perfectExplorationBonus +
+      noPauseBonus +
+      timeTrialBonus +
+      explored * 10 -
+      time * 2
+    );
+
+    return {
+      fragmentPoints,
+      speedBonusCount,
+      perfectExplorationBonus,
+      noPauseBonus,
+      timeTrialBonus,
+      score: Math.max(0, score),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Small seedable PRNG (mulberry32) so city layouts can be reproduced from a seed
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Generate a fresh random seed (unsigned 32-bit)
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Hash a string into an unsigned 32-bit seed (FNV-1a)
+   */
+  static hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Parse user input into a seed. Numbers are used as-is, any other text is hashed.
+   * Returns null for empty input.
+   */
+  static parseSeed(input: string | null | undefined): number | null {
+    const trimmed = (input || '').trim();
+    if (!trimmed) return null;
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0;
+    }
+    return SeededRandom.hashString(trimmed);
+  }
+
+  /**
+   * Derive an independent sub-seed for a named subsystem, so adding random
+   * calls to one system doesn't shift the layout of the others
+   */
+  static deriveSeed(seed: number, label: string): number {
+    return SeededRandom.hashString(`${seed >>> 0}:${label}`);
+  }
+
+  /**
+   * Next float in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, maxExclusive)
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+}
@@ -0,0 +1,334 @@
+import * as THREE from 'three';
+import { CityLayout } from './CityLayout';
+import { FragmentType } from './Collectible';
+import { DifficultySettings, GuardConsequence } from './Difficulties';
+import { FogOfWar } from './FogOfWar';
+import { FragmentSpawn, FragmentSpawner } from './FragmentSpawner';
+import { NavigationGrid } from './NavigationGrid';
+import { PlayerInput, PlayerPhysics } from './PlayerPhysics';
+import { RunLog, RunRecorder } from './RunRecorder';
+import { RunSnapshot } from './RunSave';
+import { FragmentCollection, ScoreBreakdown, ScoreCalculator } from './ScoreCalculator';
+import { SeededRandom } from './SeededRandom';
+import { WaterLayout } from './WaterLayout';
+
+/**
+ * Everything a seed generates: the same on the client, the server and in headless runs
+ */
+export interface SimulationWorld {
+  water: WaterLayout;
+  city: CityLayout;
+  navigation: NavigationGrid; // Walkable ground and walking distances from the start
+  fragments: FragmentSpawn[];
+}
+
+export type SimulationEvent =
+  | { type: 'collected'; fragment: number; fragmentType: FragmentType; speedBonus: boolean }
+  | { type: 'won' };
+
+/**
+ * The simulation's part of a saved run (RunSnapshot adds the view, weather and time of day)
+ */
+export type SimulationState = Pick<
+  RunSnapshot,
+  'gameTime' | 'collected' | 'collections' | 'lastFragmentTime' | 'speedBonusCount' | 'lastParkPosition' | 'fog' | 'runLog'
+> & {
+  player: Omit<RunSnapshot['player'], 'rotation'>;
+};
+
+/**
+ * The rules of a run without rendering or the DOM: the seed's city, water and fragments,
+ * fog and corruption, player movement and collision, pickups, scoring and the win condition.
+ * Runs in Node as well as the browser. Game steps it, draws its state and turns its events
+ * into effects; guards, weather and the day/night cycle stay in Game.
+ */
+export class Simulation {
+  static readonly FOG_RESOLUTION = 512;
+  static readonly COLLECTION_RADIUS = 6; // Increased to collect through walls (also used by run verification)
+  static readonly COLLECTION_HEIGHT = 8; // Vertical reach - rooftop fragments can't be grabbed from the street
+  private static readonly CORRUPTION_DAMAGE_THRESHOLD = 0.3;
+  private static readonly CORRUPTION_STAMINA_DRAIN = 15; // per second in fully corrupted areas
+  private static readonly CAUGHT_STAMINA_DRAIN = 50;
+
+  readonly settings: DifficultySettings;
+  readonly fog: FogOfWar;
+  readonly player: PlayerPhysics;
+
+  private seed: number;
+  private world: SimulationWorld;
+  private recorder = new RunRecorder();
+  private listeners: ((event: SimulationEvent) => void)[] = [];
+
+  private time = 0;
+  private collected: boolean[] = [];
+  private collections: FragmentCollection[] = []; // Pickups in order, scored in getScore()
+  private lastFragmentTime = 0;
+  private speedBonusCount = 0;
+  private hasPaused = false;
+  private won = false;
+  private lastParkPosition: THREE.Vector3 | null = null; // Where 'returnToPark' catches send the player
+
+  constructor(settings: DifficultySettings, seed: number) {
+    this.settings = settings;
+    this.seed = seed;
+    this.world = Simulation.createWorld(settings, seed);
+    this.fog = new FogOfWar(Simulation.FOG_RESOLUTION, settings.citySize);
+    this.player = new PlayerPhysics(Simulation.getStartPosition());
+    this.reset();
+  }
+
+  /**
+   * Generate a seed's water, city and fragments (water first so the city can avoid it,
+   * then the navigation grid so fragments only go where the player can walk to)
+   */
+  static createWorld(settings: DifficultySettings, seed: number): SimulationWorld {
+    const water = new WaterLayout(settings.citySize, SeededRandom.deriveSeed(seed, 'water'));
+    const city = new CityLayout(
+      settings.citySize,
+      settings.buildingDensity,
+      SeededRandom.deriveSeed(seed, 'city'),
+      water
+    );
+    const navigation = new NavigationGrid(city, water, settings.citySize, Simulation.getStartPosition());
+    const fragments = FragmentSpawner.generate(
+      city,
+      settings.citySize,
+      settings.fragmentCount,
+      SeededRandom.deriveSeed(seed, 'fragments'),
+      navigation
+    );
+    return { water, city, navigation, fragments };
+  }
+
+  /**
+   * Where runs start (and caught players go when they haven't been to a park)
+   */
+  static getStartPosition(): THREE.Vector3 {
+    return new THREE.Vector3(0, 5, 0);
+  }
+
+  /**
+   * Switch to a new seed's world and start over
+   */
+  regenerate(seed: number): void {
+    this.seed = seed;
+    this.world = Simulation.createWorld(this.settings, seed);
+    this.reset();
+  }
+
+  /**
+   * Start a fresh run in the current world
+   */
+  reset(): void {
+    this.time = 0;
+    this.collected = this.world.fragments.map(() => false);
+    this.collections = [];
+    this.lastFragmentTime = 0;
+    this.speedBonusCount = 0;
+    this.hasPaused = false;
+    this.won = false;
+    this.lastParkPosition = null;
+    this.recorder.reset();
+    this.fog.reset();
+    this.player.reset();
+    this.player.teleport(Simulation.getStartPosition());
+  }
+
+  /**
+   * Advance the run by one fixed step. Pass null as input while the player isn't in
+   * control (paused, win sequence): time and corruption still run, the player stays put.
+   */
+  step(delta: number, input: PlayerInput | null): void {
+    this.time += delta;
+
+    const position = input
+      ? this.player.step(delta, input, this.world.city)
+      : this.player.getPosition();
+
+    this.recorder.update(this.time, position);
+
+    // Fog of war
+    this.fog.clearAt(position.x, position.z, this.settings.fogClearRadius);
+    this.fog.updateCorruption(delta);
+
+    // Corruption damage - drain stamina in corrupted areas
+    const corruption = this.fog.getCorruptionAt(position.x, position.z);
+    if (corruption > Simulation.CORRUPTION_DAMAGE_THRESHOLD) {
+      this.player.drainStamina(corruption * Simulation.CORRUPTION_STAMINA_DRAIN * delta);
+    }
+
+    this.player.setInWater(this.world.water.isInWater(position));
+    if (this.player.getMovementState().inPark) {
+      this.lastParkPosition = (this.lastParkPosition ?? new THREE.Vector3()).copy(position);
+    }
+
+    // Fragment collection
+    this.world.fragments.forEach((fragment, index) => {
+      if (!this.collected[index] && Simulation.canCollect(fragment, position)) {
+        this.collect(index, position);
+      }
+    });
+
+    // Win condition
+    if (!this.won && this.getFragmentsCollected() >= this.world.fragments.length) {
+      this.won = true;
+      this.emit({ type: 'won' });
+    }
+  }
+
+  private static canCollect(fragment: FragmentSpawn, position: THREE.Vector3): boolean {
+    const distance = Math.hypot(position.x - fragment.position.x, position.z - fragment.position.z);
+    return distance < this.COLLECTION_RADIUS && Math.abs(position.y - fragment.position.y) < this.COLLECTION_HEIGHT;
+  }
+
+  private collect(index: number, position: THREE.Vector3): void {
+    const fragmentType = this.world.fragments[index].type;
+    this.collected[index] = true;
+    this.collections.push({ time: this.time, type: fragmentType });
+    this.recorder.recordCollection(this.time, index, position);
+
+    // Speed bonus: 2 fragments within 15 seconds (scored again from the collections in getScore)
+    const speedBonus = ScoreCalculator.isSpeedBonus(this.time - this.lastFragmentTime, this.collections.length);
+    if (speedBonus) {
+      this.speedBonusCount++;
+    }
+    this.lastFragmentTime = this.time;
+
+    this.emit({ type: 'collected', fragment: index, fragmentType, speedBonus });
+  }
+
+  /**
+   * A guard caught the player
+   */
+  catchPlayer(consequence: GuardConsequence): void {
+    if (consequence === 'returnToPark') {
+      // Back to the last park visited (or the start if there wasn't one)
+      const from = this.player.getPosition().clone();
+      const destination = this.lastParkPosition?.clone() ?? Simulation.getStartPosition();
+      this.player.teleport(destination);
+      this.recorder.recordTeleport(this.time, from, destination);
+    } else {
+      this.player.drainStamina(Simulation.CAUGHT_STAMINA_DRAIN);
+    }
+  }
+
+  /**
+   * The player paused (loses the no-pause bonus)
+   */
+  markPaused(): void {
+    this.hasPaused = true;
+    this.recorder.markPaused();
+  }
+
+  onEvent(listener: (event: SimulationEvent) => void): void {
+    this.listeners.push(listener);
+  }
+
+  private emit(event: SimulationEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  /**
+   * Score of the run so far (same formula the score API uses to re-check it)
+   */
+  getScore(): ScoreBreakdown {
+    return ScoreCalculator.calculate(this.collections, this.fog.getExploredPercent(), this.time, this.hasPaused);
+  }
+
+  /**
+   * The run log uploaded with the score for server-side verification
+   */
+  finishRunLog(difficulty: string, challengeId?: string): RunLog {
+    return this.recorder.finish(this.seed, difficulty, this.time, challengeId);
+  }
+
+  getState(): SimulationState {
+    const position = this.player.getPosition();
+    return {
+      gameTime: this.time,
+      player: {
+        position: [position.x, position.y, position.z],
+        stamina: this.player.getStamina(),
+      },
+      collected: this.collected
+        .map((isCollected, index) => (isCollected ? index : -1))
+        .filter(index => index >= 0),
+      collections: [...this.collections],
+      lastFragmentTime: this.lastFragmentTime,
+      speedBonusCount: this.speedBonusCount,
+      lastParkPosition: this.lastParkPosition
+        ? [this.lastParkPosition.x, this.lastParkPosition.y, this.lastParkPosition.z]
+        : null,
+      fog: this.fog.serialize(),
+      runLog: this.recorder.getState(),
+    };
+  }
+
+  /**
+   * Pick a saved run back up. Leaving and coming back counts as a pause (no-pause bonus).
+   */
+  restore(state: SimulationState): void {
+    this.reset();
+    this.time = state.gameTime;
+    this.collections = [...state.collections];
+    this.lastFragmentTime = state.lastFragmentTime;
+    this.speedBonusCount = state.speedBonusCount;
+    if (state.lastParkPosition) {
+      this.lastParkPosition = new THREE.Vector3(...state.lastParkPosition);
+    }
+    state.collected.forEach((index) => {
+      if (index >= 0 && index < this.collected.length) this.collected[index] = true;
+    });
+
+    this.player.restore(new THREE.Vector3(...state.player.position), state.player.stamina);
+    if (!this.fog.restore(state.fog)) {
+      this.fog.reset();
+    }
+
+    this.recorder.restore(state.runLog);
+    this.markPaused();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getCity(): CityLayout {
+    return this.world.city;
+  }
+
+  getWater(): WaterLayout {
+    return this.world.water;
+  }
+
+  getNavigation(): NavigationGrid {
+    return this.world.navigation;
+  }
+
+  getFragments(): FragmentSpawn[] {
+    return this.world.fragments;
+  }
+
+  isCollected(fragment: number): boolean {
+    return this.collected[fragment] ?? false;
+  }
+
+  getFragmentsCollected(): number {
+    return this.collected.filter(Boolean).length;
+  }
+
+  getTotalFragments(): number {
+    return this.world.fragments.length;
+  }
+
+  /**
+   * Game time in seconds (keeps running while paused)
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  hasWon(): boolean {
+    return this.won;
+  }
+}
@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import { FragmentType } from './Collectible';
+
+export type EmitterKind = 'steam' | 'streetLight' | 'neon';
+
+/**
+ * A fixed sound source in the city
+ */
+export interface WorldEmitter {
+  kind: EmitterKind;
+  position: THREE.Vector3;
+}
+
+// Uncollected fragments hum where they are (Collectible fits)
+export interface FragmentSound {
+  getPosition(): THREE.Vector3;
+  isCollected: boolean;
+  fragmentType: FragmentType;
+}
+
+interface Voice {
+  gain: GainNode;
+  panner: PannerNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+interface EmitterSound {
+  range: number; // Fades out linearly to silence at this distance
+  volume: number;
+}
+
+/**
+ * Positional loops in the world: a hum on every uncollected fragment (hidden ones too,
+ * so they can be found by ear), plus steam vents, street lights and neon signs. Only the
+ * world emitters nearest the listener get a voice, to keep the node count down.
+ */
+export class SoundEmitters {
+  private static readonly MAX_WORLD_VOICES = 8;
+  private static readonly FADE_TIME = 0.3;
+  private static readonly REF_DISTANCE = 2; // Full volume within this distance
+  private static readonly SOUNDS: Record<EmitterKind | FragmentType, EmitterSound> = {
+    common: { range: 60, volume: 0.12 },
+    rare: { range: 70, volume: 0.12 },
+    hidden: { range: 45, volume: 0.1 },
+    steam: { range: 30, volume: 0.25 },
+    streetLight: { range: 12, volume: 0.05 },
+    neon: { range: 20, volume: 0.05 },
+  };
+
+  private audioContext: AudioContext;
+  private ambientOutput: AudioNode;
+  private sfxOutput: AudioNode;
+  private noiseBuffer: AudioBuffer;
+
+  private worldEmitters: WorldEmitter[] = [];
+  private worldVoices = new Map<WorldEmitter, Voice>();
+  private fragmentVoices = new Map<FragmentSound, Voice>();
+
+  constructor(audioContext: AudioContext, ambientOutput: AudioNode, sfxOutput: AudioNode) {
+    this.audioContext = audioContext;
+    this.ambientOutput = ambientOutput;
+    this.sfxOutput = sfxOutput;
+
+    // Shared white noise for the steam hiss
+    const length = audioContext.sampleRate * 2;
+    this.noiseBuffer = audioContext.createBuffer(1, length, audioContext.sampleRate);
+    const data = this.noiseBuffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+  }
+
+  /**
+   * Replace the world's emitters (new city)
+   */
+  setWorldEmitters(emitters: WorldEmitter[]): void {
+    this.worldVoices.forEach(voice => this.stopVoice(voice));
+    this.worldVoices.clear();
+    this.worldEmitters = emitters;
+  }
+
+  /**
+   * Start and stop voices around the listener: the nearest world emitters in range, and
+   * every uncollected fragment in range
+   */
+  update(listener: THREE.Vector3, fragments: FragmentSound[]): void {
+    const nearest = this.worldEmitters
+      .map(emitter => ({ emitter, distance: emitter.position.distanceTo(listener) }))
+      .filter(({ emitter, distance }) => distance < SoundEmitters.SOUNDS[emitter.kind].range)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, SoundEmitters.MAX_WORLD_VOICES)
+      .map(({ emitter }) => emitter);
+
+    this.worldVoices.forEach((voice, emitter) => {
+      if (!nearest.includes(emitter)) {
+        this.stopVoice(voice);
+        this.worldVoices.delete(emitter);
+      }
+    });
+    nearest.forEach((emitter) => {
+      if (!this.worldVoices.has(emitter)) {
+        this.worldVoices.set(emitter, this.startVoice(emitter.kind, emitter.position));
+      }
+    });
+
+    // Fragments (the list is replaced on restart, so voices for old ones stop too)
+    this.fragmentVoices.forEach((voice, fragment) => {
+      const position = fragment.getPosition();
+      const range = SoundEmitters.SOUNDS[fragment.fragmentType].range;
+      if (fragment.isCollected || !fragments.includes(fragment) || position.distanceTo(listener) >= range) {
+        this.stopVoice(voice);
+        this.fragmentVoices.delete(fragment);
+      }
+    });
+    fragments.forEach((fragment) => {
+      if (fragment.isCollected || this.fragmentVoices.has(fragment)) return;
+      const position = fragment.getPosition();
+      if (position.distanceTo(listener) < SoundEmitters.SOUNDS[fragment.fragmentType].range) {
+        this.fragmentVoices.set(fragment, this.startVoice(fragment.fragmentType, position));
+      }
+    });
+  }
+
+  dispose(): void {
+    this.worldVoices.forEach(voice => this.stopVoice(voice));
+    this.fragmentVoices.forEach(voice => this.stopVoice(voice));
+    this.worldVoices.clear();
+    this.fragmentVoices.clear();
+  }
+
+  /**
+   * A panner for a sound at a point. With a range, it fades out linearly to silence
+   * there; without one, only the direction is heard (the caller sets the volume).
+   */
+  static createPanner(audioContext: AudioContext, range: number | null): PannerNode {
+    const panner = audioContext.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'linear';
+    panner.refDistance = SoundEmitters.REF_DISTANCE;
+    panner.maxDistance = range ?? 10000;
+    panner.rolloffFactor = range ? 1 : 0;
+    return panner;
+  }
+
+  static placePanner(panner: PannerNode, position: THREE.Vector3): void {
+    if (panner.positionX) {
+      panner.positionX.value = position.x;
+      panner.positionY.value = position.y;
+      panner.positionZ.value = position.z;
+    } else {
+      panner.setPosition(position.x, position.y, position.z);
+    }
+  }
+
+  private startVoice(kind: EmitterKind | FragmentType, position: THREE.Vector3): Voice {
+    const ctx = this.audioContext;
+    const sound = SoundEmitters.SOUNDS[kind];
+    const now = ctx.currentTime;
+
+    const panner = SoundEmitters.createPanner(ctx, sound.range);
+    SoundEmitters.placePanner(panner, position);
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    gain.gain.setTargetAtTime(sound.volume, now, SoundEmitters.FADE_TIME);
+    gain.connect(panner);
+    panner.connect(kind === 'steam' || kind === 'streetLight' || kind === 'neon' ? this.ambientOutput : this.sfxOutput);
+
+    const sources = this.createSound(kind, gain);
+    sources.forEach(source => source.start(now));
+    return { gain, panner, sources };
+  }
+
+  private stopVoice(voice: Voice): void {
+    const now = this.audioContext.currentTime;
+    voice.gain.gain.setTargetAtTime(0, now, SoundEmitters.FADE_TIME);
+    voice.sources.forEach((source) => {
+      try {
+        source.stop(now + SoundEmitters.FADE_TIME * 4);
+      } catch (e) {
+        // Ignore if already stopped
+      }
+    });
+    window.setTimeout(() => voice.panner.disconnect(), SoundEmitters.FADE_TIME * 5000);
+  }
+
+  // The loop for each kind of emitter, into `output`. Returns the sources to start and stop.
+  private createSound(kind: EmitterKind | FragmentType, output: AudioNode): AudioScheduledSourceNode[] {
+    const ctx = this.audioContext;
+    const oscillator = (type: OscillatorType, freq: number, destination: AudioNode): OscillatorNode => {
+      const osc = ctx.createOscillator();
+      osc.type = type;
+      osc.frequency.value = freq;
+      osc.connect(destination);
+      return osc;
+    };
+    // Amplitude wobble: `depth` of the level comes and goes `rate` times a second
+    const tremolo = (rate: number, depth: number, destination: AudioNode): [GainNode, OscillatorNode] => {
+      const gain = ctx.createGain();
+      gain.gain.value = 1 - depth;
+      gain.connect(destination);
+      const lfoDepth = ctx.createGain();
+      lfoDepth.gain.value = depth;
+      lfoDepth.connect(gain.gain);
+      return [gain, oscillator('sine', rate, lfoDepth)];
+    };
+
+    switch (kind) {
+      case 'common': {
+        // A4 + E5 (the pickup arpeggio's notes), gently pulsing
+        const [wobble, lfo] = tremolo(3, 0.4, output);
+        return [oscillator('sine', 440, wobble), oscillator('sine', 659.25, wobble), lfo];
+      }
+      case 'rare': {
+        // Brighter C5 + G5 with a quicker pulse
+        const [wobble, lfo] = tremolo(4.5, 0.5, output);
+        return [oscillator('triangle', 523.25, wobble), oscillator('sine', 783.99, wobble), lfo];
+      }
+      case 'hidden': {
+        // Eb4 + F#4 beating against each other, slow and eerie
+        const [wobble, lfo] = tremolo(1.2, 0.6, output);
+        return [oscillator('sine', 311.13, wobble), oscillator('sine', 369.99, wobble), oscillator('sine', 313, wobble), lfo];
+      }
+      case 'steam': {
+        // Hiss that puffs like the particles
+        const [wobble, lfo] = tremolo(0.32, 0.7, output);
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = 2500;
+        filter.connect(wobble);
+        const noise = ctx.createBufferSource();
+        noise.buffer = this.noiseBuffer;
+        noise.loop = true;
+        noise.connect(filter);
+        return [noise, lfo];
+      }
+      case 'streetLight': {
+        // Low mains buzz
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 400;
+        filter.connect(output);
+        return [oscillator('sawtooth', 120, filter)];
+      }
+      case 'neon': {
+        // Higher buzz with a flicker
+        const [wobble, lfo] = tremolo(7, 0.3, output);
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 1200;
+        filter.connect(wobble);
+        return [oscillator('square', 240, filter), lfo];
+      }
+    }
+  }
+}
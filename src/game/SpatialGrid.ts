@@ -0,0 +1,101 @@
+// Axis-aligned bounds on the ground plane (x/z)
+export interface GroundBounds {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+/**
+ * Uniform grid over static items on the ground plane, so spatial queries only look at
+ * items near the query instead of scanning them all. Items are bucketed by their bounds;
+ * queries return the items whose bounds overlap the query area, in their original order
+ * (callers that stop at the first hit behave exactly like a linear scan).
+ */
+export class SpatialGrid<T> {
+  private readonly items: T[];
+  private readonly cellSize: number;
+  private readonly minX: number;
+  private readonly minZ: number;
+  private readonly columns: number;
+  private readonly rows: number;
+  private readonly cells: number[][]; // Item indices per cell
+
+  // Query stamps, so items spanning several cells are only returned once
+  private readonly visited: Uint32Array;
+  private stamp = 0;
+
+  constructor(items: T[], getBounds: (item: T) => GroundBounds, cellSize: number) {
+    this.items = items;
+    this.cellSize = cellSize;
+    this.visited = new Uint32Array(items.length);
+
+    const bounds = items.map(getBounds);
+    this.minX = Math.min(0, ...bounds.map(b => b.minX));
+    this.minZ = Math.min(0, ...bounds.map(b => b.minZ));
+    const maxX = Math.max(0, ...bounds.map(b => b.maxX));
+    const maxZ = Math.max(0, ...bounds.map(b => b.maxZ));
+    this.columns = Math.max(1, Math.ceil((maxX - this.minX) / cellSize));
+    this.rows = Math.max(1, Math.ceil((maxZ - this.minZ) / cellSize));
+
+    this.cells = Array.from({ length: this.columns * this.rows }, () => []);
+    bounds.forEach((b, index) => {
+      this.forEachCell(b.minX, b.minZ, b.maxX, b.maxZ, cell => this.cells[cell].push(index));
+    });
+  }
+
+  /**
+   * Items whose bounds overlap the rectangle
+   */
+  query(minX: number, minZ: number, maxX: number, maxZ: number): T[] {
+    this.stamp++;
+    if (this.stamp === 0xffffffff) {
+      this.visited.fill(0);
+      this.stamp = 1;
+    }
+
+    const firstColumn = this.toColumn(minX);
+    const lastColumn = this.toColumn(maxX);
+    const firstRow = this.toRow(minZ);
+    const lastRow = this.toRow(maxZ);
+    const found: number[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        for (const index of this.cells[row * this.columns + column]) {
+          if (this.visited[index] !== this.stamp) {
+            this.visited[index] = this.stamp;
+            found.push(index);
+          }
+        }
+      }
+    }
+
+    // Each cell lists items in order, but across cells they can come out of order
+    if (firstRow !== lastRow || firstColumn !== lastColumn) found.sort((a, b) => a - b);
+    return found.map(index => this.items[index]);
+  }
+
+  /**
+   * Items whose bounds overlap the square around a point
+   */
+  queryAround(x: number, z: number, radius: number): T[] {
+    return this.query(x - radius, z - radius, x + radius, z + radius);
+  }
+
+  // Cells covering a rectangle, clamped to the grid (items and queries outside share the edge cells)
+  private forEachCell(minX: number, minZ: number, maxX: number, maxZ: number, callback: (cell: number) => void): void {
+    for (let row = this.toRow(minZ); row <= this.toRow(maxZ); row++) {
+      for (let column = this.toColumn(minX); column <= this.toColumn(maxX); column++) {
+        callback(row * this.columns + column);
+      }
+    }
+  }
+
+  private toColumn(x: number): number {
+    return Math.min(this.columns - 1, Math.max(0, Math.floor((x - this.minX) / this.cellSize)));
+  }
+
+  private toRow(z: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor((z - this.minZ) / this.cellSize)));
+  }
+}
@@ -93,6 +93,17 @@ export class SteamVents {
     this.vents.push(vent);
   }
 
+  /**
+   * Remove all vents (used when the city is regenerated)
+   */
+  clear(): void {
+    this.vents = [];
+  }
+
+  getVentPositions(): THREE.Vector3[] {
+    return this.vents.map(vent => vent.position);
+  }
+
   private createParticle(ventPos: THREE.Vector3): VentParticle {
     const angle = Math.random() * Math.PI * 2;
     const spread = 0.5;
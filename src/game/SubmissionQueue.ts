@@ -0,0 +1,111 @@
+import { HighScore } from './HighScoreManager';
+import { RunLog } from './RunRecorder';
+
+export interface QueuedSubmission {
+  score: HighScore;
+  runLog?: RunLog;
+  attempts: number;
+  nextAttempt: number; // Timestamp (ms) of the next scheduled retry
+}
+
+/**
+ * Outbox for global score submissions, kept in localStorage so scores that couldn't be
+ * uploaded (offline, server down) are retried later - even after the page is closed.
+ * Entries are keyed by run id, so a run is never queued twice.
+ */
+export class SubmissionQueue {
+  private static readonly STORAGE_KEY = 'unmask-the-city-submission-queue';
+  private static readonly MAX_ENTRIES = 20; // Run logs are a few KB each
+  private static readonly BASE_DELAY = 30 * 1000; // ms
+  private static readonly MAX_DELAY = 60 * 60 * 1000; // ms
+
+  static getAll(): QueuedSubmission[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+      return JSON.parse(stored) as QueuedSubmission[];
+    } catch (error) {
+      console.error('Failed to load submission queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Queue a run (replacing an earlier entry for the same run id), due after `delay` ms
+   */
+  static add(score: HighScore, runLog?: RunLog, delay = 0): void {
+    if (!score.runId) return;
+
+    const queue = this.getAll().filter(entry => entry.score.runId !== score.runId);
+    queue.push({ score, runLog, attempts: 0, nextAttempt: Date.now() + delay });
+
+    // Oldest entries give way first
+    this.save(queue.slice(-this.MAX_ENTRIES));
+  }
+
+  /**
+   * Change a queued run's score data and make it due immediately.
+   * Returns false if the run isn't queued (anymore).
+   */
+  static update(runId: string, changes: Partial<HighScore>): boolean {
+    const queue = this.getAll();
+    const entry = queue.find(e => e.score.runId === runId);
+    if (!entry) return false;
+
+    entry.score = { ...entry.score, ...changes };
+    entry.nextAttempt = Date.now();
+    this.save(queue);
+    return true;
+  }
+
+  static remove(runId: string): void {
+    this.save(this.getAll().filter(entry => entry.score.runId !== runId));
+  }
+
+  /**
+   * Schedule the next retry of a run with exponential backoff (full jitter)
+   */
+  static markFailed(runId: string): void {
+    const queue = this.getAll();
+    const entry = queue.find(e => e.score.runId === runId);
+    if (!entry) return;
+
+    entry.attempts++;
+    const delay = Math.min(this.MAX_DELAY, this.BASE_DELAY * 2 ** (entry.attempts - 1));
+    entry.nextAttempt = Date.now() + delay / 2 + Math.random() * (delay / 2);
+    this.save(queue);
+  }
+
+  static has(runId: string | undefined): boolean {
+    return !!runId && this.getAll().some(entry => entry.score.runId === runId);
+  }
+
+  /**
+   * Entries whose retry time has come (or all of them, when forced)
+   */
+  static getDue(force = false): QueuedSubmission[] {
+    const now = Date.now();
+    return this.getAll().filter(entry => force || entry.nextAttempt <= now);
+  }
+
+  /**
+   * Time until the next scheduled retry in ms, or null if the queue is empty
+   */
+  static getNextDelay(): number | null {
+    const queue = this.getAll();
+    if (queue.length === 0) return null;
+    return Math.max(0, Math.min(...queue.map(entry => entry.nextAttempt)) - Date.now());
+  }
+
+  private static save(queue: QueuedSubmission[]): void {
+    try {
+      if (queue.length === 0) {
+        localStorage.removeItem(this.STORAGE_KEY);
+      } else {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(queue));
+      }
+    } catch (error) {
+      console.error('Failed to save submission queue:', error);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import * as THREE from 'three';
+import type { Control, InputAction } from './InputManager';
+
+/**
+ * On-screen controls for touch-only devices: a virtual joystick on the left half of the
+ * screen, drag-to-look on the right half and buttons for sprint, jump, slide and pause.
+ * The elements live in index.html (#touch-controls); InputManager reads this every poll.
+ */
+export class TouchControls {
+  private static readonly JOYSTICK_RADIUS = 50; // px of knob travel for full deflection
+  private static readonly LOOK_SPEED = 0.005; // radians per px dragged
+
+  private joystick: HTMLElement | null;
+  private knob: HTMLElement | null;
+  private sprintButton: HTMLElement | null = null;
+
+  // Joystick
+  private moveTouch: number | null = null;
+  private move = new THREE.Vector2(); // x = right, y = forward
+
+  // Drag-to-look
+  private lookTouch: number | null = null;
+  private lastLook = new THREE.Vector2();
+  private look = new THREE.Vector2(); // px dragged since the last takeLook
+
+  // Buttons
+  private held = new Set<Control>();
+  private presses = new Set<Control>();
+  private sprintToggled = false;
+
+  private listenerScope = new AbortController(); // Aborted on dispose - the elements outlive the game
+
+  constructor(private onAction: (action: InputAction) => void) {
+    this.joystick = document.getElementById('touch-joystick');
+    this.knob = document.getElementById('touch-joystick-knob');
+    const { signal } = this.listenerScope;
+
+    const layer = document.getElementById('touch-controls');
+    if (layer) {
+      // Non-passive so the page doesn't scroll or zoom while playing
+      layer.addEventListener('touchstart', (e) => this.onTouchStart(e), { passive: false, signal });
+      layer.addEventListener('touchmove', (e) => this.onTouchMove(e), { passive: false, signal });
+      layer.addEventListener('touchend', (e) => this.onTouchEnd(e), { signal });
+      layer.addEventListener('touchcancel', (e) => this.onTouchEnd(e), { signal });
+    }
+
+    document.querySelectorAll<HTMLElement>('#touch-controls [data-control]').forEach((button) => {
+      const control = button.dataset.control as Control;
+      if (control === 'sprint') this.sprintButton = button;
+
+      button.addEventListener('touchstart', (e) => {
+        e.preventDefault();
+        e.stopPropagation(); // Don't start a joystick or look drag
+        this.pressButton(control, button);
+      }, { passive: false, signal });
+      const release = (e: TouchEvent) => {
+        e.stopPropagation();
+        if (control !== 'sprint') {
+          this.held.delete(control);
+          button.classList.remove('active');
+        }
+      };
+      button.addEventListener('touchend', release, { signal });
+      button.addEventListener('touchcancel', release, { signal });
+    });
+
+    const pauseButton = document.getElementById('touch-pause');
+    pauseButton?.addEventListener('touchstart', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.onAction('pause');
+    }, { passive: false, signal });
+
+    const mapButton = document.getElementById('touch-map');
+    mapButton?.addEventListener('touchstart', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.onAction('map');
+    }, { passive: false, signal });
+  }
+
+  /**
+   * Touch screen without a mouse or trackpad (phones and tablets)
+   */
+  static isTouchOnlyDevice(): boolean {
+    return navigator.maxTouchPoints > 0 && !window.matchMedia('(any-pointer: fine)').matches;
+  }
+
+  private pressButton(control: Control, button: HTMLElement): void {
+    // Sprint toggles (a thumb can't hold it while steering); it switches off when you stop moving
+    if (control === 'sprint') {
+      this.setSprint(!this.sprintToggled);
+      return;
+    }
+    this.held.add(control);
+    this.presses.add(control);
+    button.classList.add('active');
+  }
+
+  private setSprint(on: boolean): void {
+    this.sprintToggled = on;
+    this.sprintButton?.classList.toggle('active', on);
+  }
+
+  private onTouchStart(event: TouchEvent): void {
+    event.preventDefault();
+    Array.from(event.changedTouches).forEach((touch) => {
+      if (touch.clientX < window.innerWidth / 2) {
+        if (this.moveTouch === null) {
+          this.moveTouch = touch.identifier;
+          this.updateJoystick(touch);
+        }
+      } else if (this.lookTouch === null) {
+        this.lookTouch = touch.identifier;
+        this.lastLook.set(touch.clientX, touch.clientY);
+      }
+    });
+  }
+
+  private onTouchMove(event: TouchEvent): void {
+    event.preventDefault();
+    Array.from(event.changedTouches).forEach((touch) => {
+      if (touch.identifier === this.moveTouch) {
+        this.updateJoystick(touch);
+      } else if (touch.identifier === this.lookTouch) {
+        this.look.x += touch.clientX - this.lastLook.x;
+        this.look.y += touch.clientY - this.lastLook.y;
+        this.lastLook.set(touch.clientX, touch.clientY);
+      }
+    });
+  }
+
+  private onTouchEnd(event: TouchEvent): void {
+    Array.from(event.changedTouches).forEach((touch) => {
+      if (touch.identifier === this.moveTouch) {
+        this.moveTouch = null;
+        this.move.set(0, 0);
+        this.setSprint(false);
+        this.setKnob(0, 0);
+      } else if (touch.identifier === this.lookTouch) {
+        this.lookTouch = null;
+      }
+    });
+  }
+
+  // Deflection from the joystick's center, wherever on the left half the thumb went down
+  private updateJoystick(touch: Touch): void {
+    if (!this.joystick) return;
+    const rect = this.joystick.getBoundingClientRect();
+    const offset = new THREE.Vector2(
+      touch.clientX - (rect.left + rect.width / 2),
+      touch.clientY - (rect.top + rect.height / 2)
+    );
+    offset.clampLength(0, TouchControls.JOYSTICK_RADIUS);
+    this.setKnob(offset.x, offset.y);
+    this.move.set(offset.x, -offset.y).divideScalar(TouchControls.JOYSTICK_RADIUS);
+  }
+
+  private setKnob(x: number, y: number): void {
+    if (this.knob) {
+      this.knob.style.transform = `translate(calc(-50% + ${x}px), calc(-50% + ${y}px))`;
+    }
+  }
+
+  getMove(): THREE.Vector2 {
+    return this.move.clone();
+  }
+
+  isHeld(control: Control): boolean {
+    return control === 'sprint' ? this.sprintToggled : this.held.has(control);
+  }
+
+  /**
+   * Buttons pressed since the last call
+   */
+  takePresses(): Control[] {
+    const presses = Array.from(this.presses);
+    this.presses.clear();
+    return presses;
+  }
+
+  /**
+   * Look dragged since the last call, in radians (x = yaw to the right, y = pitch up)
+   */
+  takeLook(): THREE.Vector2 {
+    const look = new THREE.Vector2(this.look.x, -this.look.y).multiplyScalar(TouchControls.LOOK_SPEED);
+    this.look.set(0, 0);
+    return look;
+  }
+
+  /**
+   * Release everything (e.g. on restart)
+   */
+  reset(): void {
+    this.moveTouch = null;
+    this.lookTouch = null;
+    this.move.set(0, 0);
+    this.look.set(0, 0);
+    this.held.clear();
+    this.presses.clear();
+    this.setSprint(false);
+    this.setKnob(0, 0);
+    document.querySelectorAll('#touch-controls .active').forEach(button => button.classList.remove('active'));
+  }
+
+  /**
+   * Remove the listeners from the #touch-controls elements (they stay for the next game)
+   */
+  dispose(): void {
+    this.reset();
+    this.listenerScope.abort();
+  }
+}
@@ -1,91 +1,44 @@
 import * as THREE from 'three';
 import { Water as ThreeWater } from 'three/addons/objects/Water.js';
-
-interface WaterBody {
-  position: THREE.Vector3;
-  radius: number;
-  type: 'lake' | 'river';
-  riverLength?: number;
-  riverAngle?: number;
-  shorelineShape?: number[]; // Random offsets for organic shoreline
-}
+import { SeededRandom } from './SeededRandom';
+import { WaterLayout, WaterBody } from './WaterLayout';
 
 export class Water {
   private scene: THREE.Scene;
-  private waterBodies: WaterBody[] = [];
+  private layout: WaterLayout;
   private waterMeshes: ThreeWater[] = [];
   private shorelineMeshes: THREE.Mesh[] = [];
   private rockMeshes: THREE.Mesh[] = [];
   private sunLight: THREE.DirectionalLight;
+  private rng: SeededRandom;
 
-  constructor(scene: THREE.Scene, worldSize: number, sunLight: THREE.DirectionalLight) {
+  /**
+   * Draws a layout generated from a water seed (see Simulation.createWorld); the seed also
+   * drives the shoreline rocks
+   */
+  constructor(scene: THREE.Scene, layout: WaterLayout, sunLight: THREE.DirectionalLight, seed: number) {
     this.scene = scene;
     this.sunLight = sunLight;
-    this.generateWaterBodies(worldSize);
+    this.layout = layout;
+    this.rng = new SeededRandom(SeededRandom.deriveSeed(seed, 'meshes'));
     this.createMeshes();
   }
 
-  private generateWaterBodies(worldSize: number): void {
-    const halfSize = worldSize / 2;
-
-    // Generate 2-3 lakes
-    const numLakes = 2 + Math.floor(Math.random() * 2);
-    for (let i = 0; i < numLakes; i++) {
-      // Place lakes in different quadrants, avoiding spawn area
-      const angle = (i / numLakes) * Math.PI * 2 + Math.random() * 0.8;
-      const distance = 100 + Math.random() * (halfSize - 150);
-      const x = Math.cos(angle) * distance;
-      const z = Math.sin(angle) * distance;
-      const radius = 25 + Math.random() * 30;
-
-      // Generate random shoreline shape (12-16 control points)
-      const numPoints = 12 + Math.floor(Math.random() * 5);
-      const shorelineShape: number[] = [];
-      for (let j = 0; j < numPoints; j++) {
-        // Random variation between 0.7 and 1.0 of radius
-        shorelineShape.push(0.7 + Math.random() * 0.3);
-      }
-
-      this.waterBodies.push({
-        position: new THREE.Vector3(x, 0, z),
-        radius,
-        type: 'lake',
-        shorelineShape,
-      });
-    }
-
-    // Generate 1-2 rivers (elongated water bodies)
-    const numRivers = 1 + Math.floor(Math.random() * 2);
-    for (let i = 0; i < numRivers; i++) {
-      const x = (Math.random() - 0.5) * worldSize * 0.6;
-      const z = (Math.random() - 0.5) * worldSize * 0.6;
-
-      // Avoid spawn area
-      if (Math.abs(x) < 50 && Math.abs(z) < 50) continue;
-
-      // Generate wavy river banks
-      const numPoints = 20;
-      const shorelineShape: number[] = [];
-      for (let j = 0; j < numPoints; j++) {
-        shorelineShape.push(0.6 + Math.random() * 0.4);
-      }
-
-      this.waterBodies.push({
-        position: new THREE.Vector3(x, 0, z),
-        radius: 12 + Math.random() * 8,
-        type: 'river',
-        riverLength: 80 + Math.random() * 100,
-        riverAngle: Math.random() * Math.PI,
-        shorelineShape,
-      });
-    }
+  /**
+   * Rebuild lakes and rivers from a new seed's layout (used on restart)
+   */
+  regenerate(layout: WaterLayout, seed: number): void {
+    this.dispose();
+    this.layout = layout;
+    this.rng = new SeededRandom(SeededRandom.deriveSeed(seed, 'meshes'));
+    this.createMeshes();
   }
 
   private createMeshes(): void {
     // Create a procedural water normal texture
     const normalTexture = this.createWaterNormalTexture();
 
-    this.waterBodies.forEach((body) => {
+    this.layout.waterBodies.forEach((body) => {
       let geometry: THREE.PlaneGeometry;
       let width: number;
       let height: number;
@@ -298,7 +251,7 @@ export class Water {
 
   private createShorelineRocks(body: WaterBody): void {
     const shape = body.shorelineShape || [];
-    const numRocks = body.type === 'lake' ? 8 + Math.floor(Math.random() * 6) : 12 + Math.floor(Math.random() * 8);
+    const numRocks = body.type === 'lake' ? 8 + Math.floor(this.rng.next() * 6) : 12 + Math.floor(this.rng.next() * 8);
 
     const rockGeometries = [
       new THREE.DodecahedronGeometry(1, 0),
@@ -313,16 +266,16 @@ export class Water {
     });
 
     for (let i = 0; i < numRocks; i++) {
-      const geom = rockGeometries[Math.floor(Math.random() * rockGeometries.length)].clone();
+      const geom = rockGeometries[Math.floor(this.rng.next() * rockGeometries.length)].clone();
 
       // Random scale
-      const scale = 0.5 + Math.random() * 1.5;
+      const scale = 0.5 + this.rng.next() * 1.5;
 
       // Position along shoreline
       let rockX: number, rockZ: number;
 
       if (body.type === 'lake') {
-        const angle = Math.random() * Math.PI * 2;
+        const angle = this.rng.next() * Math.PI * 2;
         const shapeIndex = (angle / (Math.PI * 2)) * shape.length;
         const idx1 = Math.floor(shapeIndex) % shape.length;
         const idx2 = (idx1 + 1) % shape.length;
@@ -330,18 +283,18 @@ export class Water {
         const variation = shape[idx1] * (1 - t) + shape[idx2] * t;
 
         // Place near the shoreline edge
-        const r = body.radius * variation * (0.95 + Math.random() * 0.15);
+        const r = body.radius * variation * (0.95 + this.rng.next() * 0.15);
         rockX = Math.cos(angle) * r;
         rockZ = Math.sin(angle) * r;
       } else {
         // River rocks along banks
-        const t = Math.random();
+        const t = this.rng.next();
         const riverLength = body.riverLength || 80;
         const alongRiver = (t - 0.5) * riverLength * 0.9;
-        const side = Math.random() > 0.5 ? 1 : -1;
+        const side = this.rng.next() > 0.5 ? 1 : -1;
         const riverAngle = body.riverAngle || 0;
 
-        const offset = body.radius * (0.8 + Math.random() * 0.3) * side;
+        const offset = body.radius * (0.8 + this.rng.next() * 0.3) * side;
         rockX = alongRiver * Math.sin(riverAngle) + offset * Math.cos(riverAngle);
         rockZ = alongRiver * Math.cos(riverAngle) - offset * Math.sin(riverAngle);
       }
@@ -354,9 +307,9 @@ export class Water {
       );
       rock.scale.set(scale, scale * 0.6, scale); // Flatten slightly
       rock.rotation.set(
-        Math.random() * Math.PI,
-        Math.random() * Math.PI,
-        Math.random() * Math.PI
+        this.rng.next() * Math.PI,
+        this.rng.next() * Math.PI,
+        this.rng.next() * Math.PI
       );
       rock.castShadow = true;
       rock.receiveShadow = true;
@@ -425,108 +378,32 @@ export class Water {
   }
 
   // Check if a position is in water (uses organic shoreline shape)
-  isInWater(position: THREE.Vector3): boolean {
-    for (const body of this.waterBodies) {
-      if (body.type === 'lake') {
-        const dx = position.x - body.position.x;
-        const dz = position.z - body.position.z;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-
-        // Use shoreline shape for accurate boundary
-        const shape = body.shorelineShape || [];
-        if (shape.length > 0) {
-          const angle = Math.atan2(dz, dx);
-          const normalizedAngle = angle < 0 ? angle + Math.PI * 2 : angle;
-          const shapeIndex = (normalizedAngle / (Math.PI * 2)) * shape.length;
-          const idx1 = Math.floor(shapeIndex) % shape.length;
-          const idx2 = (idx1 + 1) % shape.length;
-          const t = shapeIndex - Math.floor(shapeIndex);
-          const variation = shape[idx1] * (1 - t) + shape[idx2] * t;
-
-          if (dist < body.radius * variation) return true;
-        } else {
-          if (dist < body.radius) return true;
-        }
-      } else {
-        // River: check elongated bounds with wavy edges
-        const angle = body.riverAngle || 0;
-        const dx = position.x - body.position.x;
-        const dz = position.z - body.position.z;
-        // Rotate to river's local space
-        const localX = dx * Math.cos(-angle) - dz * Math.sin(-angle);
-        const localZ = dx * Math.sin(-angle) + dz * Math.cos(-angle);
+  getLayout(): WaterLayout {
+    return this.layout;
+  }
 
-        const riverLength = body.riverLength || 80;
-        const shape = body.shorelineShape || [];
-
-        if (Math.abs(localZ) < riverLength / 2) {
-          // Get width variation at this point
-          let effectiveWidth = body.radius;
-          if (shape.length > 0) {
-            const t = (localZ / riverLength + 0.5);
-            const idx = Math.floor(t * shape.length) % shape.length;
-            effectiveWidth = body.radius * shape[idx];
-          }
-
-          if (Math.abs(localX) < effectiveWidth) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
+  isInWater(position: THREE.Vector3): boolean {
+    return this.layout.isInWater(position);
   }
 
   // Get water bodies for collision/spawn checking
   getWaterBodies(): WaterBody[] {
-    return this.waterBodies;
+    return this.layout.waterBodies;
   }
 
   // Get distance to nearest water body (for audio ambience)
   getDistanceToWater(position: THREE.Vector3): number {
-    let minDist = Infinity;
-
-    for (const body of this.waterBodies) {
-      const dx = position.x - body.position.x;
-      const dz = position.z - body.position.z;
-      const distToCenter = Math.sqrt(dx * dx + dz * dz);
-
-      // Approximate distance to water edge
-      let distToEdge: number;
-      if (body.type === 'lake') {
-        distToEdge = Math.max(0, distToCenter - body.radius);
-      } else {
-        // River: check both length and width dimensions
-        const riverLength = body.riverLength || 80;
-        const angle = body.riverAngle || 0;
-        const localX = dx * Math.cos(-angle) - dz * Math.sin(-angle);
-        const localZ = dx * Math.sin(-angle) + dz * Math.cos(-angle);
-
-        const distAlongRiver = Math.max(0, Math.abs(localZ) - riverLength / 2);
-        const distAcrossRiver = Math.max(0, Math.abs(localX) - body.radius);
-        distToEdge = Math.sqrt(distAlongRiver * distAlongRiver + distAcrossRiver * distAcrossRiver);
-      }
-
-      minDist = Math.min(minDist, distToEdge);
-    }
+    return this.layout.getDistanceToWater(position);
+  }
 
-    return minDist;
+  // Closest point of any water body (for positional water audio)
+  getNearestWaterPoint(position: THREE.Vector3): THREE.Vector3 | null {
+    return this.layout.getNearestWaterPoint(position);
   }
 
   // Check if position is too close to water (for building spawning)
   isNearWater(position: THREE.Vector3, padding = 10): boolean {
-    for (const body of this.waterBodies) {
-      const dist = Math.sqrt(
-        Math.pow(position.x - body.position.x, 2) +
-        Math.pow(position.z - body.position.z, 2)
-      );
-      const effectiveRadius = body.type === 'lake'
-        ? body.radius + padding
-        : Math.max(body.radius, (body.riverLength || 80) / 2) + padding;
-
-      if (dist < effectiveRadius) return true;
-    }
-    return false;
+    return this.layout.isNearWater(position, padding);
   }
 
   dispose(): void {
@@ -548,6 +425,5 @@ export class Water {
     this.waterMeshes = [];
     this.shorelineMeshes = [];
     this.rockMeshes = [];
-    this.waterBodies = [];
   }
 }
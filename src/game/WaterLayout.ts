@@ -0,0 +1,243 @@
+import * as THREE from 'three';
+import { SeededRandom } from './SeededRandom';
+import { SpatialGrid } from './SpatialGrid';
+
+export interface WaterBody {
+  position: THREE.Vector3;
+  radius: number;
+  type: 'lake' | 'river';
+  riverLength?: number;
+  riverAngle?: number;
+  shorelineShape?: number[]; // Random offsets for organic shoreline
+}
+
+/**
+ * Scene-independent lakes and rivers generated from a seed. Water renders these bodies
+ * and CityLayout avoids them, so both client and server derive the same city.
+ */
+export class WaterLayout {
+  private static readonly GRID_CELL_SIZE = 50;
+
+  readonly waterBodies: WaterBody[] = [];
+  private bodyIndex: SpatialGrid<WaterBody> | null;
+
+  constructor(worldSize: number, seed: number) {
+    this.generate(worldSize, new SeededRandom(seed));
+
+    // Squares around each body's center that contain all of it (rivers can point any way)
+    this.bodyIndex = new SpatialGrid(this.waterBodies, (body) => {
+      const reach = WaterLayout.getReach(body);
+      return {
+        minX: body.position.x - reach,
+        minZ: body.position.z - reach,
+        maxX: body.position.x + reach,
+        maxZ: body.position.z + reach,
+      };
+    }, WaterLayout.GRID_CELL_SIZE);
+  }
+
+  private generate(worldSize: number, rng: SeededRandom): void {
+    const halfSize = worldSize / 2;
+
+    // Generate 2-3 lakes
+    const numLakes = 2 + Math.floor(rng.next() * 2);
+    for (let i = 0; i < numLakes; i++) {
+      // Place lakes in different quadrants, avoiding spawn area
+      const angle = (i / numLakes) * Math.PI * 2 + rng.next() * 0.8;
+      const distance = 100 + rng.next() * (halfSize - 150);
+      const x = Math.cos(angle) * distance;
+      const z = Math.sin(angle) * distance;
+      const radius = 25 + rng.next() * 30;
+
+      // Generate random shoreline shape (12-16 control points)
+      const numPoints = 12 + Math.floor(rng.next() * 5);
+      const shorelineShape: number[] = [];
+      for (let j = 0; j < numPoints; j++) {
+        // Random variation between 0.7 and 1.0 of radius
+        shorelineShape.push(0.7 + rng.next() * 0.3);
+      }
+
+      this.waterBodies.push({
+        position: new THREE.Vector3(x, 0, z),
+        radius,
+        type: 'lake',
+        shorelineShape,
+      });
+    }
+
+    // Generate 1-2 rivers (elongated water bodies)
+    const numRivers = 1 + Math.floor(rng.next() * 2);
+    for (let i = 0; i < numRivers; i++) {
+      const x = (rng.next() - 0.5) * worldSize * 0.6;
+      const z = (rng.next() - 0.5) * worldSize * 0.6;
+
+      // Avoid spawn area
+      if (Math.abs(x) < 50 && Math.abs(z) < 50) continue;
+
+      // Generate wavy river banks
+      const numPoints = 20;
+      const shorelineShape: number[] = [];
+      for (let j = 0; j < numPoints; j++) {
+        shorelineShape.push(0.6 + rng.next() * 0.4);
+      }
+
+      this.waterBodies.push({
+        position: new THREE.Vector3(x, 0, z),
+        radius: 12 + rng.next() * 8,
+        type: 'river',
+        riverLength: 80 + rng.next() * 100,
+        riverAngle: rng.next() * Math.PI,
+        shorelineShape,
+      });
+    }
+  }
+
+  isInWater(position: THREE.Vector3): boolean {
+    for (const body of this.bodiesNear(position.x, position.z, 0)) {
+      if (body.type === 'lake') {
+        const dx = position.x - body.position.x;
+        const dz = position.z - body.position.z;
+        const dist = Math.sqrt(dx * dx + dz * dz);
+
+        // Use shoreline shape for accurate boundary
+        const shape = body.shorelineShape || [];
+        if (shape.length > 0) {
+          const angle = Math.atan2(dz, dx);
+          const normalizedAngle = angle < 0 ? angle + Math.PI * 2 : angle;
+          const shapeIndex = (normalizedAngle / (Math.PI * 2)) * shape.length;
+          const idx1 = Math.floor(shapeIndex) % shape.length;
+          const idx2 = (idx1 + 1) % shape.length;
+          const t = shapeIndex - Math.floor(shapeIndex);
+          const variation = shape[idx1] * (1 - t) + shape[idx2] * t;
+
+          if (dist < body.radius * variation) return true;
+        } else {
+          if (dist < body.radius) return true;
+        }
+      } else {
+        // River: check elongated bounds with wavy edges
+        const angle = body.riverAngle || 0;
+        const dx = position.x - body.position.x;
+        const dz = position.z - body.position.z;
+        // Rotate to river's local space
+        const localX = dx * Math.cos(-angle) - dz * Math.sin(-angle);
+        const localZ = dx * Math.sin(-angle) + dz * Math.cos(-angle);
+
+        const riverLength = body.riverLength || 80;
+        const shape = body.shorelineShape || [];
+
+        if (Math.abs(localZ) < riverLength / 2) {
+          // Get width variation at this point
+          let effectiveWidth = body.radius;
+          if (shape.length > 0) {
+            const t = (localZ / riverLength + 0.5);
+            const idx = Math.floor(t * shape.length) % shape.length;
+            effectiveWidth = body.radius * shape[idx];
+          }
+
+          if (Math.abs(localX) < effectiveWidth) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  // Get distance to nearest water body (for audio ambience)
+  getDistanceToWater(position: THREE.Vector3): number {
+    let minDist = Infinity;
+
+    for (const body of this.waterBodies) {
+      const dx = position.x - body.position.x;
+      const dz = position.z - body.position.z;
+      const distToCenter = Math.sqrt(dx * dx + dz * dz);
+
+      // Approximate distance to water edge
+      let distToEdge: number;
+      if (body.type === 'lake') {
+        distToEdge = Math.max(0, distToCenter - body.radius);
+      } else {
+        // River: check both length and width dimensions
+        const riverLength = body.riverLength || 80;
+        const angle = body.riverAngle || 0;
+        const localX = dx * Math.cos(-angle) - dz * Math.sin(-angle);
+        const localZ = dx * Math.sin(-angle) + dz * Math.cos(-angle);
+
+        const distAlongRiver = Math.max(0, Math.abs(localZ) - riverLength / 2);
+        const distAcrossRiver = Math.max(0, Math.abs(localX) - body.radius);
+        distToEdge = Math.sqrt(distAlongRiver * distAlongRiver + distAcrossRiver * distAcrossRiver);
+      }
+
+      minDist = Math.min(minDist, distToEdge);
+    }
+
+    return minDist;
+  }
+
+  /**
+   * Closest point on the ground of any water body (the position itself when in water),
+   * with the same lake and river approximations as getDistanceToWater. Null without water.
+   */
+  getNearestWaterPoint(position: THREE.Vector3): THREE.Vector3 | null {
+    let nearest: THREE.Vector3 | null = null;
+    let minDist = Infinity;
+
+    for (const body of this.waterBodies) {
+      const dx = position.x - body.position.x;
+      const dz = position.z - body.position.z;
+      let point: THREE.Vector3;
+
+      if (body.type === 'lake') {
+        const distToCenter = Math.sqrt(dx * dx + dz * dz);
+        const scale = distToCenter > body.radius ? body.radius / distToCenter : 1;
+        point = new THREE.Vector3(body.position.x + dx * scale, 0, body.position.z + dz * scale);
+      } else {
+        // Clamp into the river's rectangle in its own frame, then back to world space
+        const riverLength = body.riverLength || 80;
+        const angle = body.riverAngle || 0;
+        const localX = THREE.MathUtils.clamp(dx * Math.cos(-angle) - dz * Math.sin(-angle), -body.radius, body.radius);
+        const localZ = THREE.MathUtils.clamp(dx * Math.sin(-angle) + dz * Math.cos(-angle), -riverLength / 2, riverLength / 2);
+        point = new THREE.Vector3(
+          body.position.x + localX * Math.cos(angle) - localZ * Math.sin(angle),
+          0,
+          body.position.z + localX * Math.sin(angle) + localZ * Math.cos(angle)
+        );
+      }
+
+      const dist = Math.hypot(point.x - position.x, point.z - position.z);
+      if (dist < minDist) {
+        minDist = dist;
+        nearest = point;
+      }
+    }
+
+    return nearest;
+  }
+
+  // Check if position is too close to water (for building spawning)
+  isNearWater(position: THREE.Vector3, padding = 10): boolean {
+    for (const body of this.bodiesNear(position.x, position.z, padding)) {
+      const dist = Math.sqrt(
+        Math.pow(position.x - body.position.x, 2) +
+        Math.pow(position.z - body.position.z, 2)
+      );
+      const effectiveRadius = body.type === 'lake'
+        ? body.radius + padding
+        : Math.max(body.radius, (body.riverLength || 80) / 2) + padding;
+
+      if (dist < effectiveRadius) return true;
+    }
+    return false;
+  }
+
+  // Bodies that may come within `distance` of a point
+  private bodiesNear(x: number, z: number, distance: number): WaterBody[] {
+    return this.bodyIndex ? this.bodyIndex.queryAround(x, z, distance) : this.waterBodies;
+  }
+
+  // Farthest any part of a body reaches from its center
+  private static getReach(body: WaterBody): number {
+    return body.type === 'lake' ? body.radius : Math.hypot(body.radius, (body.riverLength || 80) / 2);
+  }
+}
@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+
+/**
+ * Player-placed waypoints (from the city map), each shown in the world as a tall beacon of
+ * light. A waypoint clears itself once the player gets there.
+ */
+export class Waypoints {
+  static readonly MAX_WAYPOINTS = 5;
+  static readonly COLOR = '#fbbf24';
+  private static readonly REACHED_DISTANCE = 8;
+  private static readonly BEACON_HEIGHT = 150;
+  private static readonly BEACON_RADIUS = 0.6;
+
+  private scene: THREE.Scene;
+  private positions: THREE.Vector3[] = [];
+  private beacons: THREE.Group[] = [];
+  private beamGeometry: THREE.CylinderGeometry;
+  private ringGeometry: THREE.RingGeometry;
+  private beamMaterial: THREE.MeshBasicMaterial;
+  private ringMaterial: THREE.MeshBasicMaterial;
+  private time = 0;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.beamGeometry = new THREE.CylinderGeometry(Waypoints.BEACON_RADIUS, Waypoints.BEACON_RADIUS, Waypoints.BEACON_HEIGHT, 8, 1, true);
+    this.beamGeometry.translate(0, Waypoints.BEACON_HEIGHT / 2, 0);
+    this.ringGeometry = new THREE.RingGeometry(2, 2.6, 32);
+    this.ringGeometry.rotateX(-Math.PI / 2);
+
+    this.beamMaterial = new THREE.MeshBasicMaterial({
+      color: Waypoints.COLOR,
+      transparent: true,
+      opacity: 0.5,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      fog: false, // Visible through the fog, like a flare
+    });
+    this.ringMaterial = new THREE.MeshBasicMaterial({
+      color: Waypoints.COLOR,
+      transparent: true,
+      opacity: 0.8,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+  }
+
+  /**
+   * Place a waypoint on the ground. Returns false if there are already as many as allowed.
+   */
+  add(x: number, z: number): boolean {
+    if (this.positions.length >= Waypoints.MAX_WAYPOINTS) return false;
+
+    const position = new THREE.Vector3(x, 0, z);
+    const beacon = new THREE.Group();
+    beacon.add(new THREE.Mesh(this.beamGeometry, this.beamMaterial));
+    const ring = new THREE.Mesh(this.ringGeometry, this.ringMaterial);
+    ring.position.y = 0.1;
+    beacon.add(ring);
+    beacon.position.copy(position);
+    this.scene.add(beacon);
+
+    this.positions.push(position);
+    this.beacons.push(beacon);
+    return true;
+  }
+
+  remove(index: number): void {
+    if (index < 0 || index >= this.positions.length) return;
+    this.scene.remove(this.beacons[index]);
+    this.positions.splice(index, 1);
+    this.beacons.splice(index, 1);
+  }
+
+  /**
+   * Index of the waypoint nearest a ground point within `radius`, or -1
+   */
+  findNear(x: number, z: number, radius: number): number {
+    let nearest = -1;
+    let nearestDistance = radius;
+    this.positions.forEach((position, index) => {
+      const distance = Math.hypot(position.x - x, position.z - z);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  clear(): void {
+    while (this.positions.length > 0) {
+      this.remove(this.positions.length - 1);
+    }
+  }
+
+  getPositions(): THREE.Vector3[] {
+    return this.positions;
+  }
+
+  /**
+   * Pulse the beacons and clear the ones the player has reached
+   */
+  update(delta: number, playerPos: THREE.Vector3): void {
+    this.time += delta;
+    this.beamMaterial.opacity = 0.4 + Math.sin(this.time * 3) * 0.15;
+
+    for (let i = this.positions.length - 1; i >= 0; i--) {
+      const position = this.positions[i];
+      if (Math.hypot(position.x - playerPos.x, position.z - playerPos.z) < Waypoints.REACHED_DISTANCE) {
+        this.remove(i);
+      }
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    this.beamGeometry.dispose();
+    this.ringGeometry.dispose();
+    this.beamMaterial.dispose();
+    this.ringMaterial.dispose();
+  }
+}
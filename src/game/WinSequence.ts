@@ -197,10 +197,12 @@ export class WinSequence {
     });
   }
 
+  // Through the sudden-sound bus, so it follows the volume settings and can be softened
   private playVictorySound(): void {
-    const audioContext = (this.audioManager as any).audioContext as AudioContext;
-    if (!audioContext) return;
+    const output = this.audioManager.getSuddenSoundOutput();
+    if (!output) return;
 
+    const audioContext = output.context;
     const now = audioContext.currentTime;
 
     // Triumphant chord: C major with octave
@@ -219,7 +221,7 @@ export class WinSequence {
       gain.gain.exponentialRampToValueAtTime(0.01, startTime + 2.0);
 
       osc.connect(gain);
-      gain.connect(audioContext.destination);
+      gain.connect(output);
 
       osc.start(startTime);
       osc.stop(startTime + 2.5);
@@ -227,17 +229,18 @@ export class WinSequence {
 
     // Firework sounds (delayed)
     const timerId = window.setTimeout(() => {
-      this.playFireworkSound(audioContext);
+      this.playFireworkSound(output);
     }, 2500);
     this.pendingSoundTimers.push(timerId);
   }
 
-  private playFireworkSound(audioContext: AudioContext): void {
+  private playFireworkSound(output: AudioNode): void {
     // Just one subtle explosion per wave
-    this.playFireworkExplosion(audioContext);
+    this.playFireworkExplosion(output);
   }
 
-  private playFireworkExplosion(audioContext: AudioContext): void {
+  private playFireworkExplosion(output: AudioNode): void {
+    const audioContext = output.context;
     const now = audioContext.currentTime;
     const duration = 0.3; // Much shorter
 
@@ -269,7 +272,7 @@ export class WinSequence {
 
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(audioContext.destination);
+    gain.connect(output);
     source.start(now);
   }
 
@@ -356,11 +359,11 @@ export class WinSequence {
       this.fireworks.start(launchPositions);
 
       // Play firework sound for this wave (delayed to match explosion)
-      const audioContext = (this.audioManager as any).audioContext as AudioContext;
-      if (audioContext) {
+      const output = this.audioManager.getSuddenSoundOutput();
+      if (output) {
         // Delay sound to match when fireworks explode (~1.6s after launch)
         const timerId = window.setTimeout(() => {
-          this.playFireworkSound(audioContext);
+          this.playFireworkSound(output);
         }, 1600);
         this.pendingSoundTimers.push(timerId);
       }
@@ -1,38 +1,50 @@
-import { Game, DifficultySettings } from './game/Game';
-import { HighScoreManager } from './game/HighScoreManager';
+import { Game } from './game/Game';
+import { DIFFICULTIES, DifficultySettings, isKnownDifficulty } from './game/Difficulties';
+import { HighScoreManager, HighScore } from './game/HighScoreManager';
 import { GlobalLeaderboardManager } from './game/GlobalLeaderboardManager';
-
-// Difficulty presets
-const DIFFICULTIES: Record<string, DifficultySettings> = {
-  dev: {
-    citySize: 200,
-    fragmentCount: 1,
-    buildingDensity: 0.3,
-    fogClearRadius: 50,
-  },
-  easy: {
-    citySize: 300,
-    fragmentCount: 5,
-    buildingDensity: 0.5,
-    fogClearRadius: 35,
-  },
-  normal: {
-    citySize: 400,
-    fragmentCount: 7,
-    buildingDensity: 0.7,
-    fogClearRadius: 25,
-  },
-  hard: {
-    citySize: 500,
-    fragmentCount: 10,
-    buildingDensity: 0.8,
-    fogClearRadius: 18,
-  },
-};
+import { SeededRandom } from './game/SeededRandom';
+import { DailyChallenge } from './game/DailyChallenge';
+import { PlayerProfile } from './game/PlayerProfile';
+import { SubmissionQueue } from './game/SubmissionQueue';
+import { RunSave, RunSnapshot } from './game/RunSave';
+import { InputManager } from './game/InputManager';
+import { AudioManager, AudioSettings } from './game/AudioManager';
+import { Minimap } from './game/Minimap';
+import { Keymap, KeyAction } from './game/Keymap';
+
+// Optional fixed seed from the URL (e.g. ?seed=12345 or ?seed=my-city)
+const URL_SEED = SeededRandom.parseSeed(new URLSearchParams(window.location.search).get('seed'));
 
 // Check if running on localhost
 const IS_LOCALHOST = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
 
+const LEADERBOARD_SIZE = 5;
+const PENDING_BADGE = ' <span class="pending-badge">pending upload</span>';
+
+// One leaderboard row (rank null = not ranked yet)
+function renderLeaderboardEntry(rank: number | null, entry: HighScore, note = '', className = 'leaderboard-entry'): string {
+  // Entries come from other players - numbers go through Number() and names are escaped
+  const time = Number(entry.time) || 0;
+  const score = Number(entry.score) || 0;
+  const explored = Number(entry.explored) || 0;
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  const timeStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const name = PlayerProfile.escapeHtml(PlayerProfile.getDisplayName(entry.playerName));
+
+  return `
+    <div class="${className}">
+      <span class="leaderboard-rank">${rank === null ? '–' : `#${rank}`}</span>
+      <div class="leaderboard-stats">
+        <div class="leaderboard-score">${score} pts</div>
+        <div class="leaderboard-details">
+          <span class="leaderboard-name">${name}</span> • ${timeStr} • ${explored.toFixed(0)}%${note}
+        </div>
+      </div>
+    </div>
+  `;
+}
+
 // Function to update leaderboard display for a specific difficulty
 async function updateLeaderboard(difficulty: string = 'normal') {
   const leaderboardList = document.getElementById('leaderboard-list');
@@ -41,73 +53,125 @@ async function updateLeaderboard(difficulty: string = 'normal') {
   // Show loading state
   leaderboardList.innerHTML = '<div class="leaderboard-empty">Loading...</div>';
 
+  // Daily runs are only ranked against the same day's challenge
+  const challengeId = difficulty === DailyChallenge.DIFFICULTY ? DailyChallenge.getChallengeId() : undefined;
+  const emptyMessage = challengeId
+    ? `No daily scores for ${DailyChallenge.getDateLabel(challengeId)} yet. Be the first!`
+    : `No ${difficulty} scores yet. Be the first!`;
+
   try {
-    // Fetch merged global + local scores
-    const localScores = HighScoreManager.getScores();
-    const allScores = await GlobalLeaderboardManager.getMergedLeaderboard(localScores, 100);
+    // Top of the global board for this difficulty, plus where our best run ranks
+    const page = await GlobalLeaderboardManager.fetchLeaderboardPage(difficulty, {
+      challengeId,
+      limit: LEADERBOARD_SIZE,
+      runId: HighScoreManager.getBestRunId(difficulty, challengeId),
+      playerId: PlayerProfile.getPlayerId(),
+    });
 
-    // Filter by selected difficulty and take top 5
-    const topScores = allScores
-      .filter(s => s.difficulty === difficulty)
-      .slice(0, 5);
+    // Runs still in the offline outbox get the pending badge (the server may have them already)
+    const pendingNote = (runId: string | undefined) => SubmissionQueue.has(runId) ? PENDING_BADGE : '';
+    let html = page.scores
+      .map(entry => renderLeaderboardEntry(
+        entry.rank,
+        entry,
+        pendingNote(entry.runId),
+        entry.isYou || (entry.runId && entry.runId === page.player?.runId) ? 'leaderboard-entry player' : 'leaderboard-entry'
+      ))
+      .join('');
+    const shownRunIds = new Set(page.scores.map(entry => entry.runId));
 
-    if (topScores.length === 0) {
-      leaderboardList.innerHTML = `<div class="leaderboard-empty">No ${difficulty} scores yet. Be the first!</div>`;
-      return;
+    // Our best run is on the board but below the visible rows
+    if (page.player && page.player.rank > LEADERBOARD_SIZE) {
+      html += renderLeaderboardEntry(page.player.rank, page.player, ` (you)${pendingNote(page.player.runId)}`, 'leaderboard-entry player');
+      shownRunIds.add(page.player.runId);
     }
 
-    leaderboardList.innerHTML = topScores
-      .map((entry, index) => {
-        const minutes = Math.floor(entry.time / 60);
-        const seconds = Math.floor(entry.time % 60);
-        const timeStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-
-        return `
-          <div class="leaderboard-entry">
-            <span class="leaderboard-rank">#${index + 1}</span>
-            <div class="leaderboard-stats">
-              <div class="leaderboard-score">${entry.score} pts</div>
-              <div class="leaderboard-details">
-                ${timeStr} • ${entry.explored.toFixed(0)}%
-              </div>
-            </div>
-          </div>
-        `;
-      })
+    // Our runs still waiting in the offline outbox that aren't on the board yet
+    html += HighScoreManager.getScoresFor(difficulty, challengeId)
+      .filter(entry => SubmissionQueue.has(entry.runId) && !shownRunIds.has(entry.runId))
+      .slice(0, LEADERBOARD_SIZE)
+      .map(entry => renderLeaderboardEntry(null, entry, PENDING_BADGE, 'leaderboard-entry player'))
       .join('');
+
+    leaderboardList.innerHTML = html || `<div class="leaderboard-empty">${emptyMessage}</div>`;
   } catch (error) {
     console.error('Failed to load leaderboard:', error);
     // Fallback to local scores
-    const localScores = HighScoreManager.getScores()
-      .filter(s => s.difficulty === difficulty)
-      .slice(0, 5);
+    const localScores = HighScoreManager.getScoresFor(difficulty, challengeId).slice(0, LEADERBOARD_SIZE);
 
     if (localScores.length > 0) {
       leaderboardList.innerHTML = localScores
-        .map((entry, index) => {
-          const minutes = Math.floor(entry.time / 60);
-          const seconds = Math.floor(entry.time % 60);
-          const timeStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-
-          return `
-            <div class="leaderboard-entry">
-              <span class="leaderboard-rank">#${index + 1}</span>
-              <div class="leaderboard-stats">
-                <div class="leaderboard-score">${entry.score} pts</div>
-                <div class="leaderboard-details">
-                  ${timeStr} • ${entry.explored.toFixed(0)}% (local)
-                </div>
-              </div>
-            </div>
-          `;
-        })
+        .map((entry, index) => renderLeaderboardEntry(
+          index + 1,
+          entry,
+          SubmissionQueue.has(entry.runId) ? ` (local)${PENDING_BADGE}` : ' (local)'
+        ))
         .join('');
     } else {
-      leaderboardList.innerHTML = `<div class="leaderboard-empty">No ${difficulty} scores yet. Be the first!</div>`;
+      leaderboardList.innerHTML = `<div class="leaderboard-empty">${emptyMessage}</div>`;
     }
   }
 }
 
+// Keys bound to an action, e.g. "W / ↑"
+function describeKeys(action: KeyAction): string {
+  return Keymap.getKeys(action).map(code => Keymap.getKeyLabel(code)).join(' / ');
+}
+
+// Rebinding rows in the pause menu (one button per key slot) and the key hints elsewhere
+function renderKeymap(): void {
+  const rows = document.getElementById('keymap-rows');
+  if (rows) {
+    const bindings = Keymap.getBindings();
+    rows.innerHTML = Keymap.ACTIONS.map(({ action, label }) => {
+      const slots = Array.from({ length: Keymap.SLOTS }, (_, slot) => {
+        const code = bindings[action][slot];
+        const keyLabel = code ? PlayerProfile.escapeHtml(Keymap.getKeyLabel(code)) : '—';
+        return `<button class="keymap-key${code ? '' : ' empty'}" data-action="${action}" data-slot="${slot}">${keyLabel}</button>`;
+      }).join('');
+      return `<div class="setting-row"><span>${label}</span><span class="keymap-keys">${slots}</span></div>`;
+    }).join('');
+  }
+
+  const key = (action: KeyAction) => Keymap.getKeyLabel(Keymap.getKeys(action)[0]);
+  const keyboardHint = document.getElementById('keyboard-hint');
+  if (keyboardHint) {
+    const move = `${key('forward')}${key('left')}${key('backward')}${key('right')}`;
+    keyboardHint.textContent =
+      `${move} to move • ${key('sprint')} to sprint • ${key('jump')} to jump (hold at a wall to climb) • ${key('map')} for the map • ${key('mute')} to mute`;
+  }
+  const climbKeys = document.getElementById('climb-keys');
+  if (climbKeys) {
+    climbKeys.textContent = `${key('forward')} + Hold ${key('jump')}`;
+  }
+  const mapKeys = document.getElementById('map-keys');
+  if (mapKeys) {
+    mapKeys.textContent = describeKeys('map');
+  }
+  const slideKeys = document.getElementById('slide-keys');
+  if (slideKeys) {
+    slideKeys.textContent = `${describeKeys('slide')} + Sprint`;
+  }
+}
+
+// "Your best" line under the leaderboard: this player's rank on each difficulty
+async function updatePlayerBest() {
+  const playerBestEl = document.getElementById('player-best');
+  if (!playerBestEl) return;
+
+  try {
+    const { best } = await GlobalLeaderboardManager.fetchPlayerBests(PlayerProfile.getPlayerId());
+    const ranks = Object.entries(best)
+      .filter(([, entry]) => entry !== null)
+      .map(([difficulty, entry]) => `${difficulty} #${entry!.rank}`);
+
+    playerBestEl.textContent = ranks.length > 0 ? `Your best: ${ranks.join(' • ')}` : '';
+  } catch (error) {
+    console.error('Failed to load player bests:', error);
+    playerBestEl.textContent = '';
+  }
+}
+
 // Loading tips that cycle during initialization
 const LOADING_TIPS = [
   'The fog remembers all who have explored before...',
@@ -153,6 +217,75 @@ document.addEventListener('DOMContentLoaded', () => {
   let selectedDifficulty = 'normal';
   let game: Game | null = null;
 
+  // Seed chosen by the player (URL or seed input); null = roll a new random city each time
+  let fixedSeed: number | null = URL_SEED;
+  const seedInput = document.getElementById('seed-input') as HTMLInputElement | null;
+
+  // Daily challenge ignores the custom seed - everyone gets today's city
+  const getChallengeId = (difficulty: string): string | undefined =>
+    difficulty === DailyChallenge.DIFFICULTY ? DailyChallenge.getChallengeId() : undefined;
+
+  const getRunSeed = (difficulty: string, challengeId = getChallengeId(difficulty)): number | undefined => {
+    if (challengeId) return DailyChallenge.getSeed(challengeId);
+    return fixedSeed ?? undefined;
+  };
+
+  const createGame = (
+    difficulty: string,
+    seed = getRunSeed(difficulty),
+    challengeId = getChallengeId(difficulty)
+  ): Game => {
+    const settings: DifficultySettings = {
+      ...DIFFICULTIES[difficulty],
+      seed,
+      challengeId,
+    };
+    const newGame = new Game(container, settings, difficulty);
+    if (seedInput) {
+      seedInput.value = String(newGame.getSeed());
+      seedInput.disabled = settings.challengeId !== undefined;
+    }
+    const seedRandomBtn = document.getElementById('seed-random-btn') as HTMLButtonElement | null;
+    if (seedRandomBtn) {
+      seedRandomBtn.disabled = settings.challengeId !== undefined;
+    }
+    return newGame;
+  };
+
+  // Saved run that can still be continued (daily challenges the score API no longer accepts can't)
+  const getSavedRun = (): RunSnapshot | null => {
+    const snapshot = RunSave.load();
+    if (!snapshot) return null;
+    if (!isKnownDifficulty(snapshot.difficulty) || (snapshot.challengeId && !DailyChallenge.isOpen(snapshot.challengeId))) {
+      RunSave.clear();
+      return null;
+    }
+    return snapshot;
+  };
+
+  const continueBtn = document.getElementById('continue-btn');
+  const updateContinueButton = () => {
+    const snapshot = getSavedRun();
+    continueBtn?.classList.toggle('hidden', !snapshot);
+    const details = document.getElementById('continue-details');
+    if (snapshot && details) {
+      const minutes = Math.floor(snapshot.gameTime / 60);
+      const seconds = Math.floor(snapshot.gameTime % 60).toString().padStart(2, '0');
+      const fragments = `${snapshot.collected.length}/${DIFFICULTIES[snapshot.difficulty].fragmentCount} fragments`;
+      details.textContent = `${snapshot.difficulty} • ${fragments} • ${minutes}:${seconds}`;
+    }
+  };
+
+  // Rebuild the preview city (after a difficulty or seed change)
+  const recreatePreview = () => {
+    if (game) {
+      game.stopPreview();
+      game.dispose();
+    }
+    game = createGame(selectedDifficulty);
+    game.startPreview();
+  };
+
   // Show dev difficulty button on localhost only
   if (IS_LOCALHOST) {
     const devBtn = document.getElementById('dev-btn');
@@ -191,12 +324,228 @@ document.addEventListener('DOMContentLoaded', () => {
   animateLoading();
 
   // Initialize game immediately for preview mode
-  const settings = DIFFICULTIES[selectedDifficulty];
-  game = new Game(container, settings, selectedDifficulty);
+  game = createGame(selectedDifficulty);
   game.startPreview();
 
+  // Seed input: typing a seed rebuilds the preview with that layout
+  if (seedInput) {
+    seedInput.addEventListener('click', (e) => e.stopPropagation());
+    seedInput.addEventListener('keydown', (e) => {
+      e.stopPropagation(); // Don't trigger game shortcuts while typing
+      if (e.key === 'Enter') {
+        seedInput.blur();
+      }
+    });
+    seedInput.addEventListener('change', () => {
+      const parsed = SeededRandom.parseSeed(seedInput.value);
+      if (parsed === (game ? game.getSeed() : null)) return;
+      fixedSeed = parsed;
+      recreatePreview();
+    });
+  }
+
+  const seedRandomBtn = document.getElementById('seed-random-btn');
+  if (seedRandomBtn) {
+    seedRandomBtn.addEventListener('click', (e) => {
+      e.stopPropagation(); // Don't trigger start screen click
+      fixedSeed = null;
+      recreatePreview();
+    });
+  }
+
+  updateContinueButton();
+
   // Load and display leaderboard for default difficulty
   updateLeaderboard(selectedDifficulty);
+  updatePlayerBest();
+
+  // Upload scores that couldn't be submitted earlier (now, and whenever we come back online)
+  GlobalLeaderboardManager.startRetrying(() => {
+    updateLeaderboard(selectedDifficulty);
+    updatePlayerBest();
+  });
+
+  // Gamepad settings in the pause menu
+  const gamepadSensitivity = document.getElementById('gamepad-sensitivity') as HTMLInputElement | null;
+  const gamepadSensitivityValue = document.getElementById('gamepad-sensitivity-value');
+  const gamepadInvertY = document.getElementById('gamepad-invert-y') as HTMLInputElement | null;
+  const gamepadSettings = InputManager.getGamepadSettings();
+
+  if (gamepadSensitivity) {
+    const showSensitivity = (value: number) => {
+      if (gamepadSensitivityValue) {
+        gamepadSensitivityValue.textContent = `${value.toFixed(2)}x`;
+      }
+    };
+    gamepadSensitivity.value = String(gamepadSettings.lookSensitivity);
+    showSensitivity(gamepadSettings.lookSensitivity);
+    gamepadSensitivity.addEventListener('input', () => {
+      const lookSensitivity = Number(gamepadSensitivity.value);
+      InputManager.setGamepadSettings({ lookSensitivity });
+      showSensitivity(lookSensitivity);
+    });
+  }
+
+  if (gamepadInvertY) {
+    gamepadInvertY.checked = gamepadSettings.invertY;
+    gamepadInvertY.addEventListener('change', () => {
+      InputManager.setGamepadSettings({ invertY: gamepadInvertY.checked });
+    });
+  }
+
+  // Minimap settings in the pause menu
+  const minimapRotate = document.getElementById('minimap-rotate') as HTMLInputElement | null;
+  const minimapZoom = document.getElementById('minimap-zoom') as HTMLInputElement | null;
+  const minimapZoomValue = document.getElementById('minimap-zoom-value');
+  const minimapSettings = Minimap.getSettings();
+
+  if (minimapRotate) {
+    minimapRotate.checked = minimapSettings.rotate;
+    minimapRotate.addEventListener('change', () => {
+      Minimap.setSettings({ rotate: minimapRotate.checked });
+    });
+  }
+
+  if (minimapZoom) {
+    const showZoom = (value: number) => {
+      if (minimapZoomValue) {
+        minimapZoomValue.textContent = `${value.toFixed(1)}x`;
+      }
+    };
+    minimapZoom.value = String(minimapSettings.zoom);
+    showZoom(minimapSettings.zoom);
+    minimapZoom.addEventListener('input', () => {
+      const zoom = Number(minimapZoom.value);
+      Minimap.setSettings({ zoom });
+      showZoom(zoom);
+    });
+  }
+
+  // Audio settings in the pause menu (applied to the running game right away)
+  const audioSettings = AudioManager.getSettings();
+  const volumeSliders: [string, 'master' | 'ambience' | 'sfx' | 'music'][] = [
+    ['audio-master', 'master'],
+    ['audio-ambience', 'ambience'],
+    ['audio-sfx', 'sfx'],
+    ['audio-music', 'music'],
+  ];
+  const changeAudioSettings = (changes: Partial<AudioSettings>) => {
+    AudioManager.setSettings(changes);
+    game?.applyAudioSettings();
+  };
+
+  volumeSliders.forEach(([id, bus]) => {
+    const slider = document.getElementById(id) as HTMLInputElement | null;
+    const valueLabel = document.getElementById(`${id}-value`);
+    if (!slider) return;
+    const showVolume = (value: number) => {
+      if (valueLabel) {
+        valueLabel.textContent = `${Math.round(value * 100)}%`;
+      }
+    };
+    slider.value = String(audioSettings[bus]);
+    showVolume(audioSettings[bus]);
+    slider.addEventListener('input', () => {
+      const volume = Number(slider.value);
+      changeAudioSettings({ [bus]: volume });
+      showVolume(volume);
+    });
+  });
+
+  const audioReduceSudden = document.getElementById('audio-reduce-sudden') as HTMLInputElement | null;
+  if (audioReduceSudden) {
+    audioReduceSudden.checked = audioSettings.reduceSuddenSounds;
+    audioReduceSudden.addEventListener('change', () => {
+      changeAudioSettings({ reduceSuddenSounds: audioReduceSudden.checked });
+    });
+  }
+
+  // Keyboard rebinding in the pause menu: click a key slot, then press the new key
+  const keymapRows = document.getElementById('keymap-rows');
+  const keymapMessage = document.getElementById('keymap-message');
+  let listeningSlot: HTMLButtonElement | null = null;
+
+  const showKeymapMessage = (text: string, conflict = false) => {
+    if (keymapMessage) {
+      keymapMessage.textContent = text;
+      keymapMessage.classList.toggle('conflict', conflict);
+    }
+  };
+  const stopListening = () => {
+    listeningSlot = null;
+    renderKeymap();
+  };
+
+  renderKeymap();
+  Keymap.onChange(renderKeymap);
+
+  keymapRows?.addEventListener('click', (e) => {
+    const slot = e.target instanceof Element ? e.target.closest<HTMLButtonElement>('.keymap-key') : null;
+    if (!slot) return;
+    renderKeymap(); // Drop any other slot that was waiting for a key
+    listeningSlot = keymapRows.querySelector<HTMLButtonElement>(
+      `.keymap-key[data-action="${slot.dataset.action}"][data-slot="${slot.dataset.slot}"]`
+    );
+    if (listeningSlot) {
+      listeningSlot.classList.add('listening');
+      listeningSlot.textContent = 'Press a key';
+    }
+    showKeymapMessage('Esc cancels • Backspace clears a second key');
+  });
+
+  // Capture phase so the key doesn't also reach the game while rebinding
+  window.addEventListener('keydown', (e) => {
+    if (!listeningSlot) return;
+    if (!listeningSlot.offsetParent) {
+      // The pause menu closed while waiting (e.g. resumed with a gamepad)
+      stopListening();
+      return;
+    }
+    e.preventDefault();
+    e.stopImmediatePropagation();
+
+    const action = listeningSlot.dataset.action as KeyAction;
+    const slot = Number(listeningSlot.dataset.slot);
+    if (e.code === 'Escape') {
+      stopListening();
+      showKeymapMessage('Click a key to rebind it');
+      return;
+    }
+    if (e.code === 'Backspace') {
+      if (slot > 0) {
+        Keymap.unbind(action, slot);
+        showKeymapMessage('Click a key to rebind it');
+      } else {
+        showKeymapMessage('Every action needs a key', true);
+      }
+      stopListening();
+      return;
+    }
+
+    try {
+      const { swappedWith } = Keymap.bind(action, slot, e.code);
+      const swappedLabel = Keymap.ACTIONS.find(entry => entry.action === swappedWith)?.label;
+      showKeymapMessage(
+        swappedLabel ? `${Keymap.getKeyLabel(e.code)} was used by ${swappedLabel} - keys swapped` : 'Click a key to rebind it',
+        !!swappedLabel
+      );
+    } catch (error) {
+      showKeymapMessage((error as Error).message, true);
+    }
+    stopListening();
+  }, true);
+
+  // Clicking anywhere else cancels
+  document.addEventListener('click', (e) => {
+    if (listeningSlot && !(e.target instanceof Element && e.target.closest('#keymap-rows'))) {
+      stopListening();
+    }
+  });
+
+  document.getElementById('keymap-reset')?.addEventListener('click', () => {
+    Keymap.resetToDefaults();
+    showKeymapMessage('Default keys restored');
+  });
 
   // Info modal handlers
   const infoBtn = document.getElementById('info-btn');
@@ -231,7 +580,10 @@ document.addEventListener('DOMContentLoaded', () => {
   const updateDifficultyInfo = (difficulty: string) => {
     const settings = DIFFICULTIES[difficulty];
     if (difficultyInfo && settings) {
-      difficultyInfo.textContent = `${settings.fragmentCount} fragments • ${settings.citySize}m city`;
+      const challengeId = getChallengeId(difficulty);
+      difficultyInfo.textContent = challengeId
+        ? `Daily challenge ${DailyChallenge.getDateLabel(challengeId)} (UTC) • ${settings.fragmentCount} fragments • same city for everyone`
+        : `${settings.fragmentCount} fragments • ${settings.citySize}m city`;
     }
   };
 
@@ -250,18 +602,39 @@ document.addEventListener('DOMContentLoaded', () => {
       updateLeaderboard(selectedDifficulty);
 
       // Recreate game with new difficulty settings for preview
-      if (game) {
-        game.stopPreview();
-        game.dispose();
-      }
-      const newSettings = DIFFICULTIES[selectedDifficulty];
-      game = new Game(container, newSettings, selectedDifficulty);
-      game.startPreview();
+      recreatePreview();
     });
   });
 
   // Start screen click handler
   const startScreen = document.getElementById('start-screen');
+
+  // Continue button: rebuild the saved run's city and pick up where it left off
+  continueBtn?.addEventListener('click', (e) => {
+    e.stopPropagation(); // Don't trigger start screen click
+    const snapshot = getSavedRun();
+    if (!snapshot) {
+      updateContinueButton();
+      return;
+    }
+
+    selectedDifficulty = snapshot.difficulty;
+    difficultyBtns.forEach((b) => {
+      b.classList.toggle('selected', b.getAttribute('data-difficulty') === selectedDifficulty);
+    });
+    updateDifficultyInfo(selectedDifficulty);
+
+    if (game) {
+      game.stopPreview();
+      game.dispose();
+    }
+    game = createGame(snapshot.difficulty, snapshot.seed, snapshot.challengeId);
+
+    startScreen?.classList.add('hidden');
+    document.getElementById('hud')?.classList.remove('hidden');
+    game.continueRun(snapshot);
+  });
+
   if (startScreen) {
     startScreen.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
@@ -271,6 +644,7 @@ document.addEventListener('DOMContentLoaded', () => {
       if (target.tagName === 'BUTTON' ||
           target.closest('button') ||
           target.closest('.difficulty-selector') ||
+          target.closest('.seed-selector') ||
           target.closest('.leaderboard')) {
         return;
       }
@@ -288,19 +662,47 @@ document.addEventListener('DOMContentLoaded', () => {
 
   // Play again button
   const playAgainBtn = document.getElementById('play-again');
+  const playerNameInput = document.getElementById('player-name-input') as HTMLInputElement | null;
+  const playerNameError = document.getElementById('player-name-error');
   if (playAgainBtn) {
     playAgainBtn.addEventListener('click', () => {
+      // Submit the finished run under the entered name; stay on the win screen if it's rejected
+      if (game?.hasPendingSubmission()) {
+        const error = game.submitPendingScore(playerNameInput?.value ?? '');
+        if (playerNameError) {
+          playerNameError.textContent = error ?? '';
+        }
+        if (error) {
+          playerNameInput?.focus();
+          return;
+        }
+      }
+
       document.getElementById('win-screen')!.style.display = 'none';
       document.getElementById('hud')?.classList.add('hidden');
       // Update leaderboard for current difficulty before restarting
       updateLeaderboard(selectedDifficulty);
+      updatePlayerBest();
+      updateContinueButton();
       // Show start screen
       startScreen?.classList.remove('hidden');
       if (game) {
-        game.restart();
+        // Seed and daily challenge together, in case the day rolled over during the run
+        const challengeId = getChallengeId(selectedDifficulty);
+        game.restart(getRunSeed(selectedDifficulty, challengeId), challengeId);
+        if (seedInput) {
+          seedInput.value = String(game.getSeed());
+        }
         // Start preview mode again
         game.startPreview();
       }
     });
   }
+
+  // Enter in the name field submits like Play Again
+  playerNameInput?.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      playAgainBtn?.click();
+    }
+  });
 });